@@ -4,21 +4,27 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { ThemeToggle } from "@/components/theme-toggle";
-import { CreditCard, Building2, Home, History, LayoutDashboard } from "lucide-react";
+import { CreditCard, Building2, Home, History, LayoutDashboard, Store } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import Checkout from "@/pages/checkout";
 import BankAccounts from "@/pages/bank-accounts";
 import Transactions from "@/pages/transactions";
 import Admin from "@/pages/admin";
+import Merchants from "@/pages/merchants";
 import Receipt from "@/pages/receipt";
+import HostedCheckout from "@/pages/hosted-checkout";
+import BankLogin from "@/pages/bank-login";
 import NotFound from "@/pages/not-found";
 
 function Navigation() {
   const [location] = useLocation();
   
   const isReceiptPage = location.startsWith("/receipt");
+  // the hosted checkout is customer-facing, so no gateway navigation
+  const isHostedCheckout = location.startsWith("/checkout");
+  const isBankPage = location.startsWith("/bank/");
   
-  if (isReceiptPage) {
+  if (isReceiptPage || isHostedCheckout || isBankPage) {
     return null;
   }
 
@@ -65,6 +71,16 @@ function Navigation() {
               <span className="hidden sm:inline">Accounts</span>
             </Button>
           </Link>
+          <Link href="/merchants">
+            <Button 
+              variant={location === "/merchants" ? "secondary" : "ghost"} 
+              size="sm"
+              data-testid="nav-merchants"
+            >
+              <Store className="h-4 w-4 mr-1.5" />
+              <span className="hidden sm:inline">Merchants</span>
+            </Button>
+          </Link>
           <Link href="/admin">
             <Button 
               variant={location === "/admin" ? "secondary" : "ghost"} 
@@ -91,7 +107,10 @@ function Router() {
       <Route path="/transactions" component={Transactions} />
       <Route path="/accounts" component={BankAccounts} />
       <Route path="/admin" component={Admin} />
+      <Route path="/merchants" component={Merchants} />
       <Route path="/receipt/:id" component={Receipt} />
+      <Route path="/checkout" component={HostedCheckout} />
+      <Route path="/bank/:sessionId" component={BankLogin} />
       <Route component={NotFound} />
     </Switch>
   );
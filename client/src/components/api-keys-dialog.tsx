@@ -0,0 +1,132 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { KeyRound, Copy, Check } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { ApiKey, ApiKeyMode, Merchant } from "@shared/schema";
+
+type ApiKeyView = Omit<ApiKey, "secret_hash">;
+
+interface ApiKeysDialogProps {
+  merchant: Merchant | null;
+  onClose: () => void;
+}
+
+// Issue and revoke a merchant's API keys; a new key's secret is shown once
+export function ApiKeysDialog({ merchant, onClose }: ApiKeysDialogProps) {
+  const { toast } = useToast();
+  const [issued, setIssued] = useState<{ key_id: string; key_secret: string } | null>(null);
+  const [copied, setCopied] = useState(false);
+  const keysPath = `/api/merchants/${merchant?.merchant_id}/api-keys`;
+
+  const { data: keys = [] } = useQuery<ApiKeyView[]>({
+    queryKey: [keysPath],
+    enabled: !!merchant,
+  });
+
+  const createKeyMutation = useMutation({
+    mutationFn: async (mode: ApiKeyMode) => {
+      const response = await apiRequest("POST", keysPath, { mode });
+      return response.json() as Promise<ApiKeyView & { key_secret: string }>;
+    },
+    onSuccess: (key) => {
+      queryClient.invalidateQueries({ queryKey: [keysPath] });
+      setIssued(key);
+      setCopied(false);
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to create API key.", variant: "destructive" });
+    },
+  });
+
+  const revokeKeyMutation = useMutation({
+    mutationFn: async (keyId: string) => {
+      await apiRequest("POST", `${keysPath}/${keyId}/revoke`);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [keysPath] }),
+    onError: () => {
+      toast({ title: "Error", description: "Failed to revoke API key.", variant: "destructive" });
+    },
+  });
+
+  const close = () => {
+    setIssued(null);
+    onClose();
+  };
+
+  const copySecret = () => {
+    if (!issued) return;
+    navigator.clipboard.writeText(`${issued.key_id}:${issued.key_secret}`);
+    setCopied(true);
+  };
+
+  return (
+    <Dialog open={!!merchant} onOpenChange={(open) => !open && close()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>API Keys</DialogTitle>
+          <DialogDescription>
+            {merchant?.name} authenticates v2 API calls with these keys. Test keys create test orders, live keys live ones.
+          </DialogDescription>
+        </DialogHeader>
+
+        {issued && (
+          <div className="rounded-md border bg-muted/40 p-3 space-y-2" data-testid="section-issued-key">
+            <p className="text-sm font-medium">Copy the secret now; it won't be shown again.</p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 text-xs font-mono break-all">{issued.key_id}:{issued.key_secret}</code>
+              <Button size="icon" variant="ghost" onClick={copySecret} data-testid="button-copy-key-secret">
+                {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          {keys.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No API keys yet</p>
+          ) : (
+            keys.map((key) => (
+              <div key={key.key_id} className="flex items-center justify-between gap-3" data-testid={`row-api-key-${key.key_id}`}>
+                <div className="flex items-center gap-2 min-w-0">
+                  <KeyRound className="h-4 w-4 shrink-0 text-muted-foreground" />
+                  <span className={`font-mono text-xs truncate ${key.revoked_at ? "line-through text-muted-foreground" : ""}`}>{key.key_id}</span>
+                  <Badge variant={key.mode === "live" ? "default" : "secondary"}>{key.mode}</Badge>
+                </div>
+                {key.revoked_at ? (
+                  <span className="text-xs text-muted-foreground">Revoked</span>
+                ) : (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={revokeKeyMutation.isPending}
+                    onClick={() => revokeKeyMutation.mutate(key.key_id)}
+                    data-testid={`button-revoke-key-${key.key_id}`}
+                  >
+                    Revoke
+                  </Button>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="flex gap-2">
+          {merchant?.test_mode && (
+            <Button variant="outline" className="flex-1" disabled={createKeyMutation.isPending} onClick={() => createKeyMutation.mutate("test")} data-testid="button-create-test-key">
+              New Test Key
+            </Button>
+          )}
+          {merchant?.live_mode && (
+            <Button className="flex-1" disabled={createKeyMutation.isPending} onClick={() => createKeyMutation.mutate("live")} data-testid="button-create-live-key">
+              New Live Key
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,87 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { ShieldCheck, Loader2, AlertCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { apiRequest } from "@/lib/queryClient";
+import { cardLabel } from "@shared/cards";
+import type { Transaction } from "@shared/schema";
+
+interface OtpChallengeProps {
+  transaction: Transaction;
+  onComplete: (transaction: Transaction) => void;
+}
+
+// apiRequest errors read "<status>: <body>"; pull the gateway's message out
+function errorMessage(error: Error) {
+  try {
+    return JSON.parse(error.message.slice(error.message.indexOf(":") + 1)).message as string;
+  } catch {
+    return "Could not verify the OTP. Please try again.";
+  }
+}
+
+// Simulated 3-D Secure page shown when a card payment returns requires_action
+export function OtpChallenge({ transaction, onComplete }: OtpChallengeProps) {
+  const [otp, setOtp] = useState("");
+
+  const authenticateMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const response = await apiRequest("POST", `/api/payments/${transaction.id}/authenticate`, {
+        challengeId: transaction.challengeId,
+        otp: code,
+      });
+      return response.json() as Promise<Transaction>;
+    },
+    onSuccess: onComplete,
+    onError: () => setOtp(""),
+  });
+
+  return (
+    <div className="p-6 text-center" data-testid="section-otp-challenge">
+      <div className="inline-flex items-center justify-center w-12 h-12 rounded-full bg-primary/10 mb-4">
+        <ShieldCheck className="h-6 w-6 text-primary" />
+      </div>
+      <h2 className="text-lg font-semibold">Verify it's you</h2>
+      <p className="text-sm text-muted-foreground mt-1 mb-6">
+        Enter the one-time password sent by your bank for {cardLabel(transaction)}.
+        <br />
+        Use <span className="font-mono">123456</span> in test mode.
+      </p>
+
+      <div className="flex justify-center mb-4">
+        <InputOTP maxLength={6} value={otp} onChange={setOtp} data-testid="input-otp">
+          <InputOTPGroup>
+            {[0, 1, 2, 3, 4, 5].map((index) => (
+              <InputOTPSlot key={index} index={index} />
+            ))}
+          </InputOTPGroup>
+        </InputOTP>
+      </div>
+
+      {authenticateMutation.error && (
+        <p className="flex items-center justify-center gap-1.5 text-sm text-destructive mb-4" data-testid="text-otp-error">
+          <AlertCircle className="h-4 w-4" />
+          {errorMessage(authenticateMutation.error)}
+        </p>
+      )}
+
+      <Button
+        className="w-full"
+        size="lg"
+        disabled={otp.length !== 6 || authenticateMutation.isPending}
+        onClick={() => authenticateMutation.mutate(otp)}
+        data-testid="button-verify-otp"
+      >
+        {authenticateMutation.isPending ? (
+          <>
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Verifying...
+          </>
+        ) : (
+          "Verify & Pay"
+        )}
+      </Button>
+    </div>
+  );
+}
@@ -1,18 +1,138 @@
 import { useState } from "react";
-import { X, CreditCard, Smartphone, Building2, Copy, Check, Loader2, AlertCircle } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import { X, CreditCard, Smartphone, Building2, Copy, Check, Loader2, AlertCircle, FlaskConical, BadgeCheck } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import type { Order, BankAccount, PaymentMethod, ProcessPaymentInput } from "@shared/schema";
+import { Checkbox } from "@/components/ui/checkbox";
+import { OtpChallenge } from "@/components/otp-challenge";
+import { UpiCollectStatus } from "@/components/upi-collect-status";
+import { cardExpiry, cardLabel, cardNetworkLabels, checkCvv, detectCardNetwork, validateCard } from "@shared/cards";
+import { isValidVpa, normalizeVpa } from "@shared/upi";
+import type { Order, BankAccount, PaymentMethod, PaymentScenario, ProcessPaymentInput, SavedCard, Transaction } from "@shared/schema";
 
 interface PaymentModalProps {
   order: Order;
   bankAccounts: BankAccount[];
   onClose: () => void;
-  onPayment: (input: ProcessPaymentInput) => Promise<void>;
+  // resolves with the new Transaction; a requires_action one gets an OTP
+  // challenge here and a pending UPI collect waits here for approval
+  onPayment: (input: ProcessPaymentInput) => Promise<Transaction>;
+  // called once a challenged or collect payment has been finalized
+  onFinalized: (transaction: Transaction) => void;
   isProcessing: boolean;
+  // the customer's vaulted cards, and whether a new card may be vaulted
+  savedCards?: SavedCard[];
+  canSaveCard?: boolean;
+  // the merchant's enabled methods; all of them when omitted
+  paymentMethods?: PaymentMethod[];
+}
+
+const outcomeLabels: Record<PaymentScenario["outcome"], string> = {
+  success: "Succeeds",
+  decline: "Declined",
+  timeout: "Times out",
+  pending_then_success: "Pending",
+  challenge_3ds: "3DS",
+  network_error: "Network error",
+};
+
+// Lists the catalog entries for the active tab; picking one fills in the form
+function TestScenarioHelper({
+  scenarios,
+  onPick,
+}: {
+  scenarios: PaymentScenario[];
+  onPick: (scenario: PaymentScenario) => void;
+}) {
+  if (scenarios.length === 0) return null;
+
+  return (
+    <div className="mt-6 rounded-lg border border-dashed p-3" data-testid="section-test-scenarios">
+      <p className="flex items-center gap-1.5 text-xs uppercase tracking-wide text-muted-foreground font-medium mb-2">
+        <FlaskConical className="h-3.5 w-3.5" />
+        Test scenarios
+      </p>
+      <div className="space-y-1">
+        {scenarios.map((scenario) => (
+          <button
+            key={scenario.match}
+            onClick={() => onPick(scenario)}
+            className="w-full flex items-center justify-between gap-3 rounded-md px-2 py-1.5 text-left text-sm hover-elevate"
+            data-testid={`button-scenario-${scenario.match}`}
+          >
+            <div className="min-w-0">
+              <p className="font-mono text-xs truncate">{scenario.match}</p>
+              <p className="text-xs text-muted-foreground truncate">{scenario.description}</p>
+            </div>
+            <Badge variant={scenario.outcome === "success" ? "secondary" : "outline"} className="text-xs shrink-0">
+              {outcomeLabels[scenario.outcome]}
+            </Badge>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Scan-to-pay QR code for the order's upi://pay intent
+function UpiIntentPanel({ orderId }: { orderId: string }) {
+  const { data: intent } = useQuery<{ intentUrl: string; qrCode: string }>({
+    queryKey: ["/api/orders", orderId, "upi-intent"],
+  });
+  if (!intent) return null;
+
+  return (
+    <div className="flex items-center gap-4 rounded-lg border p-3" data-testid="section-upi-intent">
+      <img src={intent.qrCode} alt="UPI QR code" className="w-28 h-28 shrink-0 rounded" data-testid="img-upi-qr" />
+      <div className="min-w-0 space-y-2">
+        <p className="text-sm font-medium">Scan with any UPI app</p>
+        <p className="text-xs text-muted-foreground font-mono break-all" data-testid="text-upi-intent">{intent.intentUrl}</p>
+        <a href={intent.intentUrl} className="text-xs text-primary hover:underline" data-testid="link-upi-intent">
+          Open in UPI app
+        </a>
+      </div>
+    </div>
+  );
+}
+
+function SavedCardPicker({
+  savedCards,
+  selected,
+  onSelect,
+}: {
+  savedCards: SavedCard[];
+  selected: string | null;
+  onSelect: (tokenId: string | null) => void;
+}) {
+  const options = [
+    ...savedCards.map((card) => ({
+      id: card.token_id as string | null,
+      label: cardLabel({ cardNetwork: card.network, cardLast4: card.last4 }),
+      detail: `Expires ${cardExpiry({ cardExpiryMonth: card.expiry_month, cardExpiryYear: card.expiry_year })}`,
+    })),
+    { id: null, label: "Use a new card", detail: "" },
+  ];
+
+  return (
+    <div className="grid gap-2" data-testid="list-saved-cards">
+      {options.map((option) => (
+        <Card
+          key={option.id ?? "new"}
+          className={`p-3 cursor-pointer transition-all ${selected === option.id ? "ring-2 ring-primary bg-primary/5" : "hover-elevate"}`}
+          onClick={() => onSelect(option.id)}
+          data-testid={`card-saved-${option.id ?? "new"}`}
+        >
+          <div className="flex items-center justify-between gap-3 text-sm">
+            <span className="font-mono">{option.label}</span>
+            <span className="text-xs text-muted-foreground">{option.detail}</span>
+          </div>
+        </Card>
+      ))}
+    </div>
+  );
 }
 
 export function PaymentModal({
@@ -20,9 +140,13 @@ export function PaymentModal({
   bankAccounts,
   onClose,
   onPayment,
+  onFinalized,
   isProcessing,
+  savedCards = [],
+  canSaveCard = false,
+  paymentMethods,
 }: PaymentModalProps) {
-  const [activeTab, setActiveTab] = useState<PaymentMethod>("card");
+  const [activeTab, setActiveTab] = useState<PaymentMethod>(paymentMethods?.[0] ?? "card");
   const [selectedBank, setSelectedBank] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
   
@@ -33,6 +157,36 @@ export function PaymentModal({
     cardHolderName: "",
   });
   const [upiId, setUpiId] = useState("");
+  // one key per modal session so double-clicks and retries can't charge twice
+  const [idempotencyKey] = useState(() => crypto.randomUUID());
+  const [challenge, setChallenge] = useState<Transaction | null>(null);
+  const [collectRequest, setCollectRequest] = useState<Transaction | null>(null);
+  // saved cards pay with the CVV alone
+  const [selectedToken, setSelectedToken] = useState<string | null>(savedCards[0]?.token_id ?? null);
+  const [savedCardCvv, setSavedCardCvv] = useState("");
+  const [saveCard, setSaveCard] = useState(false);
+
+  const { data: scenarios = [] } = useQuery<PaymentScenario[]>({
+    queryKey: ["/api/scenarios"],
+  });
+
+  const pickScenario = (scenario: PaymentScenario) => {
+    if (scenario.paymentMethod === "card") {
+      setSelectedToken(null);
+      setCardDetails({
+        cardNumber: scenario.match,
+        expiry: cardDetails.expiry || "12/30",
+        cvv: cardDetails.cvv || "123",
+        cardHolderName: cardDetails.cardHolderName || order.name,
+      });
+    } else if (scenario.paymentMethod === "upi") {
+      setUpiId(scenario.match);
+    } else {
+      // the account itself is picked on the bank's page
+      const account = bankAccounts.find((a) => a.accountNumber === scenario.match);
+      if (account) setSelectedBank(account.bankName);
+    }
+  };
 
   const copyOrderId = () => {
     navigator.clipboard.writeText(order.id);
@@ -45,39 +199,62 @@ export function PaymentModal({
       orderId: order.id,
       amount: order.amount,
       paymentMethod: activeTab,
+      idempotencyKey,
     };
 
-    if (activeTab === "card") {
+    if (activeTab === "card" && selectedToken) {
+      input.savedCard = { tokenId: selectedToken, cvv: savedCardCvv };
+    } else if (activeTab === "card") {
       input.cardDetails = cardDetails;
+      input.saveCard = saveCard || undefined;
     } else if (activeTab === "upi") {
       input.upiId = upiId;
+      input.upiFlow = "collect";
     } else if (activeTab === "netbanking") {
-      input.bankAccountId = selectedBank || undefined;
+      input.netbankingFlow = "redirect";
+      input.bankName = selectedBank || undefined;
     }
 
-    await onPayment(input);
+    const transaction = await onPayment(input);
+    if (transaction.status === "requires_action") setChallenge(transaction);
+    if (transaction.status === "pending" && transaction.bankSessionId) {
+      window.location.assign(`/bank/${transaction.bankSessionId}`);
+    } else if (transaction.status === "pending") {
+      setCollectRequest(transaction);
+    }
   };
 
-  const isCardValid = 
-    cardDetails.cardNumber.length === 16 && 
-    /^\d{16}$/.test(cardDetails.cardNumber) &&
-    /^\d{2}\/\d{2}$/.test(cardDetails.expiry) && 
-    cardDetails.cvv.length >= 3 && 
-    /^\d{3,4}$/.test(cardDetails.cvv) &&
-    cardDetails.cardHolderName.trim().length >= 2;
+  const cardValidation = validateCard(cardDetails);
+  const cardNetwork = detectCardNetwork(cardDetails.cardNumber);
+  const isCardValid = cardValidation.ok && cardDetails.cardHolderName.trim().length >= 2;
+  // only point out problems once the field looks complete
+  const cardError =
+    !cardValidation.ok && cardDetails.cardNumber.length >= 13 && cardDetails.expiry.length === 5 && cardDetails.cvv.length >= 3
+      ? cardValidation.message
+      : undefined;
+
+  const selectedSavedCard = savedCards.find((card) => card.token_id === selectedToken);
+  const isSavedCardValid = !!selectedSavedCard && !checkCvv(selectedSavedCard.network, savedCardCvv);
 
-  const isUpiValid = /^[\w.-]+@[\w]+$/.test(upiId);
+  const isUpiValid = isValidVpa(upiId);
+  const { data: vpaOwner } = useQuery<{ accountHolderName: string; bankName: string }>({
+    queryKey: ["/api/vpas", normalizeVpa(upiId)],
+    enabled: activeTab === "upi" && isUpiValid,
+    retry: false,
+  });
   
+  const banks = Array.from(new Set(bankAccounts.map((account) => account.bankName))).sort();
+
   const canPay = 
-    (activeTab === "card" && isCardValid) ||
+    (activeTab === "card" && (selectedToken ? isSavedCardValid : isCardValid)) ||
     (activeTab === "upi" && isUpiValid) ||
     (activeTab === "netbanking" && selectedBank);
 
-  const tabs: { id: PaymentMethod; label: string; icon: typeof CreditCard }[] = [
+  const tabs = ([
     { id: "card", label: "Card", icon: CreditCard },
     { id: "upi", label: "UPI", icon: Smartphone },
     { id: "netbanking", label: "Netbanking", icon: Building2 },
-  ];
+  ] as { id: PaymentMethod; label: string; icon: typeof CreditCard }[]).filter((tab) => !paymentMethods || paymentMethods.includes(tab.id));
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
@@ -137,192 +314,232 @@ export function PaymentModal({
           </div>
         </div>
 
-        <div className="p-6">
-          <div className="flex gap-2 p-1 bg-muted rounded-lg mb-6">
-            {tabs.map((tab) => (
-              <button
-                key={tab.id}
-                onClick={() => setActiveTab(tab.id)}
-                className={`flex-1 flex items-center justify-center gap-2 py-2.5 px-3 rounded-md text-sm font-medium transition-colors ${
-                  activeTab === tab.id
-                    ? "bg-background shadow-sm"
-                    : "text-muted-foreground hover:text-foreground"
-                }`}
-                data-testid={`tab-${tab.id}`}
-              >
-                <tab.icon className="h-4 w-4" />
-                {tab.label}
-              </button>
-            ))}
-          </div>
-
-          <div className="min-h-[200px]">
-            {activeTab === "card" && (
-              <div className="space-y-4">
-                <div>
-                  <Label htmlFor="cardNumber" className="text-xs uppercase tracking-wide">Card Number</Label>
-                  <Input
-                    id="cardNumber"
-                    placeholder="1234 5678 9012 3456"
-                    value={cardDetails.cardNumber}
-                    onChange={(e) => setCardDetails({ ...cardDetails, cardNumber: e.target.value.replace(/\D/g, "").slice(0, 16) })}
-                    className="mt-1.5 font-mono"
-                    data-testid="input-card-number"
-                  />
-                </div>
-                <div className="grid grid-cols-2 gap-4">
-                  <div>
-                    <Label htmlFor="expiry" className="text-xs uppercase tracking-wide">Expiry</Label>
-                    <Input
-                      id="expiry"
-                      placeholder="MM/YY"
-                      value={cardDetails.expiry}
-                      onChange={(e) => {
-                        let val = e.target.value.replace(/\D/g, "").slice(0, 4);
-                        if (val.length >= 2) val = val.slice(0, 2) + "/" + val.slice(2);
-                        setCardDetails({ ...cardDetails, expiry: val });
-                      }}
-                      className="mt-1.5 font-mono"
-                      data-testid="input-card-expiry"
-                    />
-                  </div>
-                  <div>
-                    <Label htmlFor="cvv" className="text-xs uppercase tracking-wide">CVV</Label>
-                    <Input
-                      id="cvv"
-                      type="password"
-                      placeholder="123"
-                      value={cardDetails.cvv}
-                      onChange={(e) => setCardDetails({ ...cardDetails, cvv: e.target.value.replace(/\D/g, "").slice(0, 4) })}
-                      className="mt-1.5 font-mono"
-                      data-testid="input-card-cvv"
-                    />
-                  </div>
-                </div>
-                <div>
-                  <Label htmlFor="cardHolderName" className="text-xs uppercase tracking-wide">Cardholder Name</Label>
-                  <Input
-                    id="cardHolderName"
-                    placeholder="John Doe"
-                    value={cardDetails.cardHolderName}
-                    onChange={(e) => setCardDetails({ ...cardDetails, cardHolderName: e.target.value })}
-                    className="mt-1.5"
-                    data-testid="input-card-holder-name"
-                  />
-                </div>
+        {challenge ? (
+          <OtpChallenge transaction={challenge} onComplete={onFinalized} />
+        ) : collectRequest ? (
+          <UpiCollectStatus transaction={collectRequest} upiId={upiId} onComplete={onFinalized} />
+        ) : (
+          <>
+            <div className="p-6">
+              <div className="flex gap-2 p-1 bg-muted rounded-lg mb-6">
+                {tabs.map((tab) => (
+                  <button
+                    key={tab.id}
+                    onClick={() => setActiveTab(tab.id)}
+                    className={`flex-1 flex items-center justify-center gap-2 py-2.5 px-3 rounded-md text-sm font-medium transition-colors ${
+                      activeTab === tab.id
+                        ? "bg-background shadow-sm"
+                        : "text-muted-foreground hover:text-foreground"
+                    }`}
+                    data-testid={`tab-${tab.id}`}
+                  >
+                    <tab.icon className="h-4 w-4" />
+                    {tab.label}
+                  </button>
+                ))}
               </div>
-            )}
 
-            {activeTab === "upi" && (
-              <div className="space-y-4">
-                <div>
-                  <Label htmlFor="upiId" className="text-xs uppercase tracking-wide">UPI ID</Label>
-                  <Input
-                    id="upiId"
-                    placeholder="yourname@upi"
-                    value={upiId}
-                    onChange={(e) => setUpiId(e.target.value)}
-                    className="mt-1.5"
-                    data-testid="input-upi-id"
-                  />
-                  <p className="text-xs text-muted-foreground mt-2">
-                    Enter your UPI ID to simulate a UPI payment
-                  </p>
-                </div>
-              </div>
-            )}
+              <div className="min-h-[200px]">
+                {activeTab === "card" && (
+                  <div className="space-y-4">
+                    {savedCards.length > 0 && (
+                      <SavedCardPicker savedCards={savedCards} selected={selectedToken} onSelect={setSelectedToken} />
+                    )}
+                    {selectedToken ? (
+                      <div>
+                        <Label htmlFor="savedCardCvv" className="text-xs uppercase tracking-wide">CVV</Label>
+                        <Input
+                          id="savedCardCvv"
+                          type="password"
+                          placeholder="123"
+                          value={savedCardCvv}
+                          onChange={(e) => setSavedCardCvv(e.target.value.replace(/\D/g, "").slice(0, 4))}
+                          className="mt-1.5 font-mono w-32"
+                          data-testid="input-saved-card-cvv"
+                        />
+                      </div>
+                    ) : (
+                      <>
+                        <div>
+                          <Label htmlFor="cardNumber" className="text-xs uppercase tracking-wide">Card Number</Label>
+                          <Input
+                            id="cardNumber"
+                            placeholder="1234 5678 9012 3456"
+                            value={cardDetails.cardNumber}
+                            onChange={(e) => setCardDetails({ ...cardDetails, cardNumber: e.target.value.replace(/\D/g, "").slice(0, 19) })}
+                            className="mt-1.5 font-mono"
+                            data-testid="input-card-number"
+                          />
+                          {cardNetwork && (
+                            <p className="text-xs text-muted-foreground mt-1.5" data-testid="text-card-network">
+                              {cardNetworkLabels[cardNetwork]}
+                            </p>
+                          )}
+                        </div>
+                        <div className="grid grid-cols-2 gap-4">
+                          <div>
+                            <Label htmlFor="expiry" className="text-xs uppercase tracking-wide">Expiry</Label>
+                            <Input
+                              id="expiry"
+                              placeholder="MM/YY"
+                              value={cardDetails.expiry}
+                              onChange={(e) => {
+                                let val = e.target.value.replace(/\D/g, "").slice(0, 4);
+                                if (val.length >= 2) val = val.slice(0, 2) + "/" + val.slice(2);
+                                setCardDetails({ ...cardDetails, expiry: val });
+                              }}
+                              className="mt-1.5 font-mono"
+                              data-testid="input-card-expiry"
+                            />
+                          </div>
+                          <div>
+                            <Label htmlFor="cvv" className="text-xs uppercase tracking-wide">CVV</Label>
+                            <Input
+                              id="cvv"
+                              type="password"
+                              placeholder="123"
+                              value={cardDetails.cvv}
+                              onChange={(e) => setCardDetails({ ...cardDetails, cvv: e.target.value.replace(/\D/g, "").slice(0, 4) })}
+                              className="mt-1.5 font-mono"
+                              data-testid="input-card-cvv"
+                            />
+                          </div>
+                        </div>
+                        <div>
+                          <Label htmlFor="cardHolderName" className="text-xs uppercase tracking-wide">Cardholder Name</Label>
+                          <Input
+                            id="cardHolderName"
+                            placeholder="John Doe"
+                            value={cardDetails.cardHolderName}
+                            onChange={(e) => setCardDetails({ ...cardDetails, cardHolderName: e.target.value })}
+                            className="mt-1.5"
+                            data-testid="input-card-holder-name"
+                          />
+                        </div>
+                        {cardError && (
+                          <p className="flex items-center gap-1.5 text-sm text-destructive" data-testid="text-card-error">
+                            <AlertCircle className="h-4 w-4" />
+                            {cardError}
+                          </p>
+                        )}
+                        {canSaveCard && (
+                          <div className="flex items-center gap-2">
+                            <Checkbox
+                              id="saveCard"
+                              checked={saveCard}
+                              onCheckedChange={(checked) => setSaveCard(checked === true)}
+                              data-testid="checkbox-save-card"
+                            />
+                            <Label htmlFor="saveCard" className="text-sm font-normal">Save this card for faster checkout</Label>
+                          </div>
+                        )}
+                      </>
+                    )}
+                  </div>
+                )}
 
-            {activeTab === "netbanking" && (
-              <div className="space-y-4">
-                {bankAccounts.length === 0 ? (
-                  <div className="text-center py-8">
-                    <Building2 className="h-12 w-12 mx-auto text-muted-foreground/50 mb-3" />
-                    <p className="text-muted-foreground">No bank accounts available</p>
-                    <p className="text-sm text-muted-foreground mt-1">
-                      Create a test bank account to use netbanking
-                    </p>
+                {activeTab === "upi" && (
+                  <div className="space-y-4">
+                    <UpiIntentPanel orderId={order.id} />
+                    <div>
+                      <Label htmlFor="upiId" className="text-xs uppercase tracking-wide">Or pay with your UPI ID</Label>
+                      <Input
+                        id="upiId"
+                        placeholder="yourname@upi"
+                        value={upiId}
+                        onChange={(e) => setUpiId(e.target.value)}
+                        className="mt-1.5"
+                        data-testid="input-upi-id"
+                      />
+                      {isUpiValid && vpaOwner ? (
+                        <p className="flex items-center gap-1.5 text-xs text-muted-foreground mt-2" data-testid="text-vpa-owner">
+                          <BadgeCheck className="h-3.5 w-3.5 text-primary" />
+                          {vpaOwner.accountHolderName} · {vpaOwner.bankName}
+                        </p>
+                      ) : (
+                        <p className="text-xs text-muted-foreground mt-2">
+                          We'll send a collect request to this UPI ID for you to approve
+                        </p>
+                      )}
+                    </div>
                   </div>
-                ) : (
-                  <div className="grid gap-3">
-                    {bankAccounts.map((account) => {
-                      const insufficientBalance = account.balance < order.amount;
-                      return (
-                        <Card
-                          key={account.id}
-                          className={`p-4 cursor-pointer transition-all ${
-                            selectedBank === account.id
-                              ? "ring-2 ring-primary bg-primary/5"
-                              : insufficientBalance
-                              ? "opacity-60"
-                              : "hover-elevate"
-                          }`}
-                          onClick={() => !insufficientBalance && setSelectedBank(account.id)}
-                          data-testid={`card-bank-${account.id}`}
-                        >
-                          <div className="flex items-start justify-between gap-3">
+                )}
+
+                {activeTab === "netbanking" && (
+                  <div className="space-y-4">
+                    {bankAccounts.length === 0 ? (
+                      <div className="text-center py-8">
+                        <Building2 className="h-12 w-12 mx-auto text-muted-foreground/50 mb-3" />
+                        <p className="text-muted-foreground">No bank accounts available</p>
+                        <p className="text-sm text-muted-foreground mt-1">
+                          Create a test bank account to use netbanking
+                        </p>
+                      </div>
+                    ) : (
+                      <div className="grid gap-3">
+                        {banks.map((bankName) => (
+                          <Card
+                            key={bankName}
+                            className={`p-4 cursor-pointer transition-all ${
+                              selectedBank === bankName ? "ring-2 ring-primary bg-primary/5" : "hover-elevate"
+                            }`}
+                            onClick={() => setSelectedBank(bankName)}
+                            data-testid={`card-bank-${bankName}`}
+                          >
                             <div className="flex items-center gap-3">
                               <div className={`w-4 h-4 rounded-full border-2 flex items-center justify-center ${
-                                selectedBank === account.id ? "border-primary" : "border-muted-foreground/30"
+                                selectedBank === bankName ? "border-primary" : "border-muted-foreground/30"
                               }`}>
-                                {selectedBank === account.id && (
+                                {selectedBank === bankName && (
                                   <div className="w-2 h-2 rounded-full bg-primary" />
                                 )}
                               </div>
-                              <div>
-                                <p className="font-medium">{account.bankName}</p>
-                                <p className="text-sm text-muted-foreground">{account.accountHolderName}</p>
-                                <p className="text-xs font-mono text-muted-foreground mt-0.5">
-                                  ****{account.accountNumber.slice(-4)}
-                                </p>
-                              </div>
+                              <p className="font-medium">{bankName}</p>
                             </div>
-                            <div className="text-right">
-                              <p className="font-mono font-semibold">
-                                ₹{account.balance.toLocaleString()}
-                              </p>
-                              {insufficientBalance && (
-                                <Badge variant="destructive" className="mt-1 text-xs">
-                                  <AlertCircle className="h-3 w-3 mr-1" />
-                                  Low Balance
-                                </Badge>
-                              )}
-                            </div>
-                          </div>
-                        </Card>
-                      );
-                    })}
+                          </Card>
+                        ))}
+                        <p className="text-xs text-muted-foreground text-center">
+                          You'll log in to your bank to choose an account and approve the payment
+                        </p>
+                      </div>
+                    )}
                   </div>
                 )}
+
+                <TestScenarioHelper
+                  scenarios={scenarios.filter((scenario) => scenario.paymentMethod === activeTab)}
+                  onPick={pickScenario}
+                />
               </div>
-            )}
-          </div>
-        </div>
+            </div>
 
-        <div className="p-6 border-t bg-muted/30">
-          <Button
-            className="w-full"
-            size="lg"
-            disabled={!canPay || isProcessing}
-            onClick={handlePayment}
-            data-testid="button-pay-now"
-          >
-            {isProcessing ? (
-              <>
-                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                Processing...
-              </>
-            ) : (
-              <>Pay ₹{order.amount.toLocaleString()}</>
-            )}
-          </Button>
-          <button
-            onClick={onClose}
-            className="w-full mt-3 text-sm text-muted-foreground hover:text-foreground transition-colors"
-            data-testid="button-cancel-payment"
-          >
-            Cancel
-          </button>
-        </div>
+            <div className="p-6 border-t bg-muted/30">
+              <Button
+                className="w-full"
+                size="lg"
+                disabled={!canPay || isProcessing}
+                onClick={handlePayment}
+                data-testid="button-pay-now"
+              >
+                {isProcessing ? (
+                  <>
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    Processing...
+          </>
+              ) : (
+                <>Pay ₹{order.amount.toLocaleString()}</>
+              )}
+            </Button>
+            <button
+              onClick={onClose}
+              className="w-full mt-3 text-sm text-muted-foreground hover:text-foreground transition-colors"
+              data-testid="button-cancel-payment"
+            >
+              Cancel
+            </button>
+          </div>
+          </>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,92 @@
+import { useMutation } from "@tanstack/react-query";
+import { Smartphone, Check, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Transaction } from "@shared/schema";
+
+interface PendingCollectsProps {
+  transactions: Transaction[];
+}
+
+// Admin stand-in for the customer's UPI app: approve or reject collect requests
+export function PendingCollects({ transactions }: PendingCollectsProps) {
+  const { toast } = useToast();
+  const pending = transactions.filter((t) => t.status === "pending" && t.paymentMethod === "upi");
+
+  const resolveMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: "approve" | "reject" }) => {
+      const response = await apiRequest("POST", `/api/payments/${id}/collect`, { action });
+      return response.json() as Promise<Transaction>;
+    },
+    onSuccess: (transaction) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      toast({
+        title: transaction.status === "failed" ? "Collect Rejected" : "Collect Approved",
+        description: `${transaction.id} is now ${transaction.status}.`,
+      });
+    },
+    onError: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      toast({
+        title: "Error",
+        description: "The collect request is no longer pending.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (pending.length === 0) return null;
+
+  return (
+    <Card className="lg:col-span-2" data-testid="section-pending-collects">
+      <CardHeader className="pb-4">
+        <CardTitle className="text-lg">Pending UPI Collects</CardTitle>
+        <CardDescription>Approve or reject on the customer's behalf</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          {pending.map((transaction) => (
+            <div
+              key={transaction.id}
+              className="flex items-center justify-between gap-4"
+              data-testid={`row-pending-collect-${transaction.id}`}
+            >
+              <div className="flex items-center gap-3 min-w-0 flex-1">
+                <div className="shrink-0 w-8 h-8 rounded-full flex items-center justify-center bg-muted">
+                  <Smartphone className="h-4 w-4 text-muted-foreground" />
+                </div>
+                <div className="min-w-0 flex-1">
+                  <p className="font-mono text-sm truncate">{transaction.id}</p>
+                  <p className="font-mono text-xs text-muted-foreground">₹{transaction.amount.toLocaleString()}</p>
+                </div>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <Button
+                  size="sm"
+                  disabled={resolveMutation.isPending}
+                  onClick={() => resolveMutation.mutate({ id: transaction.id, action: "approve" })}
+                  data-testid={`button-approve-collect-${transaction.id}`}
+                >
+                  <Check className="h-4 w-4 mr-1" />
+                  Approve
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={resolveMutation.isPending}
+                  onClick={() => resolveMutation.mutate({ id: transaction.id, action: "reject" })}
+                  data-testid={`button-reject-collect-${transaction.id}`}
+                >
+                  <X className="h-4 w-4 mr-1" />
+                  Reject
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,151 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { RotateCcw, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { paisaToRupees, rupeesToPaisa } from "@shared/money";
+import type { Refund, Transaction } from "@shared/schema";
+
+interface RefundsSectionProps {
+  transaction: Transaction;
+}
+
+export function RefundsSection({ transaction }: RefundsSectionProps) {
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+  const { toast } = useToast();
+
+  const { data: refunds = [] } = useQuery<Refund[]>({
+    queryKey: ["/api/transactions", transaction.id, "refunds"],
+    enabled: transaction.status === "success",
+  });
+
+  const refundedPaisa = refunds
+    .filter((r) => r.status === "processed")
+    .reduce((sum, r) => sum + rupeesToPaisa(r.amount), 0);
+  const refundable = paisaToRupees(rupeesToPaisa(transaction.capturedAmount ?? transaction.amount) - refundedPaisa);
+
+  const refundMutation = useMutation({
+    mutationFn: async (input: { amount?: number; reason?: string }) => {
+      const response = await apiRequest("POST", `/api/transactions/${transaction.id}/refunds`, input);
+      return response.json() as Promise<Refund>;
+    },
+    onSuccess: (refund) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions", transaction.id, "refunds"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/refunds"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+      setAmount("");
+      setReason("");
+      toast({
+        title: refund.status === "processed" ? "Refund Processed" : "Refund Failed",
+        description: refund.status === "processed"
+          ? `₹${refund.amount.toLocaleString()} has been refunded.`
+          : refund.failureReason,
+        variant: refund.status === "processed" ? undefined : "destructive",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to process the refund. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const parsedAmount = parseFloat(amount);
+  const isAmountValid = !isNaN(parsedAmount) && parsedAmount > 0 && parsedAmount <= refundable;
+
+  if (transaction.status !== "success") return null;
+
+  return (
+    <div className="bg-muted/30 rounded-lg p-6 mb-6" data-testid="section-refunds">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="font-semibold">Refunds</h2>
+        <span className="text-sm text-muted-foreground" data-testid="text-refundable">
+          Refundable: <span className="font-mono">₹{refundable.toLocaleString()}</span>
+        </span>
+      </div>
+
+      {refunds.length > 0 && (
+        <div className="space-y-3 mb-4">
+          {refunds.map((refund) => (
+            <div
+              key={refund.id}
+              className="flex items-center justify-between gap-4 py-2 border-b border-border/50"
+              data-testid={`row-refund-${refund.id}`}
+            >
+              <div className="min-w-0 flex-1">
+                <p className="font-mono text-sm truncate">{refund.id}</p>
+                <p className="text-xs text-muted-foreground truncate">
+                  {refund.failureReason ?? refund.reason ?? new Date(refund.createdAt).toLocaleString("en-IN", { dateStyle: "short", timeStyle: "short" })}
+                </p>
+              </div>
+              <div className="text-right shrink-0">
+                <p className="font-mono font-semibold">₹{refund.amount.toLocaleString()}</p>
+                <Badge variant={refund.status === "processed" ? "secondary" : "destructive"} className="text-xs">
+                  {refund.status.toUpperCase()}
+                </Badge>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {refundable > 0 && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="refundAmount" className="text-xs uppercase tracking-wide">Amount (₹)</Label>
+              <Input
+                id="refundAmount"
+                type="number"
+                min="0.01"
+                step="0.01"
+                placeholder={String(refundable)}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className="mt-1.5 font-mono"
+                data-testid="input-refund-amount"
+              />
+            </div>
+            <div>
+              <Label htmlFor="refundReason" className="text-xs uppercase tracking-wide">Reason</Label>
+              <Input
+                id="refundReason"
+                placeholder="Optional"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                className="mt-1.5"
+                data-testid="input-refund-reason"
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <Button
+              variant="outline"
+              disabled={!isAmountValid || refundMutation.isPending}
+              onClick={() => refundMutation.mutate({ amount: parsedAmount, reason: reason || undefined })}
+              data-testid="button-partial-refund"
+            >
+              {refundMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RotateCcw className="h-4 w-4 mr-2" />}
+              Refund Amount
+            </Button>
+            <Button
+              variant="outline"
+              disabled={refundMutation.isPending}
+              onClick={() => refundMutation.mutate({ reason: reason || undefined })}
+              data-testid="button-full-refund"
+            >
+              Refund ₹{refundable.toLocaleString()}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Smartphone, Loader2 } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import type { Transaction } from "@shared/schema";
+
+interface UpiCollectStatusProps {
+  transaction: Transaction;
+  upiId: string;
+  onComplete: (transaction: Transaction) => void;
+}
+
+function secondsLeft(expiresAt: string | undefined) {
+  if (!expiresAt) return 0;
+  return Math.max(0, Math.ceil((new Date(expiresAt).getTime() - Date.now()) / 1000));
+}
+
+function formatCountdown(seconds: number) {
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+// Waiting screen for a pending UPI collect request; polls until the PSP answers
+export function UpiCollectStatus({ transaction, upiId, onComplete }: UpiCollectStatusProps) {
+  const [remaining, setRemaining] = useState(() => secondsLeft(transaction.collectExpiresAt));
+  const [total] = useState(() => Math.max(remaining, 1));
+
+  const { data: latest } = useQuery<Transaction>({
+    queryKey: ["/api/transactions", transaction.id],
+    refetchInterval: (query) => (query.state.data?.status === "pending" || !query.state.data ? 2000 : false),
+  });
+
+  useEffect(() => {
+    const timer = setInterval(() => setRemaining(secondsLeft(transaction.collectExpiresAt)), 1000);
+    return () => clearInterval(timer);
+  }, [transaction.collectExpiresAt]);
+
+  useEffect(() => {
+    if (latest && latest.status !== "pending") onComplete(latest);
+  }, [latest?.status]);
+
+  return (
+    <div className="p-6 text-center" data-testid="section-upi-collect">
+      <div className="inline-flex items-center justify-center w-12 h-12 rounded-full bg-primary/10 mb-4">
+        <Smartphone className="h-6 w-6 text-primary" />
+      </div>
+      <h2 className="text-lg font-semibold">Approve the payment in your UPI app</h2>
+      <p className="text-sm text-muted-foreground mt-1 mb-6">
+        A collect request has been sent to <span className="font-mono">{upiId}</span>.
+      </p>
+
+      <p className="text-3xl font-semibold font-mono" data-testid="text-collect-countdown">{formatCountdown(remaining)}</p>
+      <Progress value={(remaining / total) * 100} className="mt-3 mb-4" />
+
+      <p className="flex items-center justify-center gap-1.5 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Waiting for approval...
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Webhook, RotateCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { WebhookAttempt, WebhookOutboxEvent, WebhookOutboxStatus } from "@shared/schema";
+
+const statusVariants: Record<WebhookOutboxStatus, "secondary" | "outline" | "destructive"> = {
+  delivered: "secondary",
+  pending: "outline",
+  dead: "destructive",
+};
+
+function AttemptLog({ eventId }: { eventId: string }) {
+  const { data } = useQuery<WebhookOutboxEvent & { attempts: WebhookAttempt[] }>({
+    queryKey: ["/api/webhook-events", eventId],
+  });
+  if (!data) return null;
+  return (
+    <div className="ml-11 mt-2 space-y-1" data-testid={`section-webhook-attempts-${eventId}`}>
+      {data.attempts.map((attempt) => (
+        <p key={attempt.attempt_id} className="text-xs font-mono text-muted-foreground truncate">
+          #{attempt.attempt_number} {new Date(attempt.attempted_at).toLocaleTimeString()} {attempt.status_code ?? "—"} {attempt.latency_ms}ms{" "}
+          {attempt.error ?? attempt.response_snippet ?? ""}
+        </p>
+      ))}
+    </div>
+  );
+}
+
+// Recent webhook events from the outbox with their delivery attempts; dead ones can be sent again
+export function WebhookDeliveries() {
+  const { toast } = useToast();
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const { data: events = [] } = useQuery<WebhookOutboxEvent[]>({
+    queryKey: ["/api/webhook-events"],
+    // retries land in the background
+    refetchInterval: 5000,
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: async (eventId: string) => {
+      await apiRequest("POST", `/api/webhook-events/${eventId}/retry`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhook-events"] });
+      toast({ title: "Webhook Queued", description: "The event will be sent again shortly." });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Only dead webhooks can be retried.", variant: "destructive" });
+    },
+  });
+
+  const dead = events.filter((e) => e.status === "dead").length;
+
+  return (
+    <Card className="lg:col-span-2" data-testid="section-webhook-deliveries">
+      <CardHeader className="pb-4">
+        <CardTitle className="text-lg">Webhook Deliveries</CardTitle>
+        <CardDescription>{dead > 0 ? `${dead} undeliverable` : "Events sent to merchants' callback URLs"}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {events.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No webhooks yet</p>
+        ) : (
+          <div className="space-y-3">
+            {events.slice(0, 10).map((event) => (
+              <div key={event.event_id} data-testid={`row-webhook-event-${event.event_id}`}>
+                <div className="flex items-center justify-between gap-4">
+                  <div
+                    className="flex items-center gap-3 min-w-0 flex-1 cursor-pointer"
+                    onClick={() => setExpanded(expanded === event.event_id ? null : event.event_id)}
+                  >
+                    <div className="shrink-0 w-8 h-8 rounded-full flex items-center justify-center bg-muted">
+                      <Webhook className="h-4 w-4 text-muted-foreground" />
+                    </div>
+                    <div className="min-w-0 flex-1">
+                      <p className="text-sm font-medium truncate">{event.event}</p>
+                      <p className="font-mono text-xs text-muted-foreground truncate">
+                        {event.gateway_order_id} · {event.attempt_count} attempt{event.attempt_count === 1 ? "" : "s"}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    {event.status === "dead" && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={retryMutation.isPending}
+                        onClick={() => retryMutation.mutate(event.event_id)}
+                        data-testid={`button-retry-webhook-${event.event_id}`}
+                      >
+                        <RotateCw className="h-4 w-4 mr-1" />
+                        Retry
+                      </Button>
+                    )}
+                    <Badge variant={statusVariants[event.status]} className="text-xs">
+                      {event.status.toUpperCase()}
+                    </Badge>
+                  </div>
+                </div>
+                {expanded === event.event_id && <AttemptLog eventId={event.event_id} />}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,118 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Copy, Check, RotateCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { ApiKeyMode, Merchant, WebhookSecret } from "@shared/schema";
+
+type WebhookSecretView = Omit<WebhookSecret, "secret">;
+
+interface WebhookSecretsDialogProps {
+  merchant: Merchant | null;
+  // secrets returned when the merchant was just registered
+  initialSecrets?: Partial<Record<ApiKeyMode, string>>;
+  onClose: () => void;
+}
+
+function SecretValue({ mode, secret }: { mode: ApiKeyMode; secret: string }) {
+  const [copied, setCopied] = useState(false);
+  return (
+    <div className="flex items-center gap-2">
+      <Badge variant={mode === "live" ? "default" : "secondary"}>{mode}</Badge>
+      <code className="flex-1 text-xs font-mono break-all">{secret}</code>
+      <Button
+        size="icon"
+        variant="ghost"
+        onClick={() => {
+          navigator.clipboard.writeText(secret);
+          setCopied(true);
+        }}
+        data-testid={`button-copy-webhook-secret-${mode}`}
+      >
+        {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+      </Button>
+    </div>
+  );
+}
+
+// Rotate a merchant's webhook signing secrets; secret values are shown once
+export function WebhookSecretsDialog({ merchant, initialSecrets, onClose }: WebhookSecretsDialogProps) {
+  const { toast } = useToast();
+  const [rotated, setRotated] = useState<Partial<Record<ApiKeyMode, string>>>({});
+  const secretsPath = `/api/merchants/${merchant?.merchant_id}/webhook-secrets`;
+  const shown = { ...initialSecrets, ...rotated };
+
+  const { data: secrets = [] } = useQuery<WebhookSecretView[]>({
+    queryKey: [secretsPath],
+    enabled: !!merchant,
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: async (mode: ApiKeyMode) => {
+      const response = await apiRequest("POST", `${secretsPath}/rotate`, { mode });
+      return response.json() as Promise<WebhookSecretView & { secret: string }>;
+    },
+    onSuccess: (secret) => {
+      queryClient.invalidateQueries({ queryKey: [secretsPath] });
+      setRotated((current) => ({ ...current, [secret.mode]: secret.secret }));
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to rotate webhook secret.", variant: "destructive" });
+    },
+  });
+
+  const close = () => {
+    setRotated({});
+    onClose();
+  };
+
+  return (
+    <Dialog open={!!merchant} onOpenChange={(open) => !open && close()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Webhook Secrets</DialogTitle>
+          <DialogDescription>
+            Webhooks to {merchant?.name} are signed with these secrets. After a rotation the old secret keeps signing alongside the new one for a day.
+          </DialogDescription>
+        </DialogHeader>
+
+        {Object.keys(shown).length > 0 && (
+          <div className="rounded-md border bg-muted/40 p-3 space-y-2" data-testid="section-webhook-secret-values">
+            <p className="text-sm font-medium">Copy the secrets now; they won't be shown again.</p>
+            {(Object.entries(shown) as [ApiKeyMode, string][]).map(([mode, secret]) => (
+              <SecretValue key={mode} mode={mode} secret={secret} />
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          {secrets.map((secret) => (
+            <div key={secret.secret_id} className="flex items-center justify-between gap-3" data-testid={`row-webhook-secret-${secret.secret_id}`}>
+              <div className="flex items-center gap-2 min-w-0">
+                <span className="font-mono text-xs truncate">{secret.secret_id}</span>
+                <Badge variant={secret.mode === "live" ? "default" : "secondary"}>{secret.mode}</Badge>
+              </div>
+              <span className="text-xs text-muted-foreground">
+                {secret.expires_at ? `Expires ${new Date(secret.expires_at).toLocaleString()}` : "Current"}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-2">
+          <Button variant="outline" className="flex-1" disabled={rotateMutation.isPending} onClick={() => rotateMutation.mutate("test")} data-testid="button-rotate-test-secret">
+            <RotateCw className="h-4 w-4 mr-2" />
+            Rotate Test
+          </Button>
+          <Button variant="outline" className="flex-1" disabled={rotateMutation.isPending} onClick={() => rotateMutation.mutate("live")} data-testid="button-rotate-live-secret">
+            <RotateCw className="h-4 w-4 mr-2" />
+            Rotate Live
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,8 +1,11 @@
 import { useQuery } from "@tanstack/react-query";
-import { LayoutDashboard, DollarSign, TrendingUp, TrendingDown, Users, Building2, CreditCard, Smartphone, CheckCircle2, XCircle } from "lucide-react";
+import { LayoutDashboard, DollarSign, TrendingUp, TrendingDown, Users, Building2, CreditCard, Smartphone, CheckCircle2, XCircle, RotateCcw } from "lucide-react";
+import { Link } from "wouter";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import type { Transaction, BankAccount } from "@shared/schema";
+import { PendingCollects } from "@/components/pending-collects";
+import { WebhookDeliveries } from "@/components/webhook-deliveries";
+import type { Transaction, BankAccount, Refund } from "@shared/schema";
 
 export default function Admin() {
   const { data: transactions = [], isLoading: loadingTxns } = useQuery<Transaction[]>({
@@ -13,12 +16,18 @@ export default function Admin() {
     queryKey: ["/api/accounts"],
   });
 
-  const isLoading = loadingTxns || loadingAccounts;
+  const { data: refunds = [], isLoading: loadingRefunds } = useQuery<Refund[]>({
+    queryKey: ["/api/refunds"],
+  });
+
+  const isLoading = loadingTxns || loadingAccounts || loadingRefunds;
 
   const successfulTxns = transactions.filter((t) => t.status === "success");
   const failedTxns = transactions.filter((t) => t.status === "failed");
-  const totalAmount = successfulTxns.reduce((sum, t) => sum + t.amount, 0);
+  const totalAmount = successfulTxns.reduce((sum, t) => sum + (t.capturedAmount ?? t.amount), 0);
   const totalBalance = accounts.reduce((sum, a) => sum + a.balance, 0);
+  const processedRefunds = refunds.filter((r) => r.status === "processed");
+  const totalRefunded = processedRefunds.reduce((sum, r) => sum + r.amount, 0);
 
   const paymentMethodStats = {
     card: transactions.filter((t) => t.paymentMethod === "card").length,
@@ -64,6 +73,7 @@ export default function Admin() {
                   </p>
                   <p className="text-xs text-muted-foreground mt-1">
                     From {successfulTxns.length} successful transactions
+                    {totalRefunded > 0 && `, ₹${totalRefunded.toLocaleString()} refunded`}
                   </p>
                 </CardContent>
               </Card>
@@ -117,6 +127,8 @@ export default function Admin() {
             </div>
 
             <div className="grid gap-6 lg:grid-cols-2">
+              <PendingCollects transactions={transactions} />
+
               <Card>
                 <CardHeader className="pb-4">
                   <CardTitle className="text-lg">Payment Methods</CardTitle>
@@ -202,7 +214,8 @@ export default function Admin() {
                   ) : (
                     <div className="space-y-3">
                       {transactions.slice(0, 5).map((transaction) => {
-                        const isSuccess = transaction.status === "success";
+                        // an authorization holds the funds, so it reads as a success until voided
+                        const isSuccess = transaction.status === "success" || transaction.status === "authorized";
                         const formattedDate = new Date(transaction.timestamp).toLocaleString("en-IN", {
                           dateStyle: "short",
                           timeStyle: "short",
@@ -232,7 +245,7 @@ export default function Admin() {
                             <div className="text-right shrink-0">
                               <p className="font-mono font-semibold">₹{transaction.amount.toLocaleString()}</p>
                               <Badge
-                                variant={isSuccess ? "default" : "destructive"}
+                                variant={transaction.status === "success" ? "default" : isSuccess ? "secondary" : "destructive"}
                                 className="text-xs"
                               >
                                 {transaction.status.toUpperCase()}
@@ -245,6 +258,57 @@ export default function Admin() {
                   )}
                 </CardContent>
               </Card>
+
+              <Card className="lg:col-span-2">
+                <CardHeader className="pb-4">
+                  <CardTitle className="text-lg">Refunds</CardTitle>
+                  <CardDescription>
+                    {processedRefunds.length} processed, ₹{totalRefunded.toLocaleString()} returned to customers
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {refunds.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-4">
+                      No refunds yet
+                    </p>
+                  ) : (
+                    <div className="space-y-3">
+                      {refunds.slice(0, 5).map((refund) => (
+                        <div
+                          key={refund.id}
+                          className="flex items-center justify-between gap-4"
+                          data-testid={`row-refund-${refund.id}`}
+                        >
+                          <div className="flex items-center gap-3 min-w-0 flex-1">
+                            <div className="shrink-0 w-8 h-8 rounded-full flex items-center justify-center bg-muted">
+                              <RotateCcw className="h-4 w-4 text-muted-foreground" />
+                            </div>
+                            <div className="min-w-0 flex-1">
+                              <p className="font-mono text-sm truncate">{refund.id}</p>
+                              <Link href={`/receipt/${refund.transactionId}`}>
+                                <span className="text-xs text-muted-foreground hover:text-foreground cursor-pointer">
+                                  {refund.transactionId}
+                                </span>
+                              </Link>
+                            </div>
+                          </div>
+                          <div className="text-right shrink-0">
+                            <p className="font-mono font-semibold">₹{refund.amount.toLocaleString()}</p>
+                            <Badge
+                              variant={refund.status === "processed" ? "secondary" : "destructive"}
+                              className="text-xs"
+                            >
+                              {refund.status.toUpperCase()}
+                            </Badge>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <WebhookDeliveries />
             </div>
           </>
         )}
@@ -0,0 +1,247 @@
+import { useEffect, useState } from "react";
+import { useRoute } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Landmark, Lock, Loader2, AlertCircle, Clock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Transaction } from "@shared/schema";
+
+interface BankSession {
+  sessionId: string;
+  bankName: string;
+  orderId: string;
+  amount: number;
+  status: Transaction["status"];
+  expiresAt: string;
+  loggedIn: boolean;
+  accounts: { id: string; accountHolderName: string; maskedAccountNumber: string; balance: number }[];
+  returnUrl: string;
+}
+
+// header colours per bank; anything else gets the neutral look
+const bankBranding: Record<string, string> = {
+  "HDFC Bank": "bg-blue-900 text-white",
+  "ICICI Bank": "bg-orange-700 text-white",
+  "State Bank of India": "bg-sky-600 text-white",
+};
+
+function secondsLeft(expiresAt: string) {
+  return Math.max(0, Math.ceil((new Date(expiresAt).getTime() - Date.now()) / 1000));
+}
+
+function formatCountdown(seconds: number) {
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+// apiRequest errors read "<status>: <body>"; pull the gateway's message out
+function errorMessage(error: Error) {
+  try {
+    return JSON.parse(error.message.slice(error.message.indexOf(":") + 1)).message as string;
+  } catch {
+    return "Something went wrong. Please try again.";
+  }
+}
+
+// Simulated bank page a netbanking redirect lands on
+export default function BankLogin() {
+  const [, params] = useRoute("/bank/:sessionId");
+  const sessionId = params?.sessionId;
+  const [userId, setUserId] = useState("");
+  const [password, setPassword] = useState("");
+  const [selectedAccount, setSelectedAccount] = useState<string | null>(null);
+  const [remaining, setRemaining] = useState<number | null>(null);
+
+  const { data: session, isLoading } = useQuery<BankSession>({
+    queryKey: ["/api/bank-sessions", sessionId],
+    enabled: !!sessionId,
+    // picks up the timeout once the gateway has failed the payment
+    refetchInterval: (query) => (query.state.data?.status === "pending" ? 5000 : false),
+  });
+
+  useEffect(() => {
+    if (!session) return;
+    setRemaining(secondsLeft(session.expiresAt));
+    const timer = setInterval(() => setRemaining(secondsLeft(session.expiresAt)), 1000);
+    return () => clearInterval(timer);
+  }, [session?.expiresAt]);
+
+  const loginMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/bank-sessions/${sessionId}/login`, { userId, password });
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/bank-sessions", sessionId] }),
+    onError: () => setPassword(""),
+  });
+
+  const completeMutation = useMutation({
+    mutationFn: async (action: "approve" | "decline") => {
+      const response = await apiRequest("POST", `/api/bank-sessions/${sessionId}/complete`, {
+        action,
+        bankAccountId: action === "approve" ? selectedAccount : undefined,
+      });
+      return response.json() as Promise<{ transaction: Transaction; returnUrl: string }>;
+    },
+    onSuccess: ({ returnUrl }) => window.location.assign(returnUrl),
+    onError: () => queryClient.invalidateQueries({ queryKey: ["/api/bank-sessions", sessionId] }),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!session) {
+    return (
+      <div className="max-w-md mx-auto px-4 py-16 text-center" data-testid="text-bank-session-not-found">
+        <AlertCircle className="h-12 w-12 mx-auto text-muted-foreground/50 mb-3" />
+        <p className="text-muted-foreground">This netbanking session does not exist.</p>
+      </div>
+    );
+  }
+
+  const branding = bankBranding[session.bankName] ?? "bg-muted text-foreground";
+  const closed = session.status !== "pending" || remaining === 0;
+  const error = loginMutation.error ?? completeMutation.error;
+
+  return (
+    <div className="min-h-screen bg-muted/30">
+      <header className={`${branding} px-4 py-4`}>
+        <div className="max-w-md mx-auto flex items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <Landmark className="h-6 w-6" />
+            <span className="text-lg font-semibold" data-testid="text-bank-name">{session.bankName}</span>
+          </div>
+          <span className="flex items-center gap-1 text-xs opacity-80">
+            <Lock className="h-3 w-3" />
+            NetBanking
+          </span>
+        </div>
+      </header>
+
+      <div className="max-w-md mx-auto px-4 py-8">
+        <Card>
+          <CardContent className="p-6 space-y-6">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <p className="text-sm text-muted-foreground">Pay to PayFlow</p>
+                <p className="text-2xl font-semibold font-mono" data-testid="text-bank-amount">
+                  ₹{session.amount.toLocaleString()}
+                </p>
+                <p className="text-xs font-mono text-muted-foreground mt-1">{session.orderId}</p>
+              </div>
+              {!closed && remaining !== null && (
+                <span className="flex items-center gap-1 text-sm font-mono text-muted-foreground" data-testid="text-bank-countdown">
+                  <Clock className="h-4 w-4" />
+                  {formatCountdown(remaining)}
+                </span>
+              )}
+            </div>
+
+            {closed ? (
+              <div className="text-center space-y-4" data-testid="section-bank-session-closed">
+                <p className="text-muted-foreground">
+                  {session.status === "pending" || session.status === "failed"
+                    ? "Your session has ended. No money was taken from your account."
+                    : "This payment has already been completed."}
+                </p>
+                <Button className="w-full" onClick={() => window.location.assign(session.returnUrl)} data-testid="button-bank-return">
+                  Return to merchant
+                </Button>
+              </div>
+            ) : !session.loggedIn ? (
+              <form
+                className="space-y-4"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  loginMutation.mutate();
+                }}
+              >
+                <div className="space-y-2">
+                  <Label htmlFor="bank-user-id">User ID</Label>
+                  <Input id="bank-user-id" value={userId} onChange={(e) => setUserId(e.target.value)} data-testid="input-bank-user-id" />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="bank-password">Password</Label>
+                  <Input
+                    id="bank-password"
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    data-testid="input-bank-password"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Any user ID works with the password <span className="font-mono">password</span> in test mode.
+                  </p>
+                </div>
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={!userId || !password || loginMutation.isPending}
+                  data-testid="button-bank-login"
+                >
+                  {loginMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Log in"}
+                </Button>
+              </form>
+            ) : (
+              <div className="space-y-4">
+                <p className="text-sm font-medium">Pay from</p>
+                <div className="grid gap-3">
+                  {session.accounts.map((account) => (
+                    <Card
+                      key={account.id}
+                      className={`p-4 cursor-pointer transition-all ${
+                        selectedAccount === account.id ? "ring-2 ring-primary bg-primary/5" : "hover-elevate"
+                      }`}
+                      onClick={() => setSelectedAccount(account.id)}
+                      data-testid={`card-bank-account-${account.id}`}
+                    >
+                      <div className="flex items-center justify-between gap-3">
+                        <div>
+                          <p className="font-medium">{account.accountHolderName}</p>
+                          <p className="text-xs font-mono text-muted-foreground">{account.maskedAccountNumber}</p>
+                        </div>
+                        <p className="font-mono font-semibold">₹{account.balance.toLocaleString()}</p>
+                      </div>
+                    </Card>
+                  ))}
+                </div>
+                <div className="flex gap-3">
+                  <Button
+                    variant="outline"
+                    className="flex-1"
+                    disabled={completeMutation.isPending}
+                    onClick={() => completeMutation.mutate("decline")}
+                    data-testid="button-bank-decline"
+                  >
+                    Decline
+                  </Button>
+                  <Button
+                    className="flex-1"
+                    disabled={!selectedAccount || completeMutation.isPending}
+                    onClick={() => completeMutation.mutate("approve")}
+                    data-testid="button-bank-approve"
+                  >
+                    {completeMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Approve"}
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {error && !closed && (
+              <p className="flex items-center justify-center gap-1.5 text-sm text-destructive" data-testid="text-bank-error">
+                <AlertCircle className="h-4 w-4" />
+                {errorMessage(error)}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
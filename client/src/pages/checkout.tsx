@@ -12,7 +12,7 @@ import { useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { PaymentModal } from "@/components/payment-modal";
 import { useLocation } from "wouter";
-import type { Order, BankAccount, ProcessPaymentInput } from "@shared/schema";
+import type { Order, BankAccount, ProcessPaymentInput, Transaction } from "@shared/schema";
 
 const checkoutSchema = z.object({
   name: z.string().min(2, "Name must be at least 2 characters"),
@@ -69,14 +69,19 @@ export default function Checkout() {
     },
   });
 
+  const showReceipt = (transaction: Transaction) => {
+    setShowModal(false);
+    setLocation(`/receipt/${transaction.id}`);
+  };
+
   const processPaymentMutation = useMutation({
     mutationFn: async (input: ProcessPaymentInput) => {
       const response = await apiRequest("POST", "/api/process-payment", input);
-      return response.json();
+      return response.json() as Promise<Transaction>;
     },
-    onSuccess: (data) => {
-      setShowModal(false);
-      setLocation(`/receipt/${data.id}`);
+    onSuccess: (transaction) => {
+      // the modal runs an OTP challenge or waits out a UPI collect, then reports back through onFinalized
+      if (transaction.status !== "requires_action" && transaction.status !== "pending") showReceipt(transaction);
     },
     onError: () => {
       toast({
@@ -232,9 +237,8 @@ export default function Checkout() {
           order={currentOrder}
           bankAccounts={bankAccounts}
           onClose={() => setShowModal(false)}
-          onPayment={async (input) => {
-            await processPaymentMutation.mutateAsync(input);
-          }}
+          onPayment={(input) => processPaymentMutation.mutateAsync(input)}
+          onFinalized={showReceipt}
           isProcessing={processPaymentMutation.isPending}
         />
       )}
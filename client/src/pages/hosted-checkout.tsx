@@ -0,0 +1,247 @@
+import { useState } from "react";
+import { useSearch } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { CreditCard, Shield, XCircle, Clock, CheckCircle2, ArrowLeft } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { PaymentModal } from "@/components/payment-modal";
+import { paisaToRupees } from "@shared/money";
+import type { BankAccount, HostedCheckoutOrder, Order, ProcessPaymentInput, Transaction } from "@shared/schema";
+
+// Send the customer back to the merchant with the outcome; links without the token don't know where that is
+function returnToMerchant(order: HostedCheckoutOrder, status: string) {
+  if (!order.return_url) return false;
+  const url = new URL(order.return_url);
+  url.searchParams.set("gw_order", order.gateway_order_id);
+  url.searchParams.set("status", status);
+  window.location.assign(url.toString());
+  return true;
+}
+
+const closedOrderMessages: Record<string, { title: string; description: string }> = {
+  COMPLETED: { title: "Order Already Paid", description: "This order has already been paid." },
+  EXPIRED: { title: "Order Expired", description: "This order has expired. Please start again from the merchant's site." },
+  CANCELLED: { title: "Order Cancelled", description: "The merchant has cancelled this order." },
+  ATTEMPTED: { title: "Payment In Progress", description: "A payment for this order is already being processed." },
+  AUTHORIZED: { title: "Payment Authorized", description: "Your payment has been authorized and is awaiting confirmation by the merchant." },
+};
+
+export default function HostedCheckout() {
+  const params = new URLSearchParams(useSearch());
+  const gatewayOrderId = params.get("gw_order");
+  const token = params.get("token");
+  const [showModal, setShowModal] = useState(false);
+  const { toast } = useToast();
+
+  const query = token ? `?token=${encodeURIComponent(token)}` : "";
+  const { data: order, isLoading, error, refetch } = useQuery<HostedCheckoutOrder>({
+    queryKey: [`/api/v2/checkout/${gatewayOrderId}${query}`],
+    enabled: !!gatewayOrderId,
+  });
+
+  const { data: bankAccounts = [] } = useQuery<BankAccount[]>({
+    queryKey: ["/api/accounts"],
+  });
+
+  const finishPayment = (transaction: Transaction) => {
+    setShowModal(false);
+    if ((transaction.status === "success" || transaction.status === "authorized") && order) {
+      // stay on the page's paid state when there is no merchant to return to
+      if (!returnToMerchant(order, transaction.status === "success" ? "COMPLETED" : "AUTHORIZED")) refetch();
+      return;
+    }
+    // a failed order can be attempted again; a fresh modal gets a fresh idempotency key
+    toast({
+      title: "Payment Failed",
+      description: transaction.failureReason ?? "Your payment could not be completed. Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  const processPaymentMutation = useMutation({
+    mutationFn: async (input: ProcessPaymentInput) => {
+      const response = await apiRequest("POST", "/api/process-payment", input);
+      return response.json() as Promise<Transaction>;
+    },
+    onSuccess: (transaction) => {
+      // the modal runs an OTP challenge or waits out a UPI collect, then reports back through onFinalized
+      if (transaction.status !== "requires_action" && transaction.status !== "pending") finishPayment(transaction);
+    },
+    onError: () => {
+      setShowModal(false);
+      toast({
+        title: "Payment Failed",
+        description: "An error occurred while processing your payment.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/30 py-12 px-4">
+        <div className="max-w-md mx-auto">
+          <Card className="animate-pulse">
+            <CardContent className="p-8 space-y-4">
+              <div className="h-8 bg-muted rounded w-1/2 mx-auto" />
+              {[1, 2, 3, 4].map((i) => (
+                <div key={i} className="flex justify-between">
+                  <div className="h-4 bg-muted rounded w-1/4" />
+                  <div className="h-4 bg-muted rounded w-1/3" />
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  if (!gatewayOrderId || error || !order) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/30 py-12 px-4">
+        <div className="max-w-md mx-auto">
+          <Card>
+            <CardContent className="p-8 text-center">
+              <XCircle className="h-16 w-16 mx-auto text-muted-foreground/50 mb-4" />
+              <h2 className="text-xl font-semibold mb-2">Order Not Found</h2>
+              <p className="text-muted-foreground">
+                This checkout link is invalid. Please start again from the merchant's site.
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  const amount = paisaToRupees(order.amount_in_paisa);
+  const displayAmount = order.display_amount ?? `₹${amount.toLocaleString()}`;
+
+  if (!order.payable) {
+    const closed = closedOrderMessages[order.status] ?? closedOrderMessages.EXPIRED;
+    const Icon = order.status === "COMPLETED" || order.status === "AUTHORIZED" ? CheckCircle2 : order.status === "EXPIRED" ? Clock : XCircle;
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/30 py-12 px-4">
+        <div className="max-w-md mx-auto">
+          <Card>
+            <CardContent className="p-8 text-center">
+              <Icon className="h-16 w-16 mx-auto text-muted-foreground/50 mb-4" />
+              <h2 className="text-xl font-semibold mb-2" data-testid="text-order-closed">{closed.title}</h2>
+              <p className="text-muted-foreground mb-6">{closed.description}</p>
+              {order.return_url && (
+                <Button onClick={() => returnToMerchant(order, order.status)} data-testid="button-return-merchant">
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  Return to Merchant
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  // PaymentModal works with the v1 order shape; charge the gateway order id
+  const modalOrder: Order = {
+    id: order.gateway_order_id,
+    name: order.customer?.name ?? "",
+    email: order.customer?.email ?? "",
+    phone: order.customer?.phone ?? "",
+    amount,
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/30 py-12 px-4">
+      <div className="max-w-md mx-auto">
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center justify-center w-16 h-16 rounded-xl bg-primary/10 mb-4">
+            <CreditCard className="h-8 w-8 text-primary" />
+          </div>
+          <h1 className="text-2xl font-semibold">PayFlow</h1>
+          <p className="text-muted-foreground mt-1">Secure Checkout</p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between gap-2">
+              <CardTitle className="text-xl" data-testid="text-merchant-id">{order.merchant_id}</CardTitle>
+              {order.test_mode && <Badge variant="secondary">Test Mode</Badge>}
+            </div>
+            <CardDescription className="font-mono" data-testid="text-merchant-order-id">
+              Order {order.order_id}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="text-center py-4">
+              <p className="text-sm text-muted-foreground uppercase tracking-wide">Amount</p>
+              <p className="text-3xl font-semibold font-mono mt-1" data-testid="text-display-amount">{displayAmount}</p>
+            </div>
+
+            <div className="space-y-2 text-sm border-t pt-4">
+              {order.plan && (
+                <div className="flex justify-between gap-4">
+                  <span className="text-muted-foreground">Plan</span>
+                  <span className="font-medium" data-testid="text-plan">{order.plan.name ?? order.plan.plan_id}</span>
+                </div>
+              )}
+              {order.customer?.name && (
+                <div className="flex justify-between gap-4">
+                  <span className="text-muted-foreground">Name</span>
+                  <span className="font-medium" data-testid="text-customer-name">{order.customer.name}</span>
+                </div>
+              )}
+              {order.customer?.email && (
+                <div className="flex justify-between gap-4">
+                  <span className="text-muted-foreground">Email</span>
+                  <span className="font-medium truncate" data-testid="text-customer-email">{order.customer.email}</span>
+                </div>
+              )}
+              {order.customer?.phone && (
+                <div className="flex justify-between gap-4">
+                  <span className="text-muted-foreground">Phone</span>
+                  <span className="font-medium" data-testid="text-customer-phone">{order.customer.phone}</span>
+                </div>
+              )}
+            </div>
+
+            <Button className="w-full" size="lg" onClick={() => setShowModal(true)} data-testid="button-pay-now">
+              Pay {displayAmount}
+            </Button>
+            {order.return_url && (
+              <button
+                onClick={() => returnToMerchant(order, order.status)}
+                className="w-full text-sm text-muted-foreground hover:text-foreground transition-colors"
+                data-testid="button-cancel-checkout"
+              >
+                Cancel and return to merchant
+              </button>
+            )}
+
+            <div className="flex items-center justify-center gap-1.5 text-xs text-muted-foreground pt-4 border-t">
+              <Shield className="h-3.5 w-3.5" />
+              <span>Payments are processed by PayFlow</span>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {showModal && (
+        <PaymentModal
+          order={modalOrder}
+          bankAccounts={bankAccounts}
+          onClose={() => setShowModal(false)}
+          onPayment={(input) => processPaymentMutation.mutateAsync(input)}
+          onFinalized={finishPayment}
+          savedCards={order.saved_cards}
+          canSaveCard={!!order.customer?.customer_id}
+          paymentMethods={order.payment_methods}
+          isProcessing={processPaymentMutation.isPending}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,496 @@
+import { useForm, type UseFormReturn } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useState } from "react";
+import { Store, Plus, Pencil, Trash2, Link2, KeyRound, Webhook, ShieldCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { ApiKeysDialog } from "@/components/api-keys-dialog";
+import { WebhookSecretsDialog } from "@/components/webhook-secrets-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, getAdminToken, queryClient, setAdminToken } from "@/lib/queryClient";
+import type { ApiKeyMode, Merchant, PaymentMethod } from "@shared/schema";
+
+const paymentMethods = ["card", "upi", "netbanking"] as const satisfies readonly PaymentMethod[];
+
+// URL prefixes are edited one per line
+const merchantFormSchema = z.object({
+  merchant_id: z.string().regex(/^[a-z0-9_]{3,64}$/, "3-64 lowercase letters, digits or underscores"),
+  name: z.string().min(1, "Name is required"),
+  return_url_prefixes: z.string().min(1, "Register at least one return URL"),
+  callback_url_prefixes: z.string().min(1, "Register at least one callback URL"),
+  payment_methods: z.array(z.enum(paymentMethods)).min(1, "Enable at least one payment method"),
+  test_mode: z.boolean(),
+  live_mode: z.boolean(),
+});
+
+type MerchantFormData = z.infer<typeof merchantFormSchema>;
+
+const methodLabels: Record<PaymentMethod, string> = {
+  card: "Card",
+  upi: "UPI",
+  netbanking: "Netbanking",
+};
+
+const emptyForm: MerchantFormData = {
+  merchant_id: "",
+  name: "",
+  return_url_prefixes: "",
+  callback_url_prefixes: "",
+  payment_methods: [...paymentMethods],
+  test_mode: true,
+  live_mode: false,
+};
+
+function lines(value: string) {
+  return value.split("\n").map((line) => line.trim()).filter(Boolean);
+}
+
+function toRequest({ merchant_id, ...data }: MerchantFormData) {
+  return {
+    ...data,
+    return_url_prefixes: lines(data.return_url_prefixes),
+    callback_url_prefixes: lines(data.callback_url_prefixes),
+  };
+}
+
+// apiRequest errors read "<status>: <body>"; pull the gateway's message out
+function errorMessage(error: Error, fallback: string) {
+  try {
+    const body = JSON.parse(error.message.slice(error.message.indexOf(":") + 1));
+    const fieldErrors = Object.values(body.details?.fieldErrors ?? {}).flat();
+    return (body.message as string | undefined) ?? (fieldErrors[0] as string | undefined) ?? fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function MerchantFields({ form, editing }: { form: UseFormReturn<MerchantFormData>; editing?: boolean }) {
+  const prefix = editing ? "input-edit" : "input";
+  return (
+    <>
+      <div className="grid gap-4 sm:grid-cols-2">
+        <FormField
+          control={form.control}
+          name="merchant_id"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="text-xs uppercase tracking-wide">Merchant ID</FormLabel>
+              <FormControl>
+                <Input placeholder="mer_acme" className="font-mono" disabled={editing} {...field} data-testid={`${prefix}-merchant-id`} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="text-xs uppercase tracking-wide">Name</FormLabel>
+              <FormControl>
+                <Input placeholder="Acme Store" {...field} data-testid={`${prefix}-merchant-name`} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+
+      <FormField
+        control={form.control}
+        name="return_url_prefixes"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel className="text-xs uppercase tracking-wide">Return URL Prefixes</FormLabel>
+            <FormControl>
+              <Textarea placeholder="https://shop.example.com/checkout" className="font-mono text-sm" rows={2} {...field} data-testid={`${prefix}-return-urls`} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <FormField
+        control={form.control}
+        name="callback_url_prefixes"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel className="text-xs uppercase tracking-wide">Callback URL Prefixes</FormLabel>
+            <FormControl>
+              <Textarea placeholder="https://api.example.com/webhooks" className="font-mono text-sm" rows={2} {...field} data-testid={`${prefix}-callback-urls`} />
+            </FormControl>
+            <p className="text-xs text-muted-foreground">One per line. HTTPS, or http for localhost.</p>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <FormField
+        control={form.control}
+        name="payment_methods"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel className="text-xs uppercase tracking-wide">Payment Methods</FormLabel>
+            <div className="flex gap-6">
+              {paymentMethods.map((method) => (
+                <label key={method} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={field.value.includes(method)}
+                    onCheckedChange={(checked) =>
+                      field.onChange(checked ? [...field.value, method] : field.value.filter((m) => m !== method))
+                    }
+                    data-testid={`${prefix}-method-${method}`}
+                  />
+                  {methodLabels[method]}
+                </label>
+              ))}
+            </div>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <div className="flex gap-6">
+        {(["test_mode", "live_mode"] as const).map((mode) => (
+          <FormField
+            key={mode}
+            control={form.control}
+            name={mode}
+            render={({ field }) => (
+              <FormItem className="flex items-center gap-2 space-y-0">
+                <FormControl>
+                  <Switch checked={field.value} onCheckedChange={field.onChange} data-testid={`${prefix}-${mode}`} />
+                </FormControl>
+                <FormLabel className="text-sm font-normal">{mode === "test_mode" ? "Test mode" : "Live mode"}</FormLabel>
+              </FormItem>
+            )}
+          />
+        ))}
+      </div>
+    </>
+  );
+}
+
+export default function Merchants() {
+  const { toast } = useToast();
+  const [editingMerchant, setEditingMerchant] = useState<Merchant | null>(null);
+  const [deletingMerchant, setDeletingMerchant] = useState<Merchant | null>(null);
+  const [keysMerchant, setKeysMerchant] = useState<Merchant | null>(null);
+  const [secretsMerchant, setSecretsMerchant] = useState<Merchant | null>(null);
+  const [newSecrets, setNewSecrets] = useState<Record<ApiKeyMode, string> | undefined>();
+  const [adminToken, setAdminTokenInput] = useState(getAdminToken);
+
+  const form = useForm<MerchantFormData>({
+    resolver: zodResolver(merchantFormSchema),
+    defaultValues: emptyForm,
+  });
+
+  const editForm = useForm<MerchantFormData>({
+    resolver: zodResolver(merchantFormSchema),
+    defaultValues: emptyForm,
+  });
+
+  const { data: merchants = [], isLoading } = useQuery<Merchant[]>({
+    queryKey: ["/api/merchants"],
+  });
+
+  const createMerchantMutation = useMutation({
+    mutationFn: async (data: MerchantFormData) => {
+      const response = await apiRequest("POST", "/api/merchants", { merchant_id: data.merchant_id, ...toRequest(data) });
+      return response.json() as Promise<Merchant & { webhook_secrets: Record<ApiKeyMode, string> }>;
+    },
+    onSuccess: ({ webhook_secrets, ...merchant }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/merchants"] });
+      form.reset(emptyForm);
+      // the only chance to see the initial secrets
+      setNewSecrets(webhook_secrets);
+      setSecretsMerchant(merchant);
+      toast({
+        title: "Merchant Registered",
+        description: "The merchant can now create orders.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to register merchant. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateMerchantMutation = useMutation({
+    mutationFn: async (data: MerchantFormData) => {
+      const response = await apiRequest("PUT", `/api/merchants/${data.merchant_id}`, toRequest(data));
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/merchants"] });
+      setEditingMerchant(null);
+      toast({
+        title: "Merchant Updated",
+        description: "New orders will use the updated registration.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to update merchant. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMerchantMutation = useMutation({
+    mutationFn: async (merchantId: string) => {
+      await apiRequest("DELETE", `/api/merchants/${merchantId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/merchants"] });
+      setDeletingMerchant(null);
+      toast({
+        title: "Merchant Deleted",
+        description: "The merchant can no longer create orders.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to delete merchant. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const saveAdminToken = () => {
+    setAdminToken(adminToken.trim());
+    queryClient.invalidateQueries();
+    toast({
+      title: "Admin Token Saved",
+      description: "Registry changes from this browser now send it.",
+    });
+  };
+
+  const openEdit = (merchant: Merchant) => {
+    editForm.reset({
+      merchant_id: merchant.merchant_id,
+      name: merchant.name,
+      return_url_prefixes: merchant.return_url_prefixes.join("\n"),
+      callback_url_prefixes: merchant.callback_url_prefixes.join("\n"),
+      payment_methods: merchant.payment_methods,
+      test_mode: merchant.test_mode,
+      live_mode: merchant.live_mode,
+    });
+    setEditingMerchant(merchant);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/30 py-12 px-4">
+      <div className="max-w-2xl mx-auto">
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center justify-center w-16 h-16 rounded-xl bg-primary/10 mb-4">
+            <Store className="h-8 w-8 text-primary" />
+          </div>
+          <h1 className="text-2xl font-semibold">Merchants</h1>
+          <p className="text-muted-foreground mt-1">
+            Register merchants and the URLs their orders may use
+          </p>
+        </div>
+
+        <Card className="mb-8">
+          <CardHeader>
+            <CardTitle className="text-xl flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5 text-muted-foreground" />
+              Admin Token
+            </CardTitle>
+            <CardDescription>
+              Registering, editing and deleting merchants and managing their keys and secrets need the gateway's admin token
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form
+              onSubmit={(event) => {
+                event.preventDefault();
+                saveAdminToken();
+              }}
+              className="flex gap-2"
+            >
+              <Input
+                type="password"
+                value={adminToken}
+                onChange={(event) => setAdminTokenInput(event.target.value)}
+                placeholder="ADMIN_TOKEN"
+                autoComplete="off"
+                data-testid="input-admin-token"
+              />
+              <Button type="submit" variant="outline" data-testid="button-save-admin-token">
+                Save
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card className="mb-8">
+          <CardHeader>
+            <CardTitle className="text-xl">New Merchant</CardTitle>
+            <CardDescription>
+              Orders are only accepted from registered merchants
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit((data) => createMerchantMutation.mutate(data))} className="space-y-4">
+                <MerchantFields form={form} />
+                <Button
+                  type="submit"
+                  className="w-full"
+                  size="lg"
+                  disabled={createMerchantMutation.isPending}
+                  data-testid="button-create-merchant"
+                >
+                  {createMerchantMutation.isPending ? (
+                    "Registering..."
+                  ) : (
+                    <>
+                      <Plus className="h-4 w-4 mr-2" />
+                      Register Merchant
+                    </>
+                  )}
+                </Button>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+
+        <div>
+          <h2 className="text-lg font-medium mb-4 flex items-center gap-2">
+            <Store className="h-5 w-5 text-muted-foreground" />
+            Registered Merchants
+            {merchants.length > 0 && (
+              <span className="text-sm text-muted-foreground font-normal">
+                ({merchants.length})
+              </span>
+            )}
+          </h2>
+
+          {isLoading ? (
+            <p className="text-center text-muted-foreground py-8">Loading merchants...</p>
+          ) : merchants.length === 0 ? (
+            <Card className="p-8 text-center">
+              <p className="text-muted-foreground">No merchants registered</p>
+            </Card>
+          ) : (
+            <div className="grid gap-4">
+              {merchants.map((merchant) => (
+                <Card key={merchant.merchant_id} className="p-4" data-testid={`card-merchant-${merchant.merchant_id}`}>
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="min-w-0 flex-1 space-y-2">
+                      <div>
+                        <p className="font-medium">{merchant.name}</p>
+                        <p className="text-xs font-mono text-muted-foreground">{merchant.merchant_id}</p>
+                      </div>
+                      <div className="flex flex-wrap gap-1.5">
+                        {merchant.test_mode && <Badge variant="secondary">Test</Badge>}
+                        {merchant.live_mode && <Badge>Live</Badge>}
+                        {merchant.payment_methods.map((method) => (
+                          <Badge key={method} variant="outline">{methodLabels[method]}</Badge>
+                        ))}
+                      </div>
+                      <div className="space-y-0.5">
+                        {[...merchant.return_url_prefixes, ...merchant.callback_url_prefixes].map((url, index) => (
+                          <p key={index} className="flex items-center gap-1.5 text-xs font-mono text-muted-foreground truncate">
+                            <Link2 className="h-3 w-3 shrink-0" />
+                            {url}
+                          </p>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="flex gap-1 shrink-0">
+                      <Button size="icon" variant="ghost" onClick={() => setKeysMerchant(merchant)} data-testid={`button-api-keys-${merchant.merchant_id}`}>
+                        <KeyRound className="h-4 w-4" />
+                      </Button>
+                      <Button size="icon" variant="ghost" onClick={() => setSecretsMerchant(merchant)} data-testid={`button-webhook-secrets-${merchant.merchant_id}`}>
+                        <Webhook className="h-4 w-4" />
+                      </Button>
+                      <Button size="icon" variant="ghost" onClick={() => openEdit(merchant)} data-testid={`button-edit-merchant-${merchant.merchant_id}`}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button size="icon" variant="ghost" onClick={() => setDeletingMerchant(merchant)} data-testid={`button-delete-merchant-${merchant.merchant_id}`}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </Card>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <Dialog open={!!editingMerchant} onOpenChange={(open) => !open && setEditingMerchant(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit Merchant</DialogTitle>
+            <DialogDescription>
+              Changes apply to new orders; existing orders keep their URLs.
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...editForm}>
+            <form onSubmit={editForm.handleSubmit((data) => updateMerchantMutation.mutate(data))} className="space-y-4">
+              <MerchantFields form={editForm} editing />
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setEditingMerchant(null)} data-testid="button-cancel-edit">
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={updateMerchantMutation.isPending} data-testid="button-save-edit">
+                  {updateMerchantMutation.isPending ? "Saving..." : "Save Changes"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <ApiKeysDialog merchant={keysMerchant} onClose={() => setKeysMerchant(null)} />
+      <WebhookSecretsDialog
+        merchant={secretsMerchant}
+        initialSecrets={newSecrets}
+        onClose={() => {
+          setSecretsMerchant(null);
+          setNewSecrets(undefined);
+        }}
+      />
+
+      <AlertDialog open={!!deletingMerchant} onOpenChange={(open) => !open && setDeletingMerchant(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Merchant?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deletingMerchant?.name} will no longer be able to create orders. Existing orders can still be paid.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-delete">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deletingMerchant && deleteMerchantMutation.mutate(deletingMerchant.merchant_id)}
+              data-testid="button-confirm-delete"
+            >
+              {deleteMerchantMutation.isPending ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -5,7 +5,9 @@ import { useState, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { RefundsSection } from "@/components/refunds-section";
 import type { Transaction } from "@shared/schema";
+import { cardExpiry, cardLabel } from "@shared/cards";
 
 export default function Receipt() {
   const [, params] = useRoute("/receipt/:id");
@@ -41,6 +43,7 @@ PAYMENT DETAILS
 Amount: Rs. ${transaction.amount.toLocaleString()}
 Payment Method: ${transaction.paymentMethod.toUpperCase()}
 ${transaction.bankName ? `Bank: ${transaction.bankName}` : ""}
+${transaction.cardLast4 ? `Card: ${cardLabel(transaction)} (expires ${cardExpiry(transaction)})` : ""}
 Status: ${transaction.status.toUpperCase()}
 ${transaction.failureReason ? `Reason: ${transaction.failureReason}` : ""}
 
@@ -109,7 +112,16 @@ No real money was transferred.
     );
   }
 
-  const isSuccess = transaction.status === "success";
+  // an authorization holds the funds, so it reads as a success until voided
+  const isSuccess = transaction.status === "success" || transaction.status === "authorized";
+  const statusHeadings: Record<Transaction["status"], string> = {
+    success: "Payment Successful",
+    authorized: "Payment Authorized",
+    voided: "Payment Voided",
+    failed: "Payment Failed",
+    requires_action: "Authentication Pending",
+    pending: "Payment Pending",
+  };
   const formattedDate = new Date(transaction.timestamp).toLocaleString("en-IN", {
     dateStyle: "medium",
     timeStyle: "short",
@@ -139,7 +151,7 @@ No real money was transferred.
                 )}
               </div>
               <h1 className="text-2xl font-semibold" data-testid="text-payment-status">
-                {isSuccess ? "Payment Successful" : "Payment Failed"}
+                {statusHeadings[transaction.status]}
               </h1>
               {!isSuccess && transaction.failureReason && (
                 <p className="text-muted-foreground mt-2" data-testid="text-failure-reason">
@@ -186,6 +198,23 @@ No real money was transferred.
                   </div>
                 </div>
 
+                {transaction.capturedAmount !== undefined && transaction.capturedAmount !== transaction.amount && (
+                  <div className="flex items-center justify-between py-3 border-b border-border/50">
+                    <span className="text-muted-foreground">Captured</span>
+                    <span className="font-mono" data-testid="text-captured-amount">₹{transaction.capturedAmount.toLocaleString()}</span>
+                  </div>
+                )}
+
+                {transaction.cardLast4 && (
+                  <div className="flex items-center justify-between py-3 border-b border-border/50">
+                    <span className="text-muted-foreground">Card</span>
+                    <div className="text-right">
+                      <span className="font-mono" data-testid="text-card">{cardLabel(transaction)}</span>
+                      <p className="text-xs text-muted-foreground" data-testid="text-card-expiry">Expires {cardExpiry(transaction)}</p>
+                    </div>
+                  </div>
+                )}
+
                 {transaction.bankName && (
                   <div className="flex items-center justify-between py-3 border-b border-border/50">
                     <span className="text-muted-foreground">Bank</span>
@@ -196,10 +225,10 @@ No real money was transferred.
                 <div className="flex items-center justify-between py-3 border-b border-border/50">
                   <span className="text-muted-foreground">Status</span>
                   <Badge
-                    variant={isSuccess ? "default" : "destructive"}
+                    variant={transaction.status === "success" ? "default" : isSuccess ? "secondary" : "destructive"}
                     data-testid="badge-status"
                   >
-                    {isSuccess ? "SUCCESS" : "FAILED"}
+                    {transaction.status.toUpperCase()}
                   </Badge>
                 </div>
 
@@ -210,6 +239,8 @@ No real money was transferred.
               </div>
             </div>
 
+            <RefundsSection transaction={transaction} />
+
             <div className="flex flex-col gap-3">
               <Button 
                 variant="outline" 
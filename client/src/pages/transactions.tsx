@@ -5,6 +5,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import type { Transaction } from "@shared/schema";
+import { cardLabel } from "@shared/cards";
 
 export default function Transactions() {
   const { data: transactions = [], isLoading } = useQuery<Transaction[]>({
@@ -81,7 +82,8 @@ export default function Transactions() {
                 <div className="divide-y">
                   {transactions.map((transaction) => {
                     const PaymentIcon = paymentMethodIcons[transaction.paymentMethod];
-                    const isSuccess = transaction.status === "success";
+                    // an authorization holds the funds, so it reads as a success until voided
+                    const isSuccess = transaction.status === "success" || transaction.status === "authorized";
 
                     return (
                       <div
@@ -117,6 +119,12 @@ export default function Transactions() {
                                   <span>{transaction.bankName}</span>
                                 </>
                               )}
+                              {transaction.cardLast4 && (
+                                <>
+                                  <span className="mx-1.5">·</span>
+                                  <span className="font-mono">{cardLabel(transaction)}</span>
+                                </>
+                              )}
                             </div>
                           </div>
                         </div>
@@ -126,11 +134,11 @@ export default function Transactions() {
                               ₹{transaction.amount.toLocaleString()}
                             </p>
                             <Badge
-                              variant={isSuccess ? "default" : "destructive"}
+                              variant={transaction.status === "success" ? "default" : isSuccess ? "secondary" : "destructive"}
                               className="text-xs"
                               data-testid={`badge-status-${transaction.id}`}
                             >
-                              {isSuccess ? "SUCCESS" : "FAILED"}
+                              {transaction.status.toUpperCase()}
                             </Badge>
                           </div>
                           <Link href={`/receipt/${transaction.id}`}>
@@ -0,0 +1,50 @@
+CREATE TABLE "bank_accounts" (
+	"id" text PRIMARY KEY NOT NULL,
+	"account_holder_name" text NOT NULL,
+	"account_number" text NOT NULL,
+	"bank_name" text NOT NULL,
+	"balance" double precision NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "orders" (
+	"id" text PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"email" text NOT NULL,
+	"phone" text NOT NULL,
+	"amount" double precision NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "transactions" (
+	"id" text PRIMARY KEY NOT NULL,
+	"order_id" text NOT NULL,
+	"amount" double precision NOT NULL,
+	"payment_method" text NOT NULL,
+	"bank_account_id" text,
+	"bank_name" text,
+	"status" text NOT NULL,
+	"failure_reason" text,
+	"timestamp" text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "v2_orders" (
+	"gateway_order_id" text PRIMARY KEY NOT NULL,
+	"merchant_id" text NOT NULL,
+	"merchant_order_id" text NOT NULL,
+	"one_time_order_token" text NOT NULL,
+	"amount_in_paisa" integer NOT NULL,
+	"currency" text NOT NULL,
+	"display_amount" text,
+	"customer" jsonb,
+	"plan" jsonb,
+	"return_url" text NOT NULL,
+	"callback_url" text NOT NULL,
+	"test_mode" boolean NOT NULL,
+	"metadata" jsonb,
+	"idempotency_key" text,
+	"status" text NOT NULL,
+	"created_at" text NOT NULL,
+	"paid_at" text,
+	"transaction_id" text
+);
+--> statement-breakpoint
+CREATE INDEX "v2_orders_merchant_order_idx" ON "v2_orders" USING btree ("merchant_id","merchant_order_id");
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE "v2_orders" ADD COLUMN "updated_at" text;
+--> statement-breakpoint
+UPDATE "v2_orders" SET "updated_at" = "created_at";
+--> statement-breakpoint
+ALTER TABLE "v2_orders" ALTER COLUMN "updated_at" SET NOT NULL;
@@ -0,0 +1,20 @@
+CREATE TABLE "ledger_entries" (
+	"id" text PRIMARY KEY NOT NULL,
+	"journal_id" text NOT NULL,
+	"account_id" text NOT NULL,
+	"direction" text NOT NULL,
+	"amount" double precision NOT NULL,
+	"kind" text NOT NULL,
+	"reference" text,
+	"description" text,
+	"created_at" text NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "ledger_entries_account_idx" ON "ledger_entries" USING btree ("account_id");--> statement-breakpoint
+INSERT INTO "ledger_entries" ("id", "journal_id", "account_id", "direction", "amount", "kind", "description", "created_at")
+SELECT gen_random_uuid()::text, 'jrn_opening_' || "id", "id", 'credit', "balance", 'opening', 'Opening balance', to_char(now() AT TIME ZONE 'utc', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"')
+FROM "bank_accounts" WHERE "balance" > 0;
+--> statement-breakpoint
+INSERT INTO "ledger_entries" ("id", "journal_id", "account_id", "direction", "amount", "kind", "description", "created_at")
+SELECT gen_random_uuid()::text, 'jrn_opening_' || "id", 'gateway:opening', 'debit', "balance", 'opening', 'Opening balance', to_char(now() AT TIME ZONE 'utc', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"')
+FROM "bank_accounts" WHERE "balance" > 0;
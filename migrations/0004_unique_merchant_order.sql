@@ -0,0 +1,2 @@
+DROP INDEX "v2_orders_merchant_order_idx";--> statement-breakpoint
+CREATE UNIQUE INDEX "v2_orders_merchant_order_idx" ON "v2_orders" USING btree ("merchant_id","merchant_order_id");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "v2_orders" ADD COLUMN "expires_at" text;
\ No newline at end of file
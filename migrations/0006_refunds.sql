@@ -0,0 +1,12 @@
+CREATE TABLE "refunds" (
+	"id" text PRIMARY KEY NOT NULL,
+	"transaction_id" text NOT NULL,
+	"order_id" text NOT NULL,
+	"amount" double precision NOT NULL,
+	"status" text NOT NULL,
+	"reason" text,
+	"failure_reason" text,
+	"created_at" text NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "refunds_transaction_idx" ON "refunds" USING btree ("transaction_id");
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE "transactions" ADD COLUMN "captured_amount" double precision;--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "captured_at" text;--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "voided_at" text;--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "authorization_expires_at" text;--> statement-breakpoint
+ALTER TABLE "v2_orders" ADD COLUMN "payment_capture" text DEFAULT 'automatic' NOT NULL;
\ No newline at end of file
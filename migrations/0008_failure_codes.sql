@@ -0,0 +1 @@
+ALTER TABLE "transactions" ADD COLUMN "failure_code" text;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "transactions" ADD COLUMN "card_network" text;--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "card_last4" text;--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "card_expiry_month" integer;--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "card_expiry_year" integer;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "transactions" ADD COLUMN "challenge_id" text;--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "challenge_attempts" integer;--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "challenge_expires_at" text;
\ No newline at end of file
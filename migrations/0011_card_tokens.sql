@@ -0,0 +1,15 @@
+CREATE TABLE "card_tokens" (
+	"token_id" text PRIMARY KEY NOT NULL,
+	"merchant_id" text NOT NULL,
+	"customer_id" text NOT NULL,
+	"network" text NOT NULL,
+	"last4" text NOT NULL,
+	"expiry_month" integer NOT NULL,
+	"expiry_year" integer NOT NULL,
+	"card_holder_name" text NOT NULL,
+	"fingerprint" text NOT NULL,
+	"created_at" text NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "card_token_id" text;--> statement-breakpoint
+CREATE UNIQUE INDEX "card_tokens_customer_fingerprint_idx" ON "card_tokens" USING btree ("merchant_id","customer_id","fingerprint");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "transactions" ADD COLUMN "collect_expires_at" text;
\ No newline at end of file
@@ -0,0 +1,5 @@
+CREATE TABLE "vpas" (
+	"vpa" text PRIMARY KEY NOT NULL,
+	"bank_account_id" text NOT NULL,
+	"created_at" text NOT NULL
+);
@@ -0,0 +1,4 @@
+ALTER TABLE "transactions" ADD COLUMN "bank_session_id" text;--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "bank_session_expires_at" text;--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "bank_login_at" text;--> statement-breakpoint
+CREATE UNIQUE INDEX "transactions_bank_session_idx" ON "transactions" USING btree ("bank_session_id");
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "merchants" (
+	"merchant_id" text PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"return_url_prefixes" jsonb NOT NULL,
+	"callback_url_prefixes" jsonb NOT NULL,
+	"payment_methods" jsonb NOT NULL,
+	"test_mode" boolean NOT NULL,
+	"live_mode" boolean NOT NULL,
+	"created_at" text NOT NULL,
+	"updated_at" text NOT NULL
+);
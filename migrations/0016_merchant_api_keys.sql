@@ -0,0 +1,10 @@
+CREATE TABLE "api_keys" (
+	"key_id" text PRIMARY KEY NOT NULL,
+	"merchant_id" text NOT NULL,
+	"mode" text NOT NULL,
+	"secret_hash" text NOT NULL,
+	"created_at" text NOT NULL,
+	"revoked_at" text
+);
+--> statement-breakpoint
+CREATE INDEX "api_keys_merchant_idx" ON "api_keys" USING btree ("merchant_id");
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE "webhook_secrets" (
+	"secret_id" text PRIMARY KEY NOT NULL,
+	"merchant_id" text NOT NULL,
+	"mode" text NOT NULL,
+	"secret" text NOT NULL,
+	"created_at" text NOT NULL,
+	"expires_at" text
+);
+--> statement-breakpoint
+CREATE INDEX "webhook_secrets_merchant_mode_idx" ON "webhook_secrets" USING btree ("merchant_id","mode");
\ No newline at end of file
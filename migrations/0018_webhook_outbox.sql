@@ -0,0 +1,31 @@
+CREATE TABLE "webhook_attempts" (
+	"attempt_id" text PRIMARY KEY NOT NULL,
+	"event_id" text NOT NULL,
+	"attempt_number" integer NOT NULL,
+	"attempted_at" text NOT NULL,
+	"status_code" integer,
+	"latency_ms" integer NOT NULL,
+	"response_snippet" text,
+	"error" text
+);
+--> statement-breakpoint
+CREATE TABLE "webhook_outbox" (
+	"event_id" text PRIMARY KEY NOT NULL,
+	"merchant_id" text NOT NULL,
+	"gateway_order_id" text NOT NULL,
+	"event" text NOT NULL,
+	"url" text NOT NULL,
+	"body" text NOT NULL,
+	"idempotency_key" text NOT NULL,
+	"test_mode" boolean NOT NULL,
+	"status" text NOT NULL,
+	"attempt_count" integer NOT NULL,
+	"next_attempt_at" text,
+	"last_attempt_at" text,
+	"delivered_at" text,
+	"created_at" text NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "webhook_attempts_event_idx" ON "webhook_attempts" USING btree ("event_id");--> statement-breakpoint
+CREATE INDEX "webhook_outbox_due_idx" ON "webhook_outbox" USING btree ("status","next_attempt_at");--> statement-breakpoint
+CREATE INDEX "webhook_outbox_order_idx" ON "webhook_outbox" USING btree ("gateway_order_id");
\ No newline at end of file
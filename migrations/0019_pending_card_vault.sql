@@ -0,0 +1,3 @@
+ALTER TABLE "transactions" ADD COLUMN "save_card_for" text;--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "save_card_holder_name" text;--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "save_card_fingerprint" text;
\ No newline at end of file
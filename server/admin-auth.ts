@@ -0,0 +1,27 @@
+import crypto from "crypto";
+import type { Request, Response, NextFunction } from "express";
+
+// Dashboard / admin access to the merchant registry and its credentials. The
+// dashboard sends ADMIN_TOKEN in X-Admin-Token; outside production it defaults
+// to "dev_admin_token", and in production nothing is accepted until it is set.
+export const ADMIN_TOKEN_HEADER = "X-Admin-Token";
+
+function adminToken() {
+  return process.env.ADMIN_TOKEN || (process.env.NODE_ENV === "production" ? undefined : "dev_admin_token");
+}
+
+export function isAdmin(req: Request) {
+  const expected = adminToken();
+  const given = req.header(ADMIN_TOKEN_HEADER);
+  if (!expected || !given) return false;
+  const hash = (value: string) => crypto.createHash("sha256").update(value).digest();
+  return crypto.timingSafeEqual(hash(expected), hash(given));
+}
+
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (isAdmin(req)) return next();
+  return res.status(401).json({
+    error: req.header(ADMIN_TOKEN_HEADER) ? "ERR_INVALID_ADMIN_TOKEN" : "ERR_ADMIN_REQUIRED",
+    message: `send the dashboard's admin token in ${ADMIN_TOKEN_HEADER}`,
+  });
+}
@@ -0,0 +1,90 @@
+import crypto from "crypto";
+import type { NextFunction, Request, Response } from "express";
+import type { ApiKey, ApiKeyMode, Merchant, V2Order } from "@shared/schema";
+import { storage } from "./storage";
+
+// Merchant API keys for the v2 endpoints. Secrets are random, so a plain
+// SHA-256 is enough to keep them unrecoverable from the store.
+
+export function hashSecret(secret: string) {
+  return crypto.createHash("sha256").update(secret).digest("hex");
+}
+
+// A new key; the returned key_secret is never retrievable again
+export async function issueApiKey(merchantId: string, mode: ApiKeyMode) {
+  const keySecret = `sk_${mode}_${crypto.randomBytes(24).toString("hex")}`;
+  const apiKey = await storage.createApiKey({
+    key_id: `pk_${mode}_${crypto.randomBytes(8).toString("hex")}`,
+    merchant_id: merchantId,
+    mode,
+    secret_hash: hashSecret(keySecret),
+  });
+  return { apiKey, keySecret };
+}
+
+export function serializeApiKey(key: ApiKey) {
+  return {
+    key_id: key.key_id,
+    merchant_id: key.merchant_id,
+    mode: key.mode,
+    created_at: key.created_at,
+    revoked_at: key.revoked_at,
+  };
+}
+
+// "Basic base64(key_id:key_secret)" or "Bearer key_id:key_secret"
+function parseCredentials(header: string | undefined) {
+  const [scheme, value] = (header ?? "").trim().split(/\s+/, 2);
+  if (!value) return undefined;
+  const pair = scheme.toLowerCase() === "basic"
+    ? Buffer.from(value, "base64").toString("utf8")
+    : scheme.toLowerCase() === "bearer" ? value : undefined;
+  const separator = pair?.indexOf(":") ?? -1;
+  if (!pair || separator <= 0) return undefined;
+  return { keyId: pair.slice(0, separator), keySecret: pair.slice(separator + 1) };
+}
+
+export interface MerchantAuth {
+  apiKey: ApiKey;
+  merchant: Merchant;
+}
+
+export async function authenticateApiKey(header: string | undefined): Promise<MerchantAuth | undefined> {
+  const credentials = parseCredentials(header);
+  if (!credentials) return undefined;
+  const apiKey = await storage.getApiKey(credentials.keyId);
+  if (!apiKey || apiKey.revoked_at) return undefined;
+  const expected = Buffer.from(apiKey.secret_hash, "hex");
+  const given = Buffer.from(hashSecret(credentials.keySecret), "hex");
+  if (!crypto.timingSafeEqual(expected, given)) return undefined;
+  const merchant = await storage.getMerchant(apiKey.merchant_id);
+  return merchant ? { apiKey, merchant } : undefined;
+}
+
+// Route middleware for merchant-facing endpoints; read the result with merchantAuth(res)
+export async function requireApiKey(req: Request, res: Response, next: NextFunction) {
+  try {
+    const header = req.header("Authorization");
+    const auth = await authenticateApiKey(header);
+    if (!auth) {
+      res.setHeader("WWW-Authenticate", 'Basic realm="PayFlow"');
+      return res.status(401).json({
+        error: header ? "ERR_INVALID_API_KEY" : "ERR_AUTHENTICATION_REQUIRED",
+        message: header ? "the API key is invalid or has been revoked" : "authenticate with your key_id and key_secret",
+      });
+    }
+    res.locals.merchantAuth = auth;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+export function merchantAuth(res: Response): MerchantAuth {
+  return res.locals.merchantAuth;
+}
+
+// A key sees only its merchant's orders in its own mode
+export function ownsOrder({ apiKey, merchant }: MerchantAuth, order: V2Order) {
+  return order.merchant_id === merchant.merchant_id && order.test_mode === (apiKey.mode === "test");
+}
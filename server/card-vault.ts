@@ -0,0 +1,73 @@
+import crypto from "crypto";
+import type { CardToken, SavedCard, Transaction, V2Order } from "@shared/schema";
+import { normalizeCardNumber, type CardSummary } from "@shared/cards";
+import { storage } from "./storage";
+import { getScenarioCatalog } from "./scenarios";
+
+// Keyed so a leaked fingerprint can't be brute-forced back to the PAN
+function cardFingerprint(cardNumber: string) {
+  const secret = process.env.CARD_VAULT_SECRET || "dev_card_vault_secret";
+  return crypto.createHmac("sha256", secret).update(normalizeCardNumber(cardNumber)).digest("hex");
+}
+
+function storeCardToken(merchantId: string, customerId: string, card: CardSummary, cardHolderName: string, fingerprint: string) {
+  return storage.saveCardToken({
+    merchant_id: merchantId,
+    customer_id: customerId,
+    network: card.network,
+    last4: card.last4,
+    expiry_month: card.expiryMonth,
+    expiry_year: card.expiryYear,
+    card_holder_name: cardHolderName,
+    fingerprint,
+  });
+}
+
+// Vault a validated card for a merchant's customer
+export function vaultCard(
+  merchantId: string,
+  customerId: string,
+  card: CardSummary,
+  details: { cardNumber: string; cardHolderName: string },
+): Promise<CardToken> {
+  return storeCardToken(merchantId, customerId, card, details.cardHolderName.trim(), cardFingerprint(details.cardNumber));
+}
+
+// What a challenged payment carries so its card can be vaulted once authenticated
+export function pendingCardVault(customerId: string, details: { cardNumber: string; cardHolderName: string }) {
+  return {
+    saveCardFor: customerId,
+    saveCardHolderName: details.cardHolderName.trim(),
+    saveCardFingerprint: cardFingerprint(details.cardNumber),
+  };
+}
+
+// Once a payment carrying pendingCardVault is final: vault its card if it went
+// through, and drop the pending details either way
+export async function settlePendingCardVault(transaction: Transaction, order: V2Order | undefined): Promise<Transaction> {
+  const { saveCardFor, saveCardHolderName, saveCardFingerprint } = transaction;
+  if (!saveCardFor || !saveCardFingerprint) return transaction;
+  const paid = transaction.status === "success" || transaction.status === "authorized";
+  const card = transaction.cardNetwork && transaction.cardLast4 && transaction.cardExpiryMonth && transaction.cardExpiryYear
+    ? { network: transaction.cardNetwork, last4: transaction.cardLast4, expiryMonth: transaction.cardExpiryMonth, expiryYear: transaction.cardExpiryYear }
+    : undefined;
+  const token = paid && order && card
+    ? await storeCardToken(order.merchant_id, saveCardFor, card, saveCardHolderName ?? "", saveCardFingerprint)
+    : undefined;
+  return (await storage.settleCardVault(transaction.id, token?.token_id)) ?? transaction;
+}
+
+// The catalog card behind a token, so a saved test card is answered like the
+// card itself (declined, challenged, ...); matched by fingerprint, as the PAN is not kept
+export function scenarioCardFor(token: CardToken): string | undefined {
+  return getScenarioCatalog().find((scenario) => scenario.paymentMethod === "card" && cardFingerprint(scenario.match) === token.fingerprint)?.match;
+}
+
+// A token can only be used for orders of the customer it was saved for
+export function tokenBelongsTo(token: CardToken, order: V2Order | undefined) {
+  return !!order && token.merchant_id === order.merchant_id && token.customer_id === order.customer?.customer_id;
+}
+
+export function serializeCardToken({ fingerprint: _fingerprint, ...card }: CardToken): SavedCard {
+  return card;
+}
@@ -0,0 +1,754 @@
+import { and, asc, desc, eq, gt, inArray, isNull, lte, or, sql } from "drizzle-orm";
+import { randomUUID } from "crypto";
+import {
+  bankAccounts,
+  orders,
+  v2Orders,
+  transactions,
+  ledgerEntries,
+  idempotencyKeys,
+  refunds,
+  cardTokens,
+  vpas,
+  merchants,
+  apiKeys,
+  webhookSecrets,
+  webhookOutbox,
+  webhookAttempts,
+  type BankAccount,
+  type InsertBankAccount,
+  type Order,
+  type InsertOrder,
+  type Transaction,
+  type CreateOrderV2,
+  type V2Order,
+  type V2OrderStatus,
+  type UpdateV2Order,
+  type V2OrderFilter,
+  type LedgerEntry,
+  type LedgerJournal,
+  type IdempotencyKey,
+  type InsertIdempotencyKey,
+  type Refund,
+  type CardToken,
+  type InsertCardToken,
+  type Vpa,
+  type InsertVpa,
+  type Merchant,
+  type InsertMerchant,
+  type UpdateMerchant,
+  type ApiKey,
+  type InsertApiKey,
+  type ApiKeyMode,
+  type WebhookSecret,
+  type InsertWebhookSecret,
+  type WebhookOutboxEvent,
+  type InsertWebhookOutboxEvent,
+  type WebhookOutboxUpdate,
+  type WebhookOutboxFilter,
+  type WebhookAttempt,
+} from "@shared/schema";
+import type { AuthorizationResult, AwaitingStatus, DebitResult, IdempotencyReservation, IStorage, RefundResult, TransactionOutcome } from "./storage";
+import { DuplicateOrderError } from "./errors";
+import { connectDatabase, type Database } from "./db";
+import { initialBankAccounts, initialMerchants, initialVpas, initialWebhookSecrets } from "./seed";
+import { bankAccountJournal, isSystemAccount, journalLegs, legDelta } from "./ledger";
+import { allowedSources } from "./order-state";
+import { debitedAccount, planRefund, refundJournal, refundedAmount } from "./refunds";
+import { captureJournals, holdsFunds, planCapture, releaseJournal } from "./holds";
+
+// Postgres unique_violation
+function isUniqueViolation(err: unknown) {
+  return typeof err === "object" && err !== null && (err as { code?: string }).code === "23505";
+}
+
+// Nullable columns come back as null; the API contract uses absent fields.
+function withoutNulls<T>(row: Record<string, unknown>): T {
+  const out: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(row)) {
+    if (value !== null) out[key] = value;
+  }
+  return out as T;
+}
+
+export class DbStorage implements IStorage {
+  private db?: Database;
+
+  constructor(private readonly driver: "postgres" | "pglite") {}
+
+  private get conn(): Database {
+    if (!this.db) throw new Error("DbStorage used before init()");
+    return this.db;
+  }
+
+  async init(): Promise<void> {
+    this.db = await connectDatabase(this.driver);
+    await this.seedInitialData();
+  }
+
+  private async seedInitialData() {
+    // merchants are seeded on their own so databases created before the registry get them too
+    const [{ merchantCount }] = await this.conn.select({ merchantCount: sql<number>`count(*)::int` }).from(merchants);
+    if (merchantCount === 0) {
+      for (const merchant of initialMerchants) await this.createMerchant(merchant);
+    }
+    const [{ secretCount }] = await this.conn.select({ secretCount: sql<number>`count(*)::int` }).from(webhookSecrets);
+    if (secretCount === 0) {
+      const createdAt = new Date().toISOString();
+      await this.conn.insert(webhookSecrets).values(initialWebhookSecrets().map((secret) => ({ ...secret, created_at: createdAt })));
+    }
+
+    const [{ count }] = await this.conn.select({ count: sql<number>`count(*)::int` }).from(bankAccounts);
+    if (count > 0) return;
+    const accounts: BankAccount[] = [];
+    for (const account of initialBankAccounts) {
+      accounts.push(await this.createBankAccount(account));
+    }
+    for (const { vpa, accountNumber } of initialVpas) {
+      const account = accounts.find((a) => a.accountNumber === accountNumber);
+      if (account) await this.registerVpa({ vpa, bankAccountId: account.id });
+    }
+  }
+
+  // Insert the legs and move the cached balances in the caller's transaction
+  private async applyJournal(tx: Database, journal: LedgerJournal): Promise<LedgerEntry[] | undefined> {
+    const legs = journalLegs(journal);
+    const bankLegs = legs.filter((leg) => !isSystemAccount(leg.accountId));
+    if (bankLegs.length > 0) {
+      const ids = bankLegs.map((leg) => leg.accountId);
+      const found = await tx.select({ id: bankAccounts.id }).from(bankAccounts).where(inArray(bankAccounts.id, ids));
+      if (found.length !== new Set(ids).size) return undefined;
+    }
+    for (const leg of bankLegs) {
+      await tx
+        .update(bankAccounts)
+        .set({ balance: sql`${bankAccounts.balance} + ${legDelta(leg)}` })
+        .where(eq(bankAccounts.id, leg.accountId));
+    }
+    await tx.insert(ledgerEntries).values(legs);
+    return legs;
+  }
+
+  async createBankAccount(insertAccount: InsertBankAccount): Promise<BankAccount> {
+    return this.conn.transaction(async (tx) => {
+      const id = randomUUID();
+      await tx.insert(bankAccounts).values({ ...insertAccount, id, balance: 0 });
+      if (insertAccount.balance > 0) {
+        await this.applyJournal(tx, bankAccountJournal("opening", id, "credit", insertAccount.balance, { description: "Opening balance" }));
+      }
+      const [account] = await tx.select().from(bankAccounts).where(eq(bankAccounts.id, id));
+      return account;
+    });
+  }
+
+  async getBankAccounts(): Promise<BankAccount[]> {
+    return this.conn.select().from(bankAccounts);
+  }
+
+  async getBankAccount(id: string): Promise<BankAccount | undefined> {
+    const [account] = await this.conn.select().from(bankAccounts).where(eq(bankAccounts.id, id));
+    return account;
+  }
+
+  async updateBankAccount(id: string, data: Partial<Omit<InsertBankAccount, "balance">>): Promise<BankAccount | undefined> {
+    if (Object.keys(data).length === 0) return this.getBankAccount(id);
+    const [account] = await this.conn.update(bankAccounts).set(data).where(eq(bankAccounts.id, id)).returning();
+    return account;
+  }
+
+  async deleteBankAccount(id: string): Promise<boolean> {
+    const deleted = await this.conn.delete(bankAccounts).where(eq(bankAccounts.id, id)).returning({ id: bankAccounts.id });
+    return deleted.length > 0;
+  }
+
+  async postLedgerJournal(journal: LedgerJournal): Promise<LedgerEntry[] | undefined> {
+    return this.conn.transaction((tx) => this.applyJournal(tx, journal));
+  }
+
+  async debitIfSufficientFunds(journal: LedgerJournal): Promise<DebitResult> {
+    return this.conn.transaction(async (tx): Promise<DebitResult> => {
+      // row lock holds concurrent debits of the same account until we commit
+      const [locked] = await tx
+        .select()
+        .from(bankAccounts)
+        .where(eq(bankAccounts.id, journal.debitAccountId))
+        .for("update");
+      if (!locked) return { ok: false, reason: "not_found" };
+      if (locked.balance < journal.amount) return { ok: false, reason: "insufficient_funds", account: locked };
+      const entries = await this.applyJournal(tx, journal);
+      if (!entries) return { ok: false, reason: "not_found" };
+      const [account] = await tx.select().from(bankAccounts).where(eq(bankAccounts.id, locked.id));
+      return { ok: true, account, entries };
+    });
+  }
+
+  async getLedgerEntries(accountId: string): Promise<LedgerEntry[]> {
+    const rows = await this.conn
+      .select()
+      .from(ledgerEntries)
+      .where(eq(ledgerEntries.accountId, accountId))
+      .orderBy(asc(ledgerEntries.createdAt));
+    return rows.map((row) => withoutNulls<LedgerEntry>(row));
+  }
+
+  async createOrder(insertOrder: InsertOrder): Promise<Order> {
+    const id = `ORD_${randomUUID().slice(0, 8).toUpperCase()}`;
+    const [order] = await this.conn.insert(orders).values({ ...insertOrder, id }).returning();
+    return order;
+  }
+
+  async getOrder(id: string): Promise<Order | undefined> {
+    const [order] = await this.conn.select().from(orders).where(eq(orders.id, id));
+    return order;
+  }
+
+  async createOrderV2(order: CreateOrderV2): Promise<V2Order> {
+    const gatewayOrderId = `gw_${randomUUID().slice(0, 8)}`;
+    const token = order.one_time_order_token ?? `ott_${randomUUID().replace(/-/g, "").slice(0, 40)}`;
+    const now = new Date().toISOString();
+    const rows = await this.conn.insert(v2Orders).values({
+      gateway_order_id: gatewayOrderId,
+      merchant_id: order.merchant_id,
+      merchant_order_id: order.order_id,
+      one_time_order_token: token,
+      amount_in_paisa: order.amount_in_paisa,
+      currency: order.currency || "INR",
+      display_amount: order.display_amount,
+      customer: order.customer,
+      plan: order.plan,
+      return_url: order.return_url,
+      callback_url: order.callback_url,
+      test_mode: !!order.test_mode,
+      metadata: order.metadata,
+      idempotency_key: order.idempotency_key,
+      payment_capture: order.payment_capture ?? "automatic",
+      status: "CREATED",
+      created_at: now,
+      updated_at: now,
+      expires_at: order.expires_at,
+    }).returning().catch((err) => {
+      if (isUniqueViolation(err)) throw new DuplicateOrderError(order.merchant_id, order.order_id);
+      throw err;
+    });
+    return withoutNulls<V2Order>(rows[0]);
+  }
+
+  async getOrderByMerchantId(merchantId: string, merchantOrderId: string): Promise<V2Order | undefined> {
+    const [row] = await this.conn
+      .select()
+      .from(v2Orders)
+      .where(and(eq(v2Orders.merchant_id, merchantId), eq(v2Orders.merchant_order_id, merchantOrderId)));
+    return row && withoutNulls<V2Order>(row);
+  }
+
+  async getV2Order(gatewayOrderId: string): Promise<V2Order | undefined> {
+    const [row] = await this.conn.select().from(v2Orders).where(eq(v2Orders.gateway_order_id, gatewayOrderId));
+    return row && withoutNulls<V2Order>(row);
+  }
+
+  async updateV2Order(gatewayOrderId: string, data: UpdateV2Order): Promise<V2Order | undefined> {
+    const [row] = await this.conn
+      .update(v2Orders)
+      .set({ ...data, updated_at: new Date().toISOString() })
+      .where(eq(v2Orders.gateway_order_id, gatewayOrderId))
+      .returning();
+    return row && withoutNulls<V2Order>(row);
+  }
+
+  async transitionV2Order(gatewayOrderId: string, status: V2OrderStatus, data: UpdateV2Order = {}): Promise<V2Order | undefined> {
+    const sources = allowedSources(status);
+    if (sources.length === 0) return undefined;
+    // the status guard in the WHERE clause makes concurrent transitions race-free
+    const [row] = await this.conn
+      .update(v2Orders)
+      .set({ ...data, status, updated_at: new Date().toISOString() })
+      .where(and(eq(v2Orders.gateway_order_id, gatewayOrderId), inArray(v2Orders.status, sources)))
+      .returning();
+    return row && withoutNulls<V2Order>(row);
+  }
+
+  async listV2Orders(filter: V2OrderFilter = {}): Promise<V2Order[]> {
+    const conditions = [];
+    if (filter.merchant_id) conditions.push(eq(v2Orders.merchant_id, filter.merchant_id));
+    if (filter.status) conditions.push(inArray(v2Orders.status, [filter.status].flat()));
+    // ISO-8601 UTC strings compare in time order
+    if (filter.expires_before) conditions.push(lte(v2Orders.expires_at, filter.expires_before));
+    const rows = await this.conn
+      .select()
+      .from(v2Orders)
+      .where(and(...conditions))
+      .orderBy(desc(v2Orders.created_at));
+    return rows.map((row) => withoutNulls<V2Order>(row));
+  }
+
+  async createTransaction(transactionData: Omit<Transaction, "id">): Promise<Transaction> {
+    const id = `TXN_${randomUUID().slice(0, 12).toUpperCase()}`;
+    const [row] = await this.conn.insert(transactions).values({ ...transactionData, id }).returning();
+    return withoutNulls<Transaction>(row);
+  }
+
+  async getTransaction(id: string): Promise<Transaction | undefined> {
+    const [row] = await this.conn.select().from(transactions).where(eq(transactions.id, id));
+    return row && withoutNulls<Transaction>(row);
+  }
+
+  async getTransactions(): Promise<Transaction[]> {
+    const rows = await this.conn.select().from(transactions).orderBy(desc(transactions.timestamp));
+    return rows.map((row) => withoutNulls<Transaction>(row));
+  }
+  async getTransactionsByOrderId(orderId: string): Promise<Transaction[]> {
+    const rows = await this.conn
+      .select()
+      .from(transactions)
+      .where(eq(transactions.orderId, orderId))
+      .orderBy(desc(transactions.timestamp));
+    return rows.map((row) => withoutNulls<Transaction>(row));
+  }
+
+  async refundTransaction(transactionId: string, request: { amount?: number; reason?: string }): Promise<RefundResult> {
+    return this.conn.transaction(async (tx): Promise<RefundResult> => {
+      const transaction = await this.lockTransaction(tx, transactionId);
+      if (!transaction) return { ok: false, reason: "not_found" };
+      const prior = (await tx.select().from(refunds).where(eq(refunds.transactionId, transactionId))).map((r) => withoutNulls<Refund>(r));
+      const plan = planRefund(transaction, prior, request.amount);
+      if (!plan.ok) return plan;
+
+      const refund: Refund = {
+        id: `RFD_${randomUUID().slice(0, 12).toUpperCase()}`,
+        transactionId,
+        orderId: transaction.orderId,
+        amount: plan.amount,
+        status: "processed",
+        reason: request.reason,
+        createdAt: new Date().toISOString(),
+      };
+      const debited = debitedAccount(transaction, await this.paymentLegs(tx, transaction));
+      if (debited && !(await this.applyJournal(tx, refundJournal(transaction, refund)))) {
+        refund.status = "failed";
+        refund.failureReason = "The original bank account no longer exists";
+      }
+      await tx.insert(refunds).values(refund);
+      return { ok: true, refund, transaction, refundedTotal: refundedAmount([...prior, refund]) };
+    });
+  }
+
+  // ledger legs the payment's order posted on its bank account
+  private async paymentLegs(tx: Database, transaction: Transaction): Promise<LedgerEntry[]> {
+    if (!transaction.bankAccountId || !transaction.orderId) return [];
+    const rows = await tx
+      .select()
+      .from(ledgerEntries)
+      .where(and(eq(ledgerEntries.accountId, transaction.bankAccountId), eq(ledgerEntries.reference, transaction.orderId)));
+    return rows.map((row) => withoutNulls<LedgerEntry>(row));
+  }
+
+  // lock the payment row so a capture, a void and the auto-void sweep can't overlap
+  private async lockTransaction(tx: Database, transactionId: string): Promise<Transaction | undefined> {
+    const [row] = await tx.select().from(transactions).where(eq(transactions.id, transactionId)).for("update");
+    return row && withoutNulls<Transaction>(row);
+  }
+
+  async captureAuthorization(transactionId: string, amount?: number): Promise<AuthorizationResult> {
+    return this.conn.transaction(async (tx): Promise<AuthorizationResult> => {
+      const transaction = await this.lockTransaction(tx, transactionId);
+      if (!transaction) return { ok: false, reason: "not_found" };
+      const plan = planCapture(transaction, amount);
+      if (!plan.ok) return plan.reason === "not_authorized" ? { ...plan, transaction } : plan;
+
+      const held = holdsFunds(transaction, await this.paymentLegs(tx, transaction));
+      if (held) {
+        for (const journal of captureJournals(transaction, plan)) await this.applyJournal(tx, journal);
+      }
+      const [row] = await tx
+        .update(transactions)
+        .set({ status: "success", capturedAmount: plan.amount, capturedAt: new Date().toISOString() })
+        .where(eq(transactions.id, transactionId))
+        .returning();
+      return { ok: true, transaction: withoutNulls<Transaction>(row) };
+    });
+  }
+
+  async voidAuthorization(transactionId: string): Promise<AuthorizationResult> {
+    return this.conn.transaction(async (tx): Promise<AuthorizationResult> => {
+      const transaction = await this.lockTransaction(tx, transactionId);
+      if (!transaction) return { ok: false, reason: "not_found" };
+      if (transaction.status !== "authorized") return { ok: false, reason: "not_authorized", transaction };
+
+      if (holdsFunds(transaction, await this.paymentLegs(tx, transaction))) await this.applyJournal(tx, releaseJournal(transaction));
+      const [row] = await tx
+        .update(transactions)
+        .set({ status: "voided", voidedAt: new Date().toISOString() })
+        .where(eq(transactions.id, transactionId))
+        .returning();
+      return { ok: true, transaction: withoutNulls<Transaction>(row) };
+    });
+  }
+
+  async listExpiredAuthorizations(before: string): Promise<Transaction[]> {
+    const rows = await this.conn
+      .select()
+      .from(transactions)
+      .where(and(eq(transactions.status, "authorized"), lte(transactions.authorizationExpiresAt, before)));
+    return rows.map((row) => withoutNulls<Transaction>(row));
+  }
+
+  async completeTransaction(transactionId: string, from: AwaitingStatus, outcome: TransactionOutcome): Promise<Transaction | undefined> {
+    const [row] = await this.conn
+      .update(transactions)
+      .set(outcome)
+      .where(and(eq(transactions.id, transactionId), eq(transactions.status, from)))
+      .returning();
+    return row && withoutNulls<Transaction>(row);
+  }
+
+  async settleCardVault(transactionId: string, cardTokenId: string | undefined): Promise<Transaction | undefined> {
+    const [row] = await this.conn
+      .update(transactions)
+      .set({ ...(cardTokenId ? { cardTokenId } : {}), saveCardFor: null, saveCardHolderName: null, saveCardFingerprint: null })
+      .where(eq(transactions.id, transactionId))
+      .returning();
+    return row && withoutNulls<Transaction>(row);
+  }
+
+  async recordChallengeAttempt(transactionId: string): Promise<Transaction | undefined> {
+    const [row] = await this.conn
+      .update(transactions)
+      .set({ challengeAttempts: sql`coalesce(${transactions.challengeAttempts}, 0) + 1` })
+      .where(and(eq(transactions.id, transactionId), eq(transactions.status, "requires_action")))
+      .returning();
+    return row && withoutNulls<Transaction>(row);
+  }
+
+  async listExpiredChallenges(before: string): Promise<Transaction[]> {
+    const rows = await this.conn
+      .select()
+      .from(transactions)
+      .where(and(eq(transactions.status, "requires_action"), lte(transactions.challengeExpiresAt, before)));
+    return rows.map((row) => withoutNulls<Transaction>(row));
+  }
+
+  async listExpiredCollects(before: string): Promise<Transaction[]> {
+    const rows = await this.conn
+      .select()
+      .from(transactions)
+      .where(and(eq(transactions.status, "pending"), lte(transactions.collectExpiresAt, before)));
+    return rows.map((row) => withoutNulls<Transaction>(row));
+  }
+
+  async getTransactionByBankSession(bankSessionId: string): Promise<Transaction | undefined> {
+    const [row] = await this.conn.select().from(transactions).where(eq(transactions.bankSessionId, bankSessionId));
+    return row && withoutNulls<Transaction>(row);
+  }
+
+  async recordBankLogin(transactionId: string): Promise<Transaction | undefined> {
+    const [row] = await this.conn
+      .update(transactions)
+      .set({ bankLoginAt: new Date().toISOString() })
+      .where(and(eq(transactions.id, transactionId), eq(transactions.status, "pending")))
+      .returning();
+    return row && withoutNulls<Transaction>(row);
+  }
+
+  async listExpiredBankSessions(before: string): Promise<Transaction[]> {
+    const rows = await this.conn
+      .select()
+      .from(transactions)
+      .where(and(eq(transactions.status, "pending"), lte(transactions.bankSessionExpiresAt, before)));
+    return rows.map((row) => withoutNulls<Transaction>(row));
+  }
+
+  async saveCardToken(token: InsertCardToken): Promise<CardToken> {
+    const [row] = await this.conn
+      .insert(cardTokens)
+      .values({ ...token, token_id: `tok_${randomUUID().replace(/-/g, "").slice(0, 16)}`, created_at: new Date().toISOString() })
+      .onConflictDoUpdate({
+        target: [cardTokens.merchant_id, cardTokens.customer_id, cardTokens.fingerprint],
+        set: { expiry_month: token.expiry_month, expiry_year: token.expiry_year, card_holder_name: token.card_holder_name },
+      })
+      .returning();
+    return row;
+  }
+
+  async getCardToken(tokenId: string): Promise<CardToken | undefined> {
+    const [row] = await this.conn.select().from(cardTokens).where(eq(cardTokens.token_id, tokenId));
+    return row;
+  }
+
+  async listCardTokens(merchantId: string, customerId: string): Promise<CardToken[]> {
+    return this.conn
+      .select()
+      .from(cardTokens)
+      .where(and(eq(cardTokens.merchant_id, merchantId), eq(cardTokens.customer_id, customerId)))
+      .orderBy(desc(cardTokens.created_at));
+  }
+
+  async deleteCardToken(tokenId: string): Promise<boolean> {
+    const deleted = await this.conn.delete(cardTokens).where(eq(cardTokens.token_id, tokenId)).returning();
+    return deleted.length > 0;
+  }
+
+  async registerVpa(insertVpa: InsertVpa): Promise<Vpa | undefined> {
+    const [row] = await this.conn
+      .insert(vpas)
+      .values({ ...insertVpa, createdAt: new Date().toISOString() })
+      .onConflictDoNothing()
+      .returning();
+    return row;
+  }
+
+  async getVpa(vpa: string): Promise<Vpa | undefined> {
+    const [row] = await this.conn.select().from(vpas).where(eq(vpas.vpa, vpa));
+    return row;
+  }
+
+  async listVpas(): Promise<Vpa[]> {
+    return this.conn.select().from(vpas).orderBy(asc(vpas.vpa));
+  }
+
+  async deleteVpa(vpa: string): Promise<boolean> {
+    const deleted = await this.conn.delete(vpas).where(eq(vpas.vpa, vpa)).returning();
+    return deleted.length > 0;
+  }
+
+  async createMerchant(insertMerchant: InsertMerchant): Promise<Merchant | undefined> {
+    return this.conn.transaction(async (tx) => {
+      // keys and secrets outlive their merchant so its id is never handed out again
+      const [retiredKey] = await tx.select({ key_id: apiKeys.key_id }).from(apiKeys).where(eq(apiKeys.merchant_id, insertMerchant.merchant_id)).limit(1);
+      const [retiredSecret] = await tx.select({ secret_id: webhookSecrets.secret_id }).from(webhookSecrets).where(eq(webhookSecrets.merchant_id, insertMerchant.merchant_id)).limit(1);
+      if (retiredKey || retiredSecret) return undefined;
+      const now = new Date().toISOString();
+      const [row] = await tx
+        .insert(merchants)
+        .values({ ...insertMerchant, created_at: now, updated_at: now })
+        .onConflictDoNothing()
+        .returning();
+      return row;
+    });
+  }
+
+  async getMerchant(merchantId: string): Promise<Merchant | undefined> {
+    const [row] = await this.conn.select().from(merchants).where(eq(merchants.merchant_id, merchantId));
+    return row;
+  }
+
+  async listMerchants(): Promise<Merchant[]> {
+    return this.conn.select().from(merchants).orderBy(asc(merchants.merchant_id));
+  }
+
+  async updateMerchant(merchantId: string, updates: UpdateMerchant): Promise<Merchant | undefined> {
+    const [row] = await this.conn
+      .update(merchants)
+      .set({ ...updates, updated_at: new Date().toISOString() })
+      .where(eq(merchants.merchant_id, merchantId))
+      .returning();
+    return row;
+  }
+
+  async deleteMerchant(merchantId: string): Promise<boolean> {
+    return this.conn.transaction(async (tx) => {
+      const deleted = await tx.delete(merchants).where(eq(merchants.merchant_id, merchantId)).returning();
+      if (deleted.length === 0) return false;
+      const now = new Date().toISOString();
+      await tx.update(apiKeys).set({ revoked_at: now }).where(and(eq(apiKeys.merchant_id, merchantId), isNull(apiKeys.revoked_at)));
+      await tx
+        .update(webhookSecrets)
+        .set({ expires_at: now })
+        .where(and(
+          eq(webhookSecrets.merchant_id, merchantId),
+          or(isNull(webhookSecrets.expires_at), gt(webhookSecrets.expires_at, now)),
+        ));
+      return true;
+    });
+  }
+
+  async createApiKey(insertKey: InsertApiKey): Promise<ApiKey> {
+    const [row] = await this.conn
+      .insert(apiKeys)
+      .values({ ...insertKey, created_at: new Date().toISOString() })
+      .returning();
+    return withoutNulls<ApiKey>(row);
+  }
+
+  async getApiKey(keyId: string): Promise<ApiKey | undefined> {
+    const [row] = await this.conn.select().from(apiKeys).where(eq(apiKeys.key_id, keyId));
+    return row && withoutNulls<ApiKey>(row);
+  }
+
+  async listApiKeys(merchantId: string): Promise<ApiKey[]> {
+    const rows = await this.conn
+      .select()
+      .from(apiKeys)
+      .where(eq(apiKeys.merchant_id, merchantId))
+      .orderBy(desc(apiKeys.created_at));
+    return rows.map((row) => withoutNulls<ApiKey>(row));
+  }
+
+  async revokeApiKey(keyId: string): Promise<ApiKey | undefined> {
+    const [row] = await this.conn
+      .update(apiKeys)
+      .set({ revoked_at: new Date().toISOString() })
+      .where(and(eq(apiKeys.key_id, keyId), isNull(apiKeys.revoked_at)))
+      .returning();
+    return row ? withoutNulls<ApiKey>(row) : this.getApiKey(keyId);
+  }
+
+  async listWebhookSecrets(merchantId: string, mode: ApiKeyMode, at: string): Promise<WebhookSecret[]> {
+    const rows = await this.conn
+      .select()
+      .from(webhookSecrets)
+      .where(and(
+        eq(webhookSecrets.merchant_id, merchantId),
+        eq(webhookSecrets.mode, mode),
+        or(isNull(webhookSecrets.expires_at), gt(webhookSecrets.expires_at, at)),
+      ))
+      .orderBy(desc(webhookSecrets.created_at));
+    return rows.map((row) => withoutNulls<WebhookSecret>(row));
+  }
+
+  async rotateWebhookSecret(insertSecret: InsertWebhookSecret, expiresAt: string): Promise<WebhookSecret> {
+    return this.conn.transaction(async (tx) => {
+      const now = new Date().toISOString();
+      await tx
+        .update(webhookSecrets)
+        .set({ expires_at: expiresAt })
+        .where(and(
+          eq(webhookSecrets.merchant_id, insertSecret.merchant_id),
+          eq(webhookSecrets.mode, insertSecret.mode),
+          or(isNull(webhookSecrets.expires_at), gt(webhookSecrets.expires_at, expiresAt)),
+        ));
+      const [row] = await tx.insert(webhookSecrets).values({ ...insertSecret, created_at: now }).returning();
+      return withoutNulls<WebhookSecret>(row);
+    });
+  }
+
+  async createWebhookEvent(insertEvent: InsertWebhookOutboxEvent): Promise<WebhookOutboxEvent> {
+    const now = new Date().toISOString();
+    const [row] = await this.conn
+      .insert(webhookOutbox)
+      .values({ ...insertEvent, status: "pending", attempt_count: 0, next_attempt_at: now, created_at: now })
+      .returning();
+    return withoutNulls<WebhookOutboxEvent>(row);
+  }
+
+  async getWebhookEvent(eventId: string): Promise<WebhookOutboxEvent | undefined> {
+    const [row] = await this.conn.select().from(webhookOutbox).where(eq(webhookOutbox.event_id, eventId));
+    return row && withoutNulls<WebhookOutboxEvent>(row);
+  }
+
+  async listWebhookEvents(filter: WebhookOutboxFilter = {}): Promise<WebhookOutboxEvent[]> {
+    const conditions = [];
+    if (filter.status) conditions.push(eq(webhookOutbox.status, filter.status));
+    if (filter.gateway_order_id) conditions.push(eq(webhookOutbox.gateway_order_id, filter.gateway_order_id));
+    const query = this.conn
+      .select()
+      .from(webhookOutbox)
+      .where(and(...conditions))
+      .orderBy(desc(webhookOutbox.created_at));
+    const rows = filter.limit ? await query.limit(filter.limit) : await query;
+    return rows.map((row) => withoutNulls<WebhookOutboxEvent>(row));
+  }
+
+  async claimDueWebhookEvents(now: string, leaseUntil: string, limit: number): Promise<WebhookOutboxEvent[]> {
+    const due = await this.conn
+      .select()
+      .from(webhookOutbox)
+      .where(and(eq(webhookOutbox.status, "pending"), lte(webhookOutbox.next_attempt_at, now)))
+      .orderBy(asc(webhookOutbox.next_attempt_at))
+      .limit(limit);
+    const claimed: WebhookOutboxEvent[] = [];
+    for (const event of due) {
+      // compare-and-set, so an event another worker leased first is skipped
+      const [row] = await this.conn
+        .update(webhookOutbox)
+        .set({ next_attempt_at: leaseUntil })
+        .where(and(
+          eq(webhookOutbox.event_id, event.event_id),
+          eq(webhookOutbox.status, "pending"),
+          eq(webhookOutbox.next_attempt_at, event.next_attempt_at!),
+        ))
+        .returning();
+      if (row) claimed.push(withoutNulls<WebhookOutboxEvent>(row));
+    }
+    return claimed;
+  }
+
+  async recordWebhookAttempt(attempt: WebhookAttempt, update: WebhookOutboxUpdate): Promise<WebhookOutboxEvent | undefined> {
+    return this.conn.transaction(async (tx) => {
+      await tx.insert(webhookAttempts).values(attempt);
+      const [row] = await tx
+        .update(webhookOutbox)
+        .set({
+          status: update.status,
+          next_attempt_at: update.next_attempt_at ?? null,
+          delivered_at: update.delivered_at ?? null,
+          attempt_count: attempt.attempt_number,
+          last_attempt_at: attempt.attempted_at,
+        })
+        .where(eq(webhookOutbox.event_id, attempt.event_id))
+        .returning();
+      return row && withoutNulls<WebhookOutboxEvent>(row);
+    });
+  }
+
+  async listWebhookAttempts(eventId: string): Promise<WebhookAttempt[]> {
+    const rows = await this.conn
+      .select()
+      .from(webhookAttempts)
+      .where(eq(webhookAttempts.event_id, eventId))
+      .orderBy(asc(webhookAttempts.attempt_number));
+    return rows.map((row) => withoutNulls<WebhookAttempt>(row));
+  }
+
+  async requeueWebhookEvent(eventId: string): Promise<WebhookOutboxEvent | undefined> {
+    const [row] = await this.conn
+      .update(webhookOutbox)
+      .set({ status: "pending", next_attempt_at: new Date().toISOString() })
+      .where(and(eq(webhookOutbox.event_id, eventId), eq(webhookOutbox.status, "dead")))
+      .returning();
+    return row && withoutNulls<WebhookOutboxEvent>(row);
+  }
+
+  async getRefunds(transactionId: string): Promise<Refund[]> {
+    const rows = await this.conn
+      .select()
+      .from(refunds)
+      .where(eq(refunds.transactionId, transactionId))
+      .orderBy(asc(refunds.createdAt));
+    return rows.map((row) => withoutNulls<Refund>(row));
+  }
+
+  async listRefunds(): Promise<Refund[]> {
+    const rows = await this.conn.select().from(refunds).orderBy(desc(refunds.createdAt));
+    return rows.map((row) => withoutNulls<Refund>(row));
+  }
+
+  async reserveIdempotencyKey(record: InsertIdempotencyKey): Promise<IdempotencyReservation> {
+    const matchKey = and(eq(idempotencyKeys.scope, record.scope), eq(idempotencyKeys.key, record.key));
+    // the primary key arbitrates concurrent first requests
+    const [inserted] = await this.conn.insert(idempotencyKeys).values(record).onConflictDoNothing().returning();
+    if (inserted) return { reserved: true };
+
+    const [reclaimed] = await this.conn
+      .update(idempotencyKeys)
+      .set({ ...record, responseStatus: null, responseBody: null })
+      .where(and(matchKey, lte(idempotencyKeys.expiresAt, record.createdAt)))
+      .returning();
+    if (reclaimed) return { reserved: true };
+
+    const [existing] = await this.conn.select().from(idempotencyKeys).where(matchKey);
+    // released between our insert and select; try again
+    if (!existing) return this.reserveIdempotencyKey(record);
+    return { reserved: false, existing: withoutNulls<IdempotencyKey>(existing) };
+  }
+
+  async completeIdempotencyKey(scope: string, key: string, responseStatus: number, responseBody: unknown): Promise<void> {
+    await this.conn
+      .update(idempotencyKeys)
+      .set({ responseStatus, responseBody })
+      .where(and(eq(idempotencyKeys.scope, scope), eq(idempotencyKeys.key, key)));
+  }
+
+  async releaseIdempotencyKey(scope: string, key: string): Promise<void> {
+    await this.conn.delete(idempotencyKeys).where(and(eq(idempotencyKeys.scope, scope), eq(idempotencyKeys.key, key)));
+  }
+}
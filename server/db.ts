@@ -0,0 +1,36 @@
+import path from "path";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import * as schema from "@shared/schema";
+
+export type StorageDriver = "memory" | "postgres" | "pglite";
+
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+const migrationsFolder = path.resolve(process.cwd(), "migrations");
+
+// Drivers are imported lazily so the production bundle only loads the one
+// it is configured for (pglite is a dev dependency used for local testing).
+export async function connectDatabase(driver: Exclude<StorageDriver, "memory">): Promise<Database> {
+  if (driver === "pglite") {
+    const { PGlite } = await import("@electric-sql/pglite");
+    const { drizzle } = await import("drizzle-orm/pglite");
+    const { migrate } = await import("drizzle-orm/pglite/migrator");
+    // no data dir means an in-memory database that is discarded on exit
+    const client = new PGlite(process.env.PGLITE_DATA_DIR);
+    const db = drizzle(client, { schema });
+    await migrate(db, { migrationsFolder });
+    return db;
+  }
+
+  if (!process.env.DATABASE_URL) {
+    throw new Error("DATABASE_URL must be set when STORAGE_DRIVER=postgres");
+  }
+
+  const { default: pg } = await import("pg");
+  const { drizzle } = await import("drizzle-orm/node-postgres");
+  const { migrate } = await import("drizzle-orm/node-postgres/migrator");
+  const pool = new pg.Pool({ connectionString: process.env.DATABASE_URL });
+  const db = drizzle(pool, { schema });
+  await migrate(db, { migrationsFolder });
+  return db;
+}
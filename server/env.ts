@@ -0,0 +1,5 @@
+// A positive integer setting from the environment, or `fallback` when it is unset or invalid
+export function positiveIntFromEnv(name: string, fallback: number) {
+  const value = parseInt(process.env[name] || "", 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
@@ -0,0 +1,7 @@
+// Thrown by createOrderV2 when the merchant already has an order with that order_id
+export class DuplicateOrderError extends Error {
+  constructor(public readonly merchantId: string, public readonly merchantOrderId: string) {
+    super(`order ${merchantOrderId} already exists for merchant ${merchantId}`);
+    this.name = "DuplicateOrderError";
+  }
+}
@@ -0,0 +1,61 @@
+import type { LedgerEntry, LedgerJournal, Transaction } from "@shared/schema";
+import { paisaToRupees, rupeesToPaisa } from "@shared/money";
+import { SYSTEM_ACCOUNTS, bankAccountJournal } from "./ledger";
+import { positiveIntFromEnv } from "./env";
+
+// How long an authorization may stay uncaptured (AUTHORIZATION_WINDOW_SECONDS, default 5 days)
+export function authorizationExpiry(now = Date.now()) {
+  const window = positiveIntFromEnv("AUTHORIZATION_WINDOW_SECONDS", 5 * 24 * 60 * 60) * 1000;
+  return new Date(now + window).toISOString();
+}
+
+export type CapturePlan =
+  | { ok: true; amount: number; release: number }
+  | { ok: false; reason: "not_authorized" }
+  | { ok: false; reason: "exceeds_authorized"; authorized: number };
+
+// A capture takes all or part of the authorized amount; the rest is released
+export function planCapture(transaction: Transaction, requested?: number): CapturePlan {
+  if (transaction.status !== "authorized") return { ok: false, reason: "not_authorized" };
+  const authorized = rupeesToPaisa(transaction.amount);
+  const amount = requested === undefined ? authorized : rupeesToPaisa(requested);
+  if (amount <= 0 || amount > authorized) {
+    return { ok: false, reason: "exceeds_authorized", authorized: transaction.amount };
+  }
+  return { ok: true, amount: paisaToRupees(amount), release: paisaToRupees(authorized - amount) };
+}
+
+// Whether the authorization put funds of its bankAccountId on hold; `entries` are that account's ledger legs
+export function holdsFunds(transaction: Transaction, entries: LedgerEntry[]): transaction is Transaction & { bankAccountId: string } {
+  return entries.some((entry) =>
+    entry.accountId === transaction.bankAccountId
+    && entry.direction === "debit"
+    && entry.kind === "authorization"
+    && entry.reference === transaction.orderId);
+}
+
+/**
+ * Ledger movements for a capture of a netbanking authorization: the captured
+ * part moves from holds to clearing like a normal payment, and anything not
+ * captured goes back to the payer's account.
+ */
+export function captureJournals(transaction: Transaction & { bankAccountId: string }, plan: { amount: number; release: number }): LedgerJournal[] {
+  const journals: LedgerJournal[] = [{
+    kind: "capture",
+    debitAccountId: SYSTEM_ACCOUNTS.holds,
+    creditAccountId: SYSTEM_ACCOUNTS.clearing,
+    amount: plan.amount,
+    reference: transaction.id,
+    description: `Capture of ${transaction.id}`,
+  }];
+  if (plan.release > 0) journals.push(releaseJournal(transaction, plan.release));
+  return journals;
+}
+
+// Hand held funds back to the payer (void, or the uncaptured rest of a capture)
+export function releaseJournal(transaction: Transaction & { bankAccountId: string }, amount = transaction.amount): LedgerJournal {
+  return bankAccountJournal("release", transaction.bankAccountId, "credit", amount, {
+    reference: transaction.id,
+    description: `Release of hold for ${transaction.id}`,
+  });
+}
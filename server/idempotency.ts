@@ -0,0 +1,73 @@
+import crypto from "crypto";
+import { storage } from "./storage";
+import { positiveIntFromEnv } from "./env";
+
+// How long a key is remembered, configurable via IDEMPOTENCY_KEY_TTL_SECONDS (default 24h)
+export function idempotencyTtlMs() {
+  return positiveIntFromEnv("IDEMPOTENCY_KEY_TTL_SECONDS", 24 * 60 * 60) * 1000;
+}
+
+// JSON with sorted object keys so equal payloads hash equally
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function requestHash(payload: unknown) {
+  return crypto.createHash("sha256").update(canonicalJson(payload)).digest("hex");
+}
+
+export type IdempotentStart =
+  | { kind: "new" }
+  | { kind: "replay"; status: number; body: unknown }
+  | { kind: "conflict" }
+  | { kind: "in_progress" };
+
+/**
+ * Claim an idempotency key for a request. A retry with the same payload gets
+ * the stored response back ("replay"), a different payload is a "conflict",
+ * and a retry while the first request is still running is "in_progress".
+ */
+export async function beginIdempotentRequest(scope: string, key: string, payload: unknown): Promise<IdempotentStart> {
+  const hash = requestHash(payload);
+  const now = Date.now();
+  const reservation = await storage.reserveIdempotencyKey({
+    scope,
+    key,
+    requestHash: hash,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + idempotencyTtlMs()).toISOString(),
+  });
+  if (reservation.reserved) return { kind: "new" };
+
+  const { existing } = reservation;
+  if (existing.requestHash !== hash) return { kind: "conflict" };
+  if (existing.responseStatus === undefined) return { kind: "in_progress" };
+  return { kind: "replay", status: existing.responseStatus, body: existing.responseBody };
+}
+
+export interface IdempotentRequest {
+  scope: string;
+  key: string;
+}
+
+// Only successful responses are replayable; anything else frees the key for a retry
+export async function settleIdempotentRequest(request: IdempotentRequest | undefined, status: number, body: unknown) {
+  if (!request) return;
+  if (status >= 200 && status < 300) await finishIdempotentRequest(request.scope, request.key, status, body);
+  else await abandonIdempotentRequest(request.scope, request.key);
+}
+
+export function finishIdempotentRequest(scope: string, key: string, status: number, body: unknown) {
+  return storage.completeIdempotencyKey(scope, key, status, body);
+}
+
+export function abandonIdempotentRequest(scope: string, key: string) {
+  return storage.releaseIdempotencyKey(scope, key);
+}
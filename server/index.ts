@@ -1,5 +1,12 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { storage } from "./storage";
+import { startOrderExpirySweeper } from "./order-expiry";
+import { startAuthorizationSweeper } from "./payment-capture";
+import { startChallengeSweeper } from "./three-ds";
+import { startCollectSweeper } from "./upi-collect";
+import { startBankSessionSweeper } from "./netbanking";
+import { startWebhookWorker } from "./webhook-outbox";
 import { serveStatic } from "./static";
 import { createServer } from "http";
 import session from "express-session";
@@ -54,6 +61,11 @@ export function log(message: string, source = "express") {
   console.log(`${formattedTime} [${source}] ${message}`);
 }
 
+// API key and webhook secrets appear in a response once and never in the logs
+function redactSecrets(key: string, value: unknown) {
+  return /secrets?$/i.test(key) ? "[redacted]" : value;
+}
+
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
@@ -70,7 +82,7 @@ app.use((req, res, next) => {
     if (path.startsWith("/api")) {
       let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
       if (capturedJsonResponse) {
-        logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
+        logLine += ` :: ${JSON.stringify(capturedJsonResponse, redactSecrets)}`;
       }
 
       log(logLine);
@@ -81,6 +93,13 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  await storage.init();
+  startOrderExpirySweeper();
+  startAuthorizationSweeper();
+  startChallengeSweeper();
+  startCollectSweeper();
+  startBankSessionSweeper();
+  startWebhookWorker();
   await registerRoutes(httpServer, app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
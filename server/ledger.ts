@@ -0,0 +1,78 @@
+import { randomUUID } from "crypto";
+import type { LedgerEntry, LedgerEntryKind, LedgerJournal } from "@shared/schema";
+
+// System accounts that sit on the other side of every bank account movement
+export const SYSTEM_ACCOUNTS = {
+  opening: "gateway:opening",
+  clearing: "gateway:clearing",
+  adjustments: "gateway:adjustments",
+  settlement: "gateway:settlement",
+  // authorized but not yet captured funds
+  holds: "gateway:holds",
+} as const;
+
+export function isSystemAccount(accountId: string) {
+  return accountId.startsWith("gateway:");
+}
+
+const counterpartFor: Record<LedgerEntryKind, string> = {
+  opening: SYSTEM_ACCOUNTS.opening,
+  payment: SYSTEM_ACCOUNTS.clearing,
+  refund: SYSTEM_ACCOUNTS.clearing,
+  adjustment: SYSTEM_ACCOUNTS.adjustments,
+  settlement: SYSTEM_ACCOUNTS.settlement,
+  authorization: SYSTEM_ACCOUNTS.holds,
+  capture: SYSTEM_ACCOUNTS.holds,
+  release: SYSTEM_ACCOUNTS.holds,
+};
+
+/**
+ * Build the journal for a movement on a bank account. "debit" takes money
+ * out of the account, "credit" puts money in; the other leg always lands on
+ * the system account for that kind of movement.
+ */
+export function bankAccountJournal(
+  kind: LedgerEntryKind,
+  bankAccountId: string,
+  direction: "debit" | "credit",
+  amount: number,
+  details: { reference?: string; description?: string } = {},
+): LedgerJournal {
+  const counterpart = counterpartFor[kind];
+  return {
+    kind,
+    debitAccountId: direction === "debit" ? bankAccountId : counterpart,
+    creditAccountId: direction === "credit" ? bankAccountId : counterpart,
+    amount,
+    ...details,
+  };
+}
+
+// Balance of a bank account as recorded by its ledger legs
+export function deriveBalance(entries: LedgerEntry[]): number {
+  const total = entries.reduce((sum, e) => sum + legDelta(e), 0);
+  return Math.round(total * 100) / 100;
+}
+
+// Expand a journal into its two immutable legs
+export function journalLegs(journal: LedgerJournal): LedgerEntry[] {
+  const journalId = `jrn_${randomUUID().replace(/-/g, "").slice(0, 16)}`;
+  const createdAt = new Date().toISOString();
+  const base = {
+    journalId,
+    amount: journal.amount,
+    kind: journal.kind,
+    reference: journal.reference,
+    description: journal.description,
+    createdAt,
+  };
+  return [
+    { ...base, id: `led_${randomUUID().replace(/-/g, "").slice(0, 16)}`, accountId: journal.debitAccountId, direction: "debit" },
+    { ...base, id: `led_${randomUUID().replace(/-/g, "").slice(0, 16)}`, accountId: journal.creditAccountId, direction: "credit" },
+  ];
+}
+
+// How a leg moves the balance of the account it is posted to
+export function legDelta(entry: Pick<LedgerEntry, "direction" | "amount">) {
+  return entry.direction === "credit" ? entry.amount : -entry.amount;
+}
@@ -0,0 +1,30 @@
+import type { Merchant, PaymentMethod } from "@shared/schema";
+import { paymentMethods } from "@shared/schema";
+
+// A URL is under a registered prefix when the scheme and host match, the port
+// matches if the prefix names one, and the path continues the prefix's path
+// at a segment boundary, so https://shop.example.com does not admit
+// https://shop.example.com.attacker.io
+export function urlMatchesPrefix(value: string, prefix: string): boolean {
+  let url: URL;
+  let registered: URL;
+  try {
+    url = new URL(value);
+    registered = new URL(prefix);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== registered.protocol || url.hostname !== registered.hostname) return false;
+  if (registered.port && url.port !== registered.port) return false;
+  const base = registered.pathname.endsWith("/") ? registered.pathname : `${registered.pathname}/`;
+  return url.pathname === registered.pathname || url.pathname.startsWith(base);
+}
+
+export function isRegisteredUrl(value: string, prefixes: string[]): boolean {
+  return prefixes.some((prefix) => urlMatchesPrefix(value, prefix));
+}
+
+// Orders outlive their merchant's deletion; those keep every method
+export function enabledPaymentMethods(merchant: Merchant | undefined): PaymentMethod[] {
+  return merchant ? merchant.payment_methods : [...paymentMethods];
+}
@@ -0,0 +1,136 @@
+import { randomUUID } from "crypto";
+import type { BankAccount, Transaction } from "@shared/schema";
+import { storage } from "./storage";
+import { approveFromAccount, finalizePayment, type PaymentFailure } from "./payment-attempts";
+import { simulatePayment } from "./scenarios";
+import { positiveIntFromEnv } from "./env";
+
+// Simulated netbanking redirect. A redirect payment is created "pending" with
+// a bank session; the customer logs in on the bank's page
+// (client/src/pages/bank-login.tsx), picks an account and approves or
+// declines, and the page posts the answer back to the gateway.
+
+// any user ID works with this password
+export const TEST_BANK_PASSWORD = "password";
+
+// Fields for a new session; it times out after NETBANKING_SESSION_SECONDS (default 5 minutes)
+export function newBankSession(now = Date.now()) {
+  const seconds = positiveIntFromEnv("NETBANKING_SESSION_SECONDS", 5 * 60);
+  return {
+    bankSessionId: `BNK_${randomUUID().replace(/-/g, "").slice(0, 16).toUpperCase()}`,
+    bankSessionExpiresAt: new Date(now + seconds * 1000).toISOString(),
+  };
+}
+
+const sessionExpired: PaymentFailure = { failureCode: "bank_session_expired", failureReason: "The netbanking session timed out" };
+const declinedAtBank: PaymentFailure = { failureCode: "bank_declined", failureReason: "The payment was declined at the bank" };
+
+export async function bankAccountsAt(bankName: string | undefined): Promise<BankAccount[]> {
+  return (await storage.getBankAccounts()).filter((account) => account.bankName === bankName);
+}
+
+// What the bank's page shows; accounts only once the customer has logged in
+export async function serializeBankSession(transaction: Transaction) {
+  const accounts = transaction.bankLoginAt ? await bankAccountsAt(transaction.bankName) : [];
+  return {
+    sessionId: transaction.bankSessionId,
+    bankName: transaction.bankName,
+    orderId: transaction.orderId,
+    amount: transaction.amount,
+    status: transaction.status,
+    expiresAt: transaction.bankSessionExpiresAt,
+    loggedIn: !!transaction.bankLoginAt,
+    accounts: accounts.map((account) => ({
+      id: account.id,
+      accountHolderName: account.accountHolderName,
+      maskedAccountNumber: `XXXX${account.accountNumber.slice(-4)}`,
+      balance: account.balance,
+    })),
+  };
+}
+
+// Where the bank sends the customer afterwards: the merchant's return_url
+// for v2 orders, the receipt otherwise
+export async function bankReturnUrl(transaction: Transaction) {
+  const order = transaction.orderId.startsWith("gw_") ? await storage.getV2Order(transaction.orderId) : undefined;
+  if (!order) return `/receipt/${transaction.id}`;
+  const url = new URL(order.return_url);
+  url.searchParams.set("gw_order", order.gateway_order_id);
+  url.searchParams.set("status", order.status);
+  return url.toString();
+}
+
+export type BankSessionResult =
+  | { ok: true; transaction: Transaction }
+  | { ok: false; reason: "not_found" }
+  | { ok: false; reason: "not_pending" | "expired"; transaction: Transaction }
+  | { ok: false; reason: "invalid_credentials" | "login_required" | "account_not_found" };
+
+// Look the session up, failing it first if it has timed out
+async function openSession(bankSessionId: string): Promise<BankSessionResult> {
+  const transaction = await storage.getTransactionByBankSession(bankSessionId);
+  if (!transaction) return { ok: false, reason: "not_found" };
+  if (transaction.status !== "pending") return { ok: false, reason: "not_pending", transaction };
+  if (transaction.bankSessionExpiresAt && transaction.bankSessionExpiresAt <= new Date().toISOString()) {
+    const failed = await finalizePayment(transaction, "pending", sessionExpired);
+    return { ok: false, reason: "expired", transaction: failed ?? transaction };
+  }
+  return { ok: true, transaction };
+}
+
+export async function loginToBank(bankSessionId: string, password: string): Promise<BankSessionResult> {
+  const session = await openSession(bankSessionId);
+  if (!session.ok) return session;
+  if (password !== TEST_BANK_PASSWORD) return { ok: false, reason: "invalid_credentials" };
+  const loggedIn = await storage.recordBankLogin(session.transaction.id);
+  if (!loggedIn) return { ok: false, reason: "not_pending", transaction: session.transaction };
+  return { ok: true, transaction: loggedIn };
+}
+
+// The bank's answer. Approving debits the chosen account, which must be at
+// the session's bank; the scenario catalog can still fail it by account number.
+export async function completeBankSession(
+  bankSessionId: string,
+  action: "approve" | "decline",
+  bankAccountId?: string,
+): Promise<BankSessionResult> {
+  const session = await openSession(bankSessionId);
+  if (!session.ok) return session;
+  const { transaction } = session;
+
+  let completed: Transaction | undefined;
+  if (action === "decline") {
+    completed = await finalizePayment(transaction, "pending", declinedAtBank);
+  } else {
+    if (!transaction.bankLoginAt) return { ok: false, reason: "login_required" };
+    const account = (await bankAccountsAt(transaction.bankName)).find((a) => a.id === bankAccountId);
+    if (!account) return { ok: false, reason: "account_not_found" };
+    const simulated = await simulatePayment("netbanking", account.accountNumber);
+    completed = simulated.ok
+      ? await approveFromAccount(transaction, "pending", account)
+      : await finalizePayment(transaction, "pending", { failureCode: simulated.failureCode, failureReason: simulated.failureReason }, account);
+  }
+
+  if (completed) return { ok: true, transaction: completed };
+  const latest = await storage.getTransaction(transaction.id);
+  return { ok: false, reason: "not_pending", transaction: latest ?? transaction };
+}
+
+export async function failExpiredBankSessions(now = new Date()): Promise<number> {
+  const expired = await storage.listExpiredBankSessions(now.toISOString());
+  let count = 0;
+  for (const transaction of expired) {
+    if (await finalizePayment(transaction, "pending", sessionExpired)) count++;
+  }
+  return count;
+}
+
+// Session timeout sweep (NETBANKING_SWEEP_INTERVAL_MS, default 60s) for
+// customers who never come back from the bank's page
+export function startBankSessionSweeper() {
+  const timer = setInterval(() => {
+    failExpiredBankSessions().catch((err) => console.error("Netbanking session sweep failed:", err));
+  }, positiveIntFromEnv("NETBANKING_SWEEP_INTERVAL_MS", 60_000));
+  timer.unref();
+  return timer;
+}
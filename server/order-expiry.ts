@@ -0,0 +1,48 @@
+import type { OrderEventPayload, V2Order } from "@shared/schema";
+import { storage } from "./storage";
+import { sendOrderWebhook } from "./webhooks";
+import { allowedSources } from "./order-state";
+import { positiveIntFromEnv } from "./env";
+
+// Move an order to EXPIRED and tell the merchant; undefined if it was paid,
+// cancelled or already expired in the meantime.
+export async function expireOrder(order: V2Order): Promise<V2Order | undefined> {
+  const expired = await storage.transitionV2Order(order.gateway_order_id, "EXPIRED");
+  if (!expired) return undefined;
+
+  const payload: OrderEventPayload = {
+    event: "order.expired",
+    gateway_order_id: expired.gateway_order_id,
+    merchant_order_id: expired.merchant_order_id,
+    status: expired.status,
+    amount_in_paisa: expired.amount_in_paisa,
+    currency: expired.currency,
+    expires_at: expired.expires_at,
+    occurred_at: expired.updated_at,
+    test_mode: expired.test_mode,
+    metadata: expired.metadata,
+  };
+  await sendOrderWebhook(expired, payload, `${expired.gateway_order_id}:expired`);
+  return expired;
+}
+
+export async function expireStaleOrders(now = new Date()): Promise<number> {
+  // only orders that can still expire, so the sweep skips finished ones
+  const stale = await storage.listV2Orders({ status: allowedSources("EXPIRED"), expires_before: now.toISOString() });
+  let count = 0;
+  for (const order of stale) {
+    if (await expireOrder(order)) count++;
+  }
+  return count;
+}
+
+// Background sweep (ORDER_EXPIRY_SWEEP_INTERVAL_MS, default 60s). Orders are
+// also expired lazily when someone tries to pay them, so this only bounds how
+// long a stale order keeps showing as payable.
+export function startOrderExpirySweeper() {
+  const timer = setInterval(() => {
+    expireStaleOrders().catch((err) => console.error("Order expiry sweep failed:", err));
+  }, positiveIntFromEnv("ORDER_EXPIRY_SWEEP_INTERVAL_MS", 60_000));
+  timer.unref();
+  return timer;
+}
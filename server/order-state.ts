@@ -0,0 +1,42 @@
+import type { V2Order, V2OrderStatus } from "@shared/schema";
+import { positiveIntFromEnv } from "./env";
+
+/**
+ * v2 order lifecycle. A payment attempt moves a payable order to ATTEMPTED
+ * and then to COMPLETED or FAILED; a FAILED order may be attempted again.
+ * With manual capture the attempt ends in AUTHORIZED instead, which a capture
+ * completes and a void cancels. COMPLETED, EXPIRED and CANCELLED are terminal.
+ */
+export const v2OrderTransitions: Record<V2OrderStatus, readonly V2OrderStatus[]> = {
+  CREATED: ["ATTEMPTED", "EXPIRED", "CANCELLED"],
+  ATTEMPTED: ["AUTHORIZED", "COMPLETED", "FAILED"],
+  AUTHORIZED: ["COMPLETED", "CANCELLED"],
+  FAILED: ["ATTEMPTED", "EXPIRED", "CANCELLED"],
+  COMPLETED: [],
+  EXPIRED: [],
+  CANCELLED: [],
+};
+
+export function canTransition(from: V2OrderStatus, to: V2OrderStatus) {
+  return v2OrderTransitions[from].includes(to);
+}
+
+// statuses an order may be in for a move to `to` to be allowed
+export function allowedSources(to: V2OrderStatus): V2OrderStatus[] {
+  return (Object.keys(v2OrderTransitions) as V2OrderStatus[]).filter((from) => canTransition(from, to));
+}
+
+// Default lifetime of an order created without expires_at (ORDER_EXPIRY_MINUTES, default 24h)
+export function defaultOrderExpiry(now = Date.now()) {
+  const ttl = positiveIntFromEnv("ORDER_EXPIRY_MINUTES", 24 * 60) * 60 * 1000;
+  return new Date(now + ttl).toISOString();
+}
+
+export function isPastExpiry(order: V2Order, now = Date.now()) {
+  return !!order.expires_at && new Date(order.expires_at).getTime() <= now;
+}
+
+// Whether a new payment attempt may start on the order
+export function isPayable(order: V2Order, now = Date.now()) {
+  return canTransition(order.status, "ATTEMPTED") && !isPastExpiry(order, now);
+}
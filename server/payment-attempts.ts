@@ -0,0 +1,91 @@
+import type { BankAccount, Transaction, V2Order } from "@shared/schema";
+import { storage, type AwaitingStatus, type TransactionOutcome } from "./storage";
+import { paymentWebhookPayload, sendOrderWebhook } from "./webhooks";
+import { authorizationExpiry } from "./holds";
+import { bankAccountJournal } from "./ledger";
+import { settlePendingCardVault } from "./card-vault";
+
+const attemptOutcomes = {
+  success: { orderStatus: "COMPLETED", event: "payment.succeeded" },
+  authorized: { orderStatus: "AUTHORIZED", event: "payment.authorized" },
+  failed: { orderStatus: "FAILED", event: "payment.failed" },
+} as const;
+
+// Move an ATTEMPTED v2 order on once its payment has an outcome and tell the
+// merchant; FAILED orders can be attempted again.
+export async function settleAttempt(order: V2Order, transaction: Transaction) {
+  const outcome = attemptOutcomes[transaction.status as keyof typeof attemptOutcomes];
+  if (!outcome) throw new Error(`payment ${transaction.id} is ${transaction.status}, not settled`);
+
+  // only money taken counts as paid; authorizations get paid_at at capture
+  const paidAt = transaction.status === "success" ? new Date().toISOString() : undefined;
+  const settled = await storage.transitionV2Order(order.gateway_order_id, outcome.orderStatus, {
+    paid_at: paidAt,
+    transaction_id: transaction.id,
+  });
+
+  const payload = paymentWebhookPayload(settled ?? order, transaction, outcome.event, { paid_at: paidAt });
+  // stored before we answer; the outbox worker delivers it
+  await sendOrderWebhook(settled ?? order, payload, transaction.id);
+}
+
+export interface PaymentFailure {
+  failureCode: string;
+  failureReason: string;
+}
+
+// Finalize a payment that was waiting on the customer: it fails with
+// `failure`, or succeeds (authorized only, for manual-capture orders). v2
+// orders are settled too. Undefined if another request finalized it first.
+export async function finalizePayment(
+  transaction: Transaction,
+  from: AwaitingStatus,
+  failure?: PaymentFailure,
+  account?: Pick<BankAccount, "id" | "bankName">,
+): Promise<Transaction | undefined> {
+  const order = transaction.orderId.startsWith("gw_") ? await storage.getV2Order(transaction.orderId) : undefined;
+  const outcome: TransactionOutcome = failure
+    ? { status: "failed", ...failure }
+    : order?.payment_capture === "manual"
+      ? { status: "authorized", authorizationExpiresAt: authorizationExpiry() }
+      : { status: "success" };
+  if (account) Object.assign(outcome, { bankAccountId: account.id, bankName: account.bankName });
+
+  const finished = await storage.completeTransaction(transaction.id, from, outcome);
+  // vaulted before the webhook goes out so it carries the token
+  const completed = finished && (await settlePendingCardVault(finished, order));
+  if (completed && order) await settleAttempt(order, completed);
+  return completed;
+}
+
+const insufficientFunds: PaymentFailure = { failureCode: "insufficient_funds", failureReason: "Insufficient balance in the selected bank account" };
+
+// Approve an awaiting payment that is paid from `account` (a UPI collect, a
+// netbanking redirect): debit it (held, for manual capture), then finalize.
+// The debit is reversed if the payment was finalized some other way meanwhile.
+export async function approveFromAccount(
+  transaction: Transaction,
+  from: AwaitingStatus,
+  account: Pick<BankAccount, "id" | "bankName">,
+): Promise<Transaction | undefined> {
+  const order = transaction.orderId.startsWith("gw_") ? await storage.getV2Order(transaction.orderId) : undefined;
+  const kind = order?.payment_capture === "manual" ? "authorization" : "payment";
+  const debit = await storage.debitIfSufficientFunds(
+    bankAccountJournal(kind, account.id, "debit", transaction.amount, {
+      reference: transaction.orderId,
+      description: `${kind === "authorization" ? "Authorization" : "Payment"} for order ${transaction.orderId}`,
+    }),
+  );
+  if (!debit.ok) return finalizePayment(transaction, from, insufficientFunds, account);
+
+  const completed = await finalizePayment(transaction, from, undefined, account);
+  if (!completed) {
+    await storage.postLedgerJournal(
+      bankAccountJournal(kind, account.id, "credit", transaction.amount, {
+        reference: transaction.id,
+        description: `Reversal of debit for ${transaction.id}`,
+      }),
+    );
+  }
+  return completed;
+}
@@ -0,0 +1,49 @@
+import type { Transaction } from "@shared/schema";
+import { storage, type AuthorizationResult } from "./storage";
+import { paymentWebhookPayload, sendOrderWebhook } from "./webhooks";
+import { positiveIntFromEnv } from "./env";
+
+// Move the v2 order along with its payment and tell the merchant
+async function settleOrder(transaction: Transaction, outcome: "captured" | "voided") {
+  if (!transaction.orderId.startsWith("gw_")) return;
+  const order = await storage.getV2Order(transaction.orderId);
+  if (!order) return;
+
+  const settled = outcome === "captured"
+    ? await storage.transitionV2Order(order.gateway_order_id, "COMPLETED", { paid_at: transaction.capturedAt })
+    : await storage.transitionV2Order(order.gateway_order_id, "CANCELLED");
+  const event = outcome === "captured" ? "payment.captured" : "payment.voided";
+  const paidAt = outcome === "captured" ? transaction.capturedAt : undefined;
+  await sendOrderWebhook(settled ?? order, paymentWebhookPayload(settled ?? order, transaction, event, { paid_at: paidAt }), `${transaction.id}:${outcome}`);
+}
+
+export async function capturePayment(transactionId: string, amount?: number): Promise<AuthorizationResult> {
+  const result = await storage.captureAuthorization(transactionId, amount);
+  if (result.ok) await settleOrder(result.transaction, "captured");
+  return result;
+}
+
+export async function voidPayment(transactionId: string): Promise<AuthorizationResult> {
+  const result = await storage.voidAuthorization(transactionId);
+  if (result.ok) await settleOrder(result.transaction, "voided");
+  return result;
+}
+
+export async function voidExpiredAuthorizations(now = new Date()): Promise<number> {
+  const expired = await storage.listExpiredAuthorizations(now.toISOString());
+  let count = 0;
+  for (const transaction of expired) {
+    if ((await voidPayment(transaction.id)).ok) count++;
+  }
+  return count;
+}
+
+// Auto-void sweep (AUTHORIZATION_SWEEP_INTERVAL_MS, default 60s) that
+// releases held funds the merchant never captured
+export function startAuthorizationSweeper() {
+  const timer = setInterval(() => {
+    voidExpiredAuthorizations().catch((err) => console.error("Authorization sweep failed:", err));
+  }, positiveIntFromEnv("AUTHORIZATION_SWEEP_INTERVAL_MS", 60_000));
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,52 @@
+import type { LedgerEntry, LedgerJournal, Refund, Transaction } from "@shared/schema";
+import { paisaToRupees, rupeesToPaisa } from "@shared/money";
+import { bankAccountJournal } from "./ledger";
+
+export type RefundPlan =
+  | { ok: true; amount: number }
+  | { ok: false; reason: "not_refundable" }
+  | { ok: false; reason: "exceeds_refundable"; refundable: number };
+
+// Sum of processed refunds, in rupees
+export function refundedAmount(refunds: Refund[]) {
+  const paisa = refunds.filter((r) => r.status === "processed").reduce((sum, r) => sum + rupeesToPaisa(r.amount), 0);
+  return paisaToRupees(paisa);
+}
+
+export function refundableAmount(transaction: Transaction, refunds: Refund[]) {
+  // a partially captured authorization only took capturedAmount
+  const captured = transaction.capturedAmount ?? transaction.amount;
+  return paisaToRupees(rupeesToPaisa(captured) - rupeesToPaisa(refundedAmount(refunds)));
+}
+
+/**
+ * Decide how much a new refund may take. Only successful transactions are
+ * refundable, and processed refunds can never add up to more than was
+ * captured. Amounts are compared in paisa so partial refunds don't drift.
+ */
+export function planRefund(transaction: Transaction, refunds: Refund[], requested?: number): RefundPlan {
+  if (transaction.status !== "success") return { ok: false, reason: "not_refundable" };
+  const refundable = refundableAmount(transaction, refunds);
+  const amount = requested ?? refundable;
+  if (rupeesToPaisa(amount) <= 0 || rupeesToPaisa(amount) > rupeesToPaisa(refundable)) {
+    return { ok: false, reason: "exceeds_refundable", refundable };
+  }
+  return { ok: true, amount: paisaToRupees(rupeesToPaisa(amount)) };
+}
+
+// Money goes back into the account a netbanking or UPI payment was debited from
+export function refundJournal(transaction: Transaction & { bankAccountId: string }, refund: Pick<Refund, "id" | "amount">): LedgerJournal {
+  return bankAccountJournal("refund", transaction.bankAccountId, "credit", refund.amount, {
+    reference: refund.id,
+    description: `Refund ${refund.id} for ${transaction.id}`,
+  });
+}
+
+// Whether the payment took money from its bankAccountId; `entries` are that account's ledger legs
+export function debitedAccount(transaction: Transaction, entries: LedgerEntry[]): transaction is Transaction & { bankAccountId: string } {
+  return entries.some((entry) =>
+    entry.accountId === transaction.bankAccountId
+    && entry.direction === "debit"
+    && (entry.kind === "payment" || entry.kind === "authorization")
+    && entry.reference === transaction.orderId);
+}
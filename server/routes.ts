@@ -1,8 +1,72 @@
-import type { Express } from "express";
+import type { Express, NextFunction, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertBankAccountSchema, insertOrderSchema, processPaymentSchema, createOrderV2Schema, webhookPayloadSchema } from "@shared/schema";
-import { sendSignedWebhook } from "./webhooks";
+import { insertBankAccountSchema, insertOrderSchema, processPaymentSchema, createOrderV2Schema, ledgerAdjustmentSchema, createRefundSchema, createApiKeySchema, rotateWebhookSecretSchema, webhookOutboxQuerySchema, apiKeyModes, capturePaymentSchema, authenticatePaymentSchema, resolveCollectSchema, insertVpaSchema, bankLoginSchema, completeBankSessionSchema, insertMerchantSchema, updateMerchantSchema, scenarioCatalogSchema, type CardToken, type HostedCheckoutOrder, type RefundEventPayload, type Transaction, type TransactionStatus, type V2Order } from "@shared/schema";
+import { paymentStatusLabel, sendOrderWebhook } from "./webhooks";
+import { authorizationExpiry } from "./holds";
+import { capturePayment, voidPayment } from "./payment-capture";
+import { settleAttempt } from "./payment-attempts";
+import { authenticatePayment, newChallenge, requiresChallenge } from "./three-ds";
+import { collectExpiry, resolveCollect, startCollect } from "./upi-collect";
+import { bankAccountJournal, deriveBalance } from "./ledger";
+import { paisaToRupees, rupeesToPaisa } from "@shared/money";
+import { normalizeVpa } from "@shared/upi";
+import { cardExpired, checkCvv, validateCard, type CardSummary } from "@shared/cards";
+import { beginIdempotentRequest, settleIdempotentRequest, abandonIdempotentRequest, type IdempotentRequest } from "./idempotency";
+import { DuplicateOrderError } from "./errors";
+import { defaultOrderExpiry, isPastExpiry, isPayable } from "./order-state";
+import { expireOrder } from "./order-expiry";
+import { pendingCardVault, scenarioCardFor, serializeCardToken, tokenBelongsTo, vaultCard } from "./card-vault";
+import { findScenario, getScenarioCatalog, replaceScenarioCatalog, simulatePayment, type SimulatedOutcome } from "./scenarios";
+import { orderUpiIntent, resolveVpa } from "./upi";
+import { enabledPaymentMethods, isRegisteredUrl } from "./merchants";
+import { issueApiKey, merchantAuth, ownsOrder, requireApiKey, serializeApiKey } from "./api-keys";
+import { isAdmin, requireAdmin } from "./admin-auth";
+import { kickWebhookWorker } from "./webhook-outbox";
+import { createWebhookSecrets, listWebhookSecrets, rotateWebhookSecret, serializeWebhookSecret } from "./webhook-secrets";
+import { bankAccountsAt, bankReturnUrl, completeBankSession, loginToBank, newBankSession, serializeBankSession, type BankSessionResult } from "./netbanking";
+
+// Hosted checkout page (client/src/pages/hosted-checkout.tsx); the token unlocks the customer's details
+function checkoutRedirectUrl(gatewayOrderId: string, token: string) {
+  const base = process.env.GATEWAY_PUBLIC_URL ?? "https://localhost:5000";
+  return `${base}/checkout?gw_order=${gatewayOrderId}&token=${encodeURIComponent(token)}`;
+}
+
+// What merchants see when they look an order up; the checkout token stays private
+function serializeV2Order(order: V2Order) {
+  return {
+    gateway_order_id: order.gateway_order_id,
+    merchant_id: order.merchant_id,
+    order_id: order.merchant_order_id,
+    status: order.status,
+    amount_in_paisa: order.amount_in_paisa,
+    currency: order.currency,
+    display_amount: order.display_amount,
+    test_mode: order.test_mode,
+    payment_capture: order.payment_capture,
+    payment_ref: order.transaction_id,
+    created_at: order.created_at,
+    updated_at: order.updated_at,
+    expires_at: order.expires_at,
+    paid_at: order.paid_at,
+  };
+}
+
+// One payment attempt against a v2 order, in the order's webhook vocabulary
+function serializeAttempt(transaction: Transaction) {
+  return {
+    payment_ref: transaction.id,
+    status: paymentStatusLabel(transaction.status),
+    payment_method: transaction.paymentMethod.toUpperCase(),
+    amount_in_paisa: rupeesToPaisa(transaction.amount),
+    card: transaction.cardLast4
+      ? { network: transaction.cardNetwork, last4: transaction.cardLast4, token_id: transaction.cardTokenId }
+      : undefined,
+    failure_code: transaction.failureCode,
+    failure_reason: transaction.failureReason,
+    attempted_at: transaction.timestamp,
+  };
+}
 
 export async function registerRoutes(
   httpServer: Server,
@@ -56,42 +120,104 @@ export async function registerRoutes(
   });
 
   // Enhanced v2 create order endpoint
-  app.post("/api/v2/orders", async (req, res) => {
+  app.post("/api/v2/orders", requireApiKey, async (req, res) => {
+    let idempotency: IdempotentRequest | undefined;
+    const respond = async (code: number, body: unknown) => {
+      await settleIdempotentRequest(idempotency, code, body);
+      return res.status(code).json(body);
+    };
+
     try {
       const parsed = createOrderV2Schema.safeParse(req.body);
       if (!parsed.success) {
         return res.status(400).json({ error: "Validation failed", details: parsed.error.flatten() });
       }
 
-      // basic URL rules: require https, but allow http for localhost during sandbox/testing
+      // the API key decides the merchant and the mode; the merchant must still
+      // be enabled for that mode and own both URLs
+      const { merchant, apiKey } = merchantAuth(res);
+      const { merchant_id } = merchant;
+      const test_mode = apiKey.mode === "test";
       const { return_url, callback_url } = parsed.data;
-      try {
-        const ru = new URL(return_url);
-        const cu = new URL(callback_url);
-        const okReturn = ru.protocol === "https:" || ru.hostname === "localhost" || ru.hostname === "127.0.0.1";
-        const okCallback = cu.protocol === "https:" || cu.hostname === "localhost" || cu.hostname === "127.0.0.1";
-        if (!okReturn || !okCallback) {
-          return res.status(400).json({ error: "ERR_URL_NOT_REGISTERED", message: "return_url and callback_url must be HTTPS and pre-registered" });
-        }
-      } catch (e) {
-        return res.status(400).json({ error: "ERR_URL_NOT_REGISTERED", message: "invalid return_url or callback_url" });
+      if (parsed.data.merchant_id !== undefined && parsed.data.merchant_id !== merchant_id) {
+        return res.status(403).json({ error: "ERR_MERCHANT_MISMATCH", message: "merchant_id does not match the API key's merchant" });
+      }
+      if (parsed.data.test_mode !== undefined && parsed.data.test_mode !== test_mode) {
+        return res.status(400).json({ error: "ERR_MODE_MISMATCH", message: `test_mode must be ${test_mode} with a ${apiKey.mode} key` });
+      }
+      if (test_mode ? !merchant.test_mode : !merchant.live_mode) {
+        return res.status(400).json({ error: "ERR_MODE_NOT_ENABLED", message: `merchant ${merchant_id} is not enabled for ${test_mode ? "test" : "live"} mode` });
+      }
+      if (!isRegisteredUrl(return_url, merchant.return_url_prefixes) || !isRegisteredUrl(callback_url, merchant.callback_url_prefixes)) {
+        return res.status(400).json({ error: "ERR_URL_NOT_REGISTERED", message: "return_url and callback_url must match the merchant's registered URLs" });
       }
 
-      const created = await storage.createOrderV2(parsed.data);
+      // idempotency keys are scoped per merchant; the body field wins over the header
+      const { idempotency_key: bodyKey, ...request } = parsed.data;
+      const payload = { ...request, merchant_id, test_mode };
+      const idempotencyKey = bodyKey ?? req.header("Idempotency-Key");
+      if (idempotencyKey) {
+        const scope = `v2_orders:${merchant_id}`;
+        const started = await beginIdempotentRequest(scope, idempotencyKey, payload);
+        if (started.kind === "replay") {
+          res.setHeader("Idempotent-Replayed", "true");
+          return res.status(started.status).json(started.body);
+        }
+        if (started.kind === "conflict") {
+          return res.status(409).json({ error: "ERR_IDEMPOTENCY_CONFLICT", message: "idempotency_key was already used with a different payload" });
+        }
+        if (started.kind === "in_progress") {
+          return res.status(409).json({ error: "ERR_IDEMPOTENCY_IN_PROGRESS", message: "a request with this idempotency_key is still being processed" });
+        }
+        idempotency = { scope, key: idempotencyKey };
+      }
 
-      return res.status(201).json({
-        gateway_order_id: created.gateway_order_id,
-        redirect_url: created.redirect_url,
-        one_time_order_token: created.one_time_order_token,
-        test_mode: !!parsed.data.test_mode,
+      const orderResponse = (order: V2Order) => ({
+        gateway_order_id: order.gateway_order_id,
+        redirect_url: checkoutRedirectUrl(order.gateway_order_id, order.one_time_order_token),
+        one_time_order_token: order.one_time_order_token,
+        test_mode: order.test_mode,
       });
+
+      try {
+        const created = await storage.createOrderV2({
+          ...payload,
+          expires_at: payload.expires_at ?? defaultOrderExpiry(),
+          idempotency_key: idempotencyKey,
+        });
+        return respond(201, orderResponse(created));
+      } catch (err) {
+        if (!(err instanceof DuplicateOrderError)) throw err;
+      }
+
+      // (merchant_id, order_id) is unique: hand back the existing order while it can still be paid
+      const existing = await storage.getOrderByMerchantId(payload.merchant_id, payload.order_id);
+      if (!existing || existing.status === "COMPLETED") {
+        return respond(409, { error: "ERR_DUPLICATE_ORDER", message: `order_id ${payload.order_id} has already been paid` });
+      }
+      if (!isPayable(existing)) {
+        return respond(409, { error: "ERR_DUPLICATE_ORDER", message: `order_id ${payload.order_id} is ${existing.status.toLowerCase()} and can no longer be paid` });
+      }
+      if (existing.amount_in_paisa !== payload.amount_in_paisa || existing.currency !== payload.currency) {
+        return respond(409, { error: "ERR_DUPLICATE_ORDER", message: `order_id ${payload.order_id} already exists with a different amount` });
+      }
+      return respond(200, orderResponse(existing));
     } catch (error) {
       console.error("Error creating v2 order:", error);
+      if (idempotency) await abandonIdempotentRequest(idempotency.scope, idempotency.key).catch(() => undefined);
       return res.status(500).json({ error: "Failed to create order" });
     }
   });
 
   app.post("/api/process-payment", async (req, res) => {
+    let idempotency: IdempotentRequest | undefined;
+    // a v2 order we moved to ATTEMPTED and must not leave there
+    let attemptedOrderId: string | undefined;
+    const respond = async (code: number, body: unknown) => {
+      await settleIdempotentRequest(idempotency, code, body);
+      return res.status(code).json(body);
+    };
+
     try {
       const parsed = processPaymentSchema.safeParse(req.body);
       if (!parsed.success) {
@@ -101,172 +227,410 @@ export async function registerRoutes(
         });
       }
 
-      const { orderId, amount, paymentMethod, bankAccountId, cardDetails, upiId } = parsed.data;
+      const { idempotencyKey: bodyKey, ...payment } = parsed.data;
+      const { orderId, paymentMethod, bankAccountId, cardDetails, upiId } = payment;
 
-      let order = await storage.getOrder(orderId);
+      const idempotencyKey = bodyKey ?? req.header("Idempotency-Key");
+      if (idempotencyKey) {
+        const scope = `process_payment:${orderId}`;
+        const started = await beginIdempotentRequest(scope, idempotencyKey, payment);
+        if (started.kind === "replay") {
+          res.setHeader("Idempotent-Replayed", "true");
+          return res.status(started.status).json(started.body);
+        }
+        if (started.kind === "conflict") {
+          return res.status(409).json({ error: "ERR_IDEMPOTENCY_CONFLICT", message: "idempotencyKey was already used with a different payment" });
+        }
+        if (started.kind === "in_progress") {
+          return res.status(409).json({ error: "ERR_IDEMPOTENCY_IN_PROGRESS", message: "a payment with this idempotencyKey is still being processed" });
+        }
+        idempotency = { scope, key: idempotencyKey };
+      }
+
+      const order = await storage.getOrder(orderId);
       // support v2 gateway order ids (gw_...)
-      if (!order && orderId && orderId.startsWith("gw_")) {
-        // @ts-ignore
-        const v2 = await storage.getV2Order(orderId);
-        if (!v2) return res.status(404).json({ error: "Order not found" });
-        // keep order undefined for v2 flows; v2 handling occurs later
-      } else if (!order) {
-        return res.status(404).json({ error: "Order not found" });
+      const v2 = !order && orderId.startsWith("gw_") ? await storage.getV2Order(orderId) : undefined;
+      if (!order && !v2) {
+        return respond(404, { error: "Order not found" });
       }
 
-      let status: "success" | "failed" = "success";
-      let failureReason: string | undefined;
-      let bankName: string | undefined;
+      if (v2 && !enabledPaymentMethods(await storage.getMerchant(v2.merchant_id)).includes(paymentMethod)) {
+        return respond(400, { error: "ERR_PAYMENT_METHOD_NOT_ENABLED", message: `${paymentMethod} payments are not enabled for this merchant` });
+      }
+
+      const alreadyPaid = v2
+        ? v2.status === "COMPLETED"
+        : (await storage.getTransactionsByOrderId(orderId)).some((t) => t.status === "success");
+      if (alreadyPaid) {
+        return respond(409, { error: "ERR_ORDER_ALREADY_COMPLETED", message: "this order has already been paid" });
+      }
+      if (v2 && v2.status === "AUTHORIZED") {
+        return respond(409, { error: "ERR_ORDER_ALREADY_AUTHORIZED", message: "a payment for this order is authorized and awaiting capture" });
+      }
+      if (v2 && v2.status === "CANCELLED") {
+        return respond(409, { error: "ERR_ORDER_CANCELLED", message: "this order has been cancelled" });
+      }
+      if (v2 && (v2.status === "EXPIRED" || isPastExpiry(v2))) {
+        if (v2.status !== "EXPIRED") await expireOrder(v2);
+        return respond(409, { error: "ERR_ORDER_EXPIRED", message: "this order has expired" });
+      }
+
+      // never trust the browser's amount: charge what the order says
+      const chargePaisa = v2 ? v2.amount_in_paisa : rupeesToPaisa(order!.amount);
+      const amount = paisaToRupees(chargePaisa);
+      if (payment.amount !== undefined && rupeesToPaisa(payment.amount) !== chargePaisa) {
+        return respond(400, {
+          error: "ERR_AMOUNT_MISMATCH",
+          message: `amount ${payment.amount} does not match the order amount of ${amount} rupees`,
+        });
+      }
 
-      if (paymentMethod === "netbanking" && bankAccountId) {
-        const bankAccount = await storage.getBankAccount(bankAccountId);
-        if (!bankAccount) {
-          return res.status(404).json({ error: "Bank account not found" });
+      // reject malformed cards up front; only a summary of the card is kept
+      let card: CardSummary | undefined;
+      let cardToken: CardToken | undefined;
+      if (paymentMethod === "card" && payment.savedCard) {
+        const { tokenId, cvv } = payment.savedCard;
+        cardToken = await storage.getCardToken(tokenId);
+        if (!cardToken || !tokenBelongsTo(cardToken, v2)) {
+          return respond(404, { error: "ERR_CARD_TOKEN_NOT_FOUND", message: "no saved card with that tokenId for this order's customer" });
+        }
+        if (cardExpired(cardToken.expiry_month, cardToken.expiry_year)) {
+          return respond(400, { error: "ERR_INVALID_CARD", code: "expired_card", message: "Saved card has expired" });
+        }
+        const cvvError = checkCvv(cardToken.network, cvv);
+        if (cvvError) {
+          return respond(400, { error: "ERR_INVALID_CARD", code: cvvError.code, message: cvvError.message });
+        }
+        card = { network: cardToken.network, last4: cardToken.last4, expiryMonth: cardToken.expiry_month, expiryYear: cardToken.expiry_year };
+      } else if (paymentMethod === "card") {
+        if (!cardDetails) {
+          return respond(400, { error: "ERR_INVALID_CARD", code: "invalid_number", message: "cardDetails are required for card payments" });
         }
+        const validation = validateCard(cardDetails);
+        if (!validation.ok) {
+          return respond(400, { error: "ERR_INVALID_CARD", code: validation.code, message: validation.message });
+        }
+        card = validation.card;
+      }
+      // new cards can be vaulted for the v2 order's customer
+      const saveCardFor = payment.saveCard && card && !cardToken ? v2?.customer?.customer_id : undefined;
+      if (payment.saveCard && card && !cardToken && !saveCardFor) {
+        return respond(400, { error: "ERR_CUSTOMER_REQUIRED", message: "saveCard needs a v2 order with a customer.customer_id" });
+      }
 
-        bankName = bankAccount.bankName;
+      // the netbanking redirect needs a bank the customer can log in to
+      const redirect = paymentMethod === "netbanking" && payment.netbankingFlow === "redirect";
+      if (redirect && (await bankAccountsAt(payment.bankName)).length === 0) {
+        return respond(404, { error: "ERR_BANK_NOT_FOUND", message: "bankName must name a bank with at least one account" });
+      }
 
-        if (bankAccount.balance < amount) {
-          status = "failed";
-          failureReason = "Insufficient balance in the selected bank account";
-        } else {
-          await storage.updateBankAccountBalance(bankAccountId, bankAccount.balance - amount);
+      // claiming the attempt also stops two payments running against one order
+      if (v2) {
+        if (!(await storage.transitionV2Order(v2.gateway_order_id, "ATTEMPTED"))) {
+          return respond(409, { error: "ERR_PAYMENT_IN_PROGRESS", message: "another payment for this order is in progress" });
         }
-      } else if (paymentMethod === "card" && cardDetails) {
-        const lastFourDigits = cardDetails.cardNumber.slice(-4);
-        if (lastFourDigits === "0000") {
-          status = "failed";
-          failureReason = "Card declined by issuer";
-        } else if (lastFourDigits === "1111") {
-          status = "failed";
-          failureReason = "Insufficient funds";
+        attemptedOrderId = v2.gateway_order_id;
+      }
+
+      // manual capture only authorizes now: bank account funds are held, not taken
+      const manualCapture = v2?.payment_capture === "manual";
+      let status: Exclude<TransactionStatus, "voided"> = "success";
+      let failureCode: string | undefined;
+      let failureReason: string | undefined;
+
+      // netbanking names the account (or picks it at the bank, for a redirect);
+      // UPI debits the account its VPA is registered to
+      const account = paymentMethod === "netbanking" && bankAccountId && !redirect
+        ? await storage.getBankAccount(bankAccountId)
+        : paymentMethod === "upi" && upiId ? (await resolveVpa(upiId))?.account : undefined;
+      if (bankAccountId && paymentMethod === "netbanking" && !redirect && !account) {
+        if (attemptedOrderId) await storage.transitionV2Order(attemptedOrderId, "FAILED");
+        return respond(404, { error: "Bank account not found" });
+      }
+      const bankName = redirect ? payment.bankName : account?.bankName;
+      // only registered VPAs and the catalog's test VPAs can pay
+      const unknownVpa = paymentMethod === "upi" && !account && !(upiId && findScenario("upi", upiId));
+
+      // the test scenario catalog decides how the simulated bank answers; a UPI
+      // collect request (server/upi-collect.ts) or a netbanking redirect
+      // (server/netbanking.ts) is answered later
+      const collect = paymentMethod === "upi" && payment.upiFlow === "collect" && !unknownVpa;
+      const cardNumber = cardToken ? scenarioCardFor(cardToken) : cardDetails?.cardNumber;
+      const instrument = paymentMethod === "card" ? cardNumber : paymentMethod === "upi" ? upiId : account?.accountNumber;
+      const simulated: SimulatedOutcome = unknownVpa
+        ? { ok: false, failureCode: "invalid_vpa", failureReason: "The UPI ID is not registered with any bank" }
+        : collect || redirect ? { ok: true } : await simulatePayment(paymentMethod, instrument);
+
+      if (!simulated.ok) {
+        status = "failed";
+        failureCode = simulated.failureCode;
+        failureReason = simulated.failureReason;
+      } else if (account && !collect) {
+        const debit = await storage.debitIfSufficientFunds(
+          bankAccountJournal(manualCapture ? "authorization" : "payment", account.id, "debit", amount, {
+            reference: orderId,
+            description: `${manualCapture ? "Authorization" : "Payment"} for order ${orderId}`,
+          }),
+        );
+        if (!debit.ok && debit.reason === "not_found") {
+          if (attemptedOrderId) await storage.transitionV2Order(attemptedOrderId, "FAILED");
+          return respond(404, { error: "Bank account not found" });
         }
-      } else if (paymentMethod === "upi" && upiId) {
-        if (upiId.includes("fail")) {
+        if (!debit.ok) {
           status = "failed";
-          failureReason = "UPI transaction declined";
+          failureCode = "insufficient_funds";
+          failureReason = "Insufficient balance in the selected bank account";
         }
       }
 
+      // 3-D Secure: the card payment waits on an OTP before it is finalized
+      const challenge = paymentMethod === "card" && simulated.ok && requiresChallenge(amount, !!simulated.challenge)
+        ? newChallenge()
+        : undefined;
+      if (challenge) status = "requires_action";
+      else if (collect || redirect) status = "pending";
+      else if (manualCapture && status === "success") status = "authorized";
+
+      // only a card that paid is saved; a challenged one waits for its OTP
+      if (saveCardFor && v2 && card && cardDetails && (status === "success" || status === "authorized")) {
+        cardToken = await vaultCard(v2.merchant_id, saveCardFor, card, cardDetails);
+      }
+
       const transaction = await storage.createTransaction({
         orderId,
         amount,
         paymentMethod,
-        bankAccountId,
+        // only an account that is debited is recorded (a redirect's is set when the customer picks it)
+        bankAccountId: account?.id,
         bankName,
+        cardNetwork: card?.network,
+        cardLast4: card?.last4,
+        cardExpiryMonth: card?.expiryMonth,
+        cardExpiryYear: card?.expiryYear,
+        cardTokenId: cardToken?.token_id,
         status,
+        failureCode,
         failureReason,
         timestamp: new Date().toISOString(),
+        authorizationExpiresAt: status === "authorized" ? authorizationExpiry() : undefined,
+        collectExpiresAt: collect ? collectExpiry() : undefined,
+        ...challenge,
+        ...(challenge && saveCardFor && cardDetails ? pendingCardVault(saveCardFor, cardDetails) : {}),
+        ...(redirect ? newBankSession() : {}),
       });
 
-      // If this payment was for a v2 order, send signed webhook to merchant's callback_url
-      try {
-        const v2order = await storage.getOrderByMerchantId("", "");
-        // try to find by gateway_order if orderId looks like gw_
-        let v2: any | undefined = undefined;
-        // if orderId looks like a gateway order id we will try direct lookup below
-
-        // simple attempt: check v2orders map via storage (duck-typed)
-        // we will attempt to access storage.v2orders if present (this is in-memory implementation)
-        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+      // a challenged, collect or redirect attempt stays ATTEMPTED until it is finalized
+      if (collect) await startCollect(transaction, upiId);
+      else if (v2 && !challenge && !redirect) await settleAttempt(v2, transaction);
+      attemptedOrderId = undefined;
+
+      return respond(201, transaction);
+    } catch (error) {
+      console.error("Error processing payment:", error);
+      if (attemptedOrderId) await storage.transitionV2Order(attemptedOrderId, "FAILED").catch(() => undefined);
+      if (idempotency) await abandonIdempotentRequest(idempotency.scope, idempotency.key).catch(() => undefined);
+      return res.status(500).json({ error: "Failed to process payment" });
+    }
+  });
+
+  // Return endpoint used after payment to perform server-side session creation (Pattern A demo)
+  app.get("/pay/return", async (req, res) => {
+    try {
+      const gw = (req.query.gw_order || req.query.gateway_order_id || req.query.orderId) as string | undefined;
+      if (!gw) return res.status(400).send("missing gw_order");
+
+      const v2 = await storage.getV2Order(gw);
+      if (!v2) return res.status(404).send("order not found");
+
+      if (v2.status === "COMPLETED") {
+        // create server-side session for the customer (demo)
         // @ts-ignore
-        if ((storage as any).v2orders) {
-          // @ts-ignore
-          v2 = (storage as any).v2orders.get(orderId);
-        }
+        req.session.user = {
+          merchant_id: v2.merchant_id,
+          merchant_order_id: v2.merchant_order_id,
+          customer_id: v2.customer?.customer_id,
+          gateway_order_id: v2.gateway_order_id,
+        };
 
-        if (v2) {
-          // mark order paid/completed in v2 storage for session exchange
-          v2.status = status === "success" ? "COMPLETED" : "FAILED";
-          v2.paid_at = new Date().toISOString();
-          v2.transaction_id = transaction.id;
-
-          const payload = {
-            gateway_order_id: v2.gateway_order_id,
-            merchant_order_id: v2.merchant_order_id,
-            payment_ref: transaction.id,
-            status: status === "success" ? "SUCCESS" : "FAILED",
-            amount_in_paisa: v2.amount_in_paisa,
-            currency: v2.currency,
-            paid_at: new Date().toISOString(),
-            payment_method: paymentMethod.toUpperCase(),
-            card: paymentMethod === "card" && cardDetails ? { network: "", masked: `****${cardDetails.cardNumber.slice(-4)}`, token_id: undefined } : undefined,
-            one_time_order_token: v2.one_time_order_token,
-            test_mode: !!v2.test_mode,
-            metadata: v2.metadata,
-          };
-
-          const raw = JSON.stringify(payload);
-          const secret = v2.test_mode ? process.env.MERCHANT_TEST_WEBHOOK_SECRET ?? "test_secret" : process.env.MERCHANT_WEBHOOK_SECRET ?? "prod_secret";
-
-          // send webhook asynchronously, don't block response
-          sendSignedWebhook({ url: v2.callback_url, body: raw, secret, idempotencyKey: transaction.id, testMode: !!v2.test_mode }).then((r) => {
-            if (!r.success) console.error("Webhook delivery failed for", v2.callback_url);
-          });
+        // If the merchant's return_url is on the same host as the gateway (sandbox flow), we can redirect there.
+        // Otherwise, redirect to a gateway-hosted success page that demonstrates the session was created.
+        const returnUrl = v2.return_url;
+        try {
+          const returnHost = new URL(returnUrl).host;
+          // if return host equals our host, redirect directly
+          if (returnHost === req.headers.host) {
+            return res.redirect(returnUrl);
+          }
+        } catch (e) {
+          // ignore
         }
-      } catch (err) {
-        console.error("Error attempting to send webhook:", err);
+
+        // redirect to gateway demo success page that reads session
+        return res.redirect(`/merchant/success?gw_order=${encodeURIComponent(gw)}`);
       }
 
-      return res.status(201).json(transaction);
+      return res.redirect(`${v2.return_url}?status=${encodeURIComponent(v2.status)}`);
+    } catch (err) {
+      console.error("/pay/return error", err);
+      return res.status(500).send("internal error");
+    }
+  });
 
-    // Return endpoint used after payment to perform server-side session creation (Pattern A demo)
-    app.get("/pay/return", async (req, res) => {
-      try {
-        const gw = (req.query.gw_order || req.query.gateway_order_id || req.query.orderId) as string | undefined;
-        if (!gw) return res.status(400).send("missing gw_order");
+  // Demo merchant success route: shows session information (for sandbox/demo only)
+  app.get("/merchant/success", (req, res) => {
+    // @ts-ignore
+    const user = req.session?.user;
+    if (!user) return res.status(403).send("no session");
 
-        // try to fetch v2 order
-        // @ts-ignore
-        const v2 = await storage.getV2Order(gw);
-        if (!v2) return res.status(404).send("order not found");
-
-        if (v2.status === "COMPLETED") {
-          // create server-side session for the customer (demo)
-          // @ts-ignore
-          req.session.user = {
-            merchant_id: v2.merchant_id,
-            merchant_order_id: v2.merchant_order_id,
-            customer_id: v2.customer?.customer_id,
-            gateway_order_id: v2.gateway_order_id,
-          };
-
-          // If the merchant's return_url is on the same host as the gateway (sandbox flow), we can redirect there.
-          // Otherwise, redirect to a gateway-hosted success page that demonstrates the session was created.
-          const returnUrl = v2.return_url;
-          try {
-            const returnHost = new URL(returnUrl).host;
-            // if return host equals our host, redirect directly
-            if (returnHost === req.headers.host) {
-              return res.redirect(returnUrl);
-            }
-          } catch (e) {
-            // ignore
-          }
+    res.setHeader("Content-Type", "text/html;charset=utf-8");
+    res.end(`<!doctype html><html><head><meta charset="utf-8"><title>Merchant Success</title></head><body><h1>Logged in (demo)</h1><pre>${JSON.stringify(user,null,2)}</pre><p>This demonstrates server-side session creation on payment completion (Pattern A demo).</p></body></html>`);
+  });
 
-          // redirect to gateway demo success page that reads session
-          return res.redirect(`/merchant/success?gw_order=${encodeURIComponent(gw)}`);
-        }
+  app.get("/api/v2/merchants/:merchant_id/orders/:order_id", requireApiKey, async (req, res) => {
+    try {
+      if (req.params.merchant_id !== merchantAuth(res).merchant.merchant_id) {
+        return res.status(403).json({ error: "ERR_MERCHANT_MISMATCH", message: "the API key belongs to a different merchant" });
+      }
+      const order = await storage.getOrderByMerchantId(req.params.merchant_id, req.params.order_id);
+      if (!order || !ownsOrder(merchantAuth(res), order)) {
+        return res.status(404).json({ error: "ERR_ORDER_NOT_FOUND", message: "no order with that order_id for this merchant" });
+      }
+      return res.json(serializeV2Order(order));
+    } catch (error) {
+      console.error("Error fetching v2 order:", error);
+      return res.status(500).json({ error: "Failed to fetch order" });
+    }
+  });
 
-        return res.redirect(`${v2.return_url}?status=${encodeURIComponent(v2.status || "PENDING")}`);
-      } catch (err) {
-        console.error("/pay/return error", err);
-        return res.status(500).send("internal error");
+  app.get("/api/v2/merchants/:merchant_id/customers/:customer_id/cards", requireApiKey, async (req, res) => {
+    try {
+      if (req.params.merchant_id !== merchantAuth(res).merchant.merchant_id) {
+        return res.status(403).json({ error: "ERR_MERCHANT_MISMATCH", message: "the API key belongs to a different merchant" });
       }
-    });
+      const tokens = await storage.listCardTokens(req.params.merchant_id, req.params.customer_id);
+      return res.json(tokens.map(serializeCardToken));
+    } catch (error) {
+      console.error("Error listing saved cards:", error);
+      return res.status(500).json({ error: "Failed to list saved cards" });
+    }
+  });
 
-    // Demo merchant success route: shows session information (for sandbox/demo only)
-    app.get("/merchant/success", (req, res) => {
-      // @ts-ignore
-      const user = req.session?.user;
-      if (!user) return res.status(403).send("no session");
+  app.delete("/api/v2/merchants/:merchant_id/customers/:customer_id/cards/:token_id", requireApiKey, async (req, res) => {
+    try {
+      if (req.params.merchant_id !== merchantAuth(res).merchant.merchant_id) {
+        return res.status(403).json({ error: "ERR_MERCHANT_MISMATCH", message: "the API key belongs to a different merchant" });
+      }
+      const token = await storage.getCardToken(req.params.token_id);
+      if (!token || token.merchant_id !== req.params.merchant_id || token.customer_id !== req.params.customer_id) {
+        return res.status(404).json({ error: "ERR_CARD_TOKEN_NOT_FOUND", message: "no saved card with that token_id for this customer" });
+      }
+      await storage.deleteCardToken(token.token_id);
+      return res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting saved card:", error);
+      return res.status(500).json({ error: "Failed to delete saved card" });
+    }
+  });
 
-      res.setHeader("Content-Type", "text/html;charset=utf-8");
-      res.end(`<!doctype html><html><head><meta charset="utf-8"><title>Merchant Success</title></head><body><h1>Logged in (demo)</h1><pre>${JSON.stringify(user,null,2)}</pre><p>This demonstrates server-side session creation on payment completion (Pattern A demo).</p></body></html>`);
-    });
+  app.get("/api/v2/orders/:gateway_order_id", requireApiKey, async (req, res) => {
+    try {
+      const order = await storage.getV2Order(req.params.gateway_order_id);
+      if (!order || !ownsOrder(merchantAuth(res), order)) {
+        return res.status(404).json({ error: "ERR_ORDER_NOT_FOUND", message: "no order with that gateway_order_id" });
+      }
+      const attempts = (await storage.getTransactionsByOrderId(order.gateway_order_id)).reverse();
+      return res.json({ ...serializeV2Order(order), attempts: attempts.map(serializeAttempt) });
     } catch (error) {
-      console.error("Error processing payment:", error);
-      return res.status(500).json({ error: "Failed to process payment" });
+      console.error("Error fetching v2 order:", error);
+      return res.status(500).json({ error: "Failed to fetch order" });
+    }
+  });
+
+  // Used by the hosted checkout page; the one-time token, when given, must match.
+  // The customer, plan, return URL and saved cards are only shown to a caller holding the token.
+  app.get("/api/v2/checkout/:gateway_order_id", async (req, res) => {
+    try {
+      const order = await storage.getV2Order(req.params.gateway_order_id);
+      if (!order) {
+        return res.status(404).json({ error: "ERR_ORDER_NOT_FOUND", message: "no order with that gateway_order_id" });
+      }
+      const token = req.query.token;
+      const hasToken = typeof token === "string";
+      if (hasToken && token !== order.one_time_order_token) {
+        return res.status(403).json({ error: "ERR_INVALID_ORDER_TOKEN", message: "one_time_order_token does not match this order" });
+      }
+      const checkout: HostedCheckoutOrder = {
+        gateway_order_id: order.gateway_order_id,
+        merchant_id: order.merchant_id,
+        order_id: order.merchant_order_id,
+        status: order.status,
+        payable: isPayable(order),
+        amount_in_paisa: order.amount_in_paisa,
+        currency: order.currency,
+        display_amount: order.display_amount,
+        customer: hasToken ? order.customer : undefined,
+        plan: hasToken ? order.plan : undefined,
+        return_url: hasToken ? order.return_url : undefined,
+        test_mode: order.test_mode,
+        expires_at: order.expires_at,
+        saved_cards: hasToken && order.customer
+          ? (await storage.listCardTokens(order.merchant_id, order.customer.customer_id)).map(serializeCardToken)
+          : undefined,
+        payment_methods: enabledPaymentMethods(await storage.getMerchant(order.merchant_id)),
+      };
+      return res.json(checkout);
+    } catch (error) {
+      console.error("Error loading checkout order:", error);
+      return res.status(500).json({ error: "Failed to load order" });
+    }
+  });
+
+  app.post("/api/v2/orders/:gateway_order_id/cancel", requireApiKey, async (req, res) => {
+    try {
+      const order = await storage.getV2Order(req.params.gateway_order_id);
+      if (!order || !ownsOrder(merchantAuth(res), order)) {
+        return res.status(404).json({ error: "ERR_ORDER_NOT_FOUND", message: "no order with that gateway_order_id" });
+      }
+      // cancelling twice is harmless
+      if (order.status === "CANCELLED") return res.json(serializeV2Order(order));
+      if (order.status !== "EXPIRED" && isPastExpiry(order)) await expireOrder(order);
+      // cancelling an authorized order voids the authorization, releasing the hold
+      if (order.status === "AUTHORIZED" && order.transaction_id) {
+        const voided = await voidPayment(order.transaction_id);
+        const current = voided.ok ? await storage.getV2Order(order.gateway_order_id) : undefined;
+        if (current?.status === "CANCELLED") return res.json(serializeV2Order(current));
+      }
+
+      const cancelled = await storage.transitionV2Order(order.gateway_order_id, "CANCELLED");
+      if (cancelled) return res.json(serializeV2Order(cancelled));
+
+      // lost to a payment or the expiry sweep; report the state it ended up in
+      const current = (await storage.getV2Order(order.gateway_order_id)) ?? order;
+      if (current.status === "CANCELLED") return res.json(serializeV2Order(current));
+      const rejections: Partial<Record<V2Order["status"], [string, string]>> = {
+        COMPLETED: ["ERR_ORDER_ALREADY_COMPLETED", "this order has already been paid"],
+        ATTEMPTED: ["ERR_PAYMENT_IN_PROGRESS", "a payment for this order is in progress"],
+        EXPIRED: ["ERR_ORDER_EXPIRED", "this order has expired"],
+      };
+      const [error, message] = rejections[current.status] ?? ["ERR_ORDER_NOT_CANCELLABLE", `an order in status ${current.status} cannot be cancelled`];
+      return res.status(409).json({ error, message });
+    } catch (error) {
+      console.error("Error cancelling v2 order:", error);
+      return res.status(500).json({ error: "Failed to cancel order" });
+    }
+  });
+
+  // upi://pay intent and QR code for paying an order (v1 id or gw_...) from a UPI app
+  app.get("/api/orders/:id/upi-intent", async (req, res) => {
+    try {
+      const order = (await storage.getOrder(req.params.id)) ?? (await storage.getV2Order(req.params.id));
+      if (!order) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+      return res.json(await orderUpiIntent(order));
+    } catch (error) {
+      console.error("Error building UPI intent:", error);
+      return res.status(500).json({ error: "Failed to build UPI intent" });
     }
   });
 
@@ -283,6 +647,346 @@ export async function registerRoutes(
     }
   });
 
+  // v2 payment endpoints only see payments for the API key's own orders
+  const requireOwnPayment = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const transaction = await storage.getTransaction(req.params.id);
+      const order = transaction?.orderId.startsWith("gw_") ? await storage.getV2Order(transaction.orderId) : undefined;
+      if (!order || !ownsOrder(merchantAuth(res), order)) {
+        return res.status(404).json({ error: "ERR_PAYMENT_NOT_FOUND", message: "no payment with that payment_ref" });
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Unauthenticated routes kept for v1 payments and the dashboard; each points at
+  // its keyed successor, and v2 payments need that route or the admin token
+  const deprecatedFor = (successor: string) => async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const successorPath = successor.replace(":id", encodeURIComponent(req.params.id));
+      res.setHeader("Deprecation", "true");
+      res.setHeader("Link", `<${successorPath}>; rel="successor-version"`);
+      const transaction = await storage.getTransaction(req.params.id);
+      if (transaction?.orderId.startsWith("gw_") && !isAdmin(req)) {
+        return res.status(403).json({ error: "ERR_API_KEY_REQUIRED", message: `payments of merchant orders are managed with an API key at ${successorPath}` });
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Manual-capture payments: capture all or part of an authorization, or void it
+  const capturePaymentHandler = async (req: Request, res: Response) => {
+    try {
+      const parsed = capturePaymentSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Validation failed", details: parsed.error.flatten() });
+      }
+      const result = await capturePayment(req.params.id, parsed.data.amount);
+      if (result.ok) return res.json(result.transaction);
+      if (result.reason === "not_found") return res.status(404).json({ error: "ERR_PAYMENT_NOT_FOUND", message: "no payment with that id" });
+      if (result.reason === "not_authorized") {
+        return res.status(409).json({ error: "ERR_PAYMENT_NOT_AUTHORIZED", message: `payment is ${result.transaction.status}; only authorized payments can be captured` });
+      }
+      return res.status(400).json({
+        error: "ERR_CAPTURE_EXCEEDS_AUTHORIZED",
+        message: `at most ${result.authorized} rupees can be captured`,
+        authorized: result.authorized,
+      });
+    } catch (error) {
+      console.error("Error capturing payment:", error);
+      return res.status(500).json({ error: "Failed to capture payment" });
+    }
+  };
+
+  app.post("/api/payments/:id/capture", deprecatedFor("/api/v2/payments/:id/capture"), capturePaymentHandler);
+  app.post("/api/v2/payments/:id/capture", requireApiKey, requireOwnPayment, capturePaymentHandler);
+
+  app.post("/api/payments/:id/authenticate", async (req, res) => {
+    try {
+      const parsed = authenticatePaymentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Validation failed", details: parsed.error.flatten() });
+      }
+      const result = await authenticatePayment(req.params.id, parsed.data.otp, parsed.data.challengeId);
+      if (result.ok) return res.json(result.transaction);
+      if (result.reason === "not_found") return res.status(404).json({ error: "ERR_PAYMENT_NOT_FOUND", message: "no payment with that id" });
+      if (result.reason === "not_pending") {
+        return res.status(409).json({ error: "ERR_NO_PENDING_CHALLENGE", message: `payment is ${result.transaction.status}; there is no challenge to answer` });
+      }
+      if (result.reason === "challenge_mismatch") {
+        return res.status(400).json({ error: "ERR_INVALID_CHALLENGE", message: "challengeId does not match this payment's challenge" });
+      }
+      return res.status(400).json({
+        error: "ERR_INVALID_OTP",
+        message: `incorrect OTP, ${result.attemptsRemaining} ${result.attemptsRemaining === 1 ? "attempt" : "attempts"} remaining`,
+        attemptsRemaining: result.attemptsRemaining,
+      });
+    } catch (error) {
+      console.error("Error authenticating payment:", error);
+      return res.status(500).json({ error: "Failed to authenticate payment" });
+    }
+  });
+
+  const voidPaymentHandler = async (req: Request, res: Response) => {
+    try {
+      const result = await voidPayment(req.params.id);
+      if (result.ok) return res.json(result.transaction);
+      if (result.reason === "not_found") return res.status(404).json({ error: "ERR_PAYMENT_NOT_FOUND", message: "no payment with that id" });
+      const status = result.reason === "not_authorized" ? result.transaction.status : "authorized";
+      return res.status(409).json({ error: "ERR_PAYMENT_NOT_AUTHORIZED", message: `payment is ${status}; only authorized payments can be voided` });
+    } catch (error) {
+      console.error("Error voiding payment:", error);
+      return res.status(500).json({ error: "Failed to void payment" });
+    }
+  };
+
+  app.post("/api/payments/:id/void", deprecatedFor("/api/v2/payments/:id/void"), voidPaymentHandler);
+  app.post("/api/v2/payments/:id/void", requireApiKey, requireOwnPayment, voidPaymentHandler);
+
+  // Simulated bank's page (client/src/pages/bank-login.tsx)
+  const bankSessionError = (res: Response, result: Exclude<BankSessionResult, { ok: true }>) => {
+    switch (result.reason) {
+      case "not_found":
+        return res.status(404).json({ error: "ERR_BANK_SESSION_NOT_FOUND", message: "no netbanking session with that id" });
+      case "expired":
+        return res.status(409).json({ error: "ERR_BANK_SESSION_EXPIRED", message: "the netbanking session has timed out" });
+      case "not_pending":
+        return res.status(409).json({ error: "ERR_BANK_SESSION_CLOSED", message: `payment is already ${result.transaction.status}` });
+      case "invalid_credentials":
+        return res.status(401).json({ error: "ERR_BANK_LOGIN_FAILED", message: "incorrect user ID or password" });
+      case "login_required":
+        return res.status(409).json({ error: "ERR_BANK_LOGIN_REQUIRED", message: "log in before approving the payment" });
+      case "account_not_found":
+        return res.status(404).json({ error: "Bank account not found" });
+    }
+  };
+
+  app.get("/api/bank-sessions/:id", async (req, res) => {
+    try {
+      const transaction = await storage.getTransactionByBankSession(req.params.id);
+      if (!transaction) {
+        return res.status(404).json({ error: "ERR_BANK_SESSION_NOT_FOUND", message: "no netbanking session with that id" });
+      }
+      return res.json({ ...(await serializeBankSession(transaction)), returnUrl: await bankReturnUrl(transaction) });
+    } catch (error) {
+      console.error("Error fetching netbanking session:", error);
+      return res.status(500).json({ error: "Failed to fetch netbanking session" });
+    }
+  });
+
+  app.post("/api/bank-sessions/:id/login", async (req, res) => {
+    try {
+      const parsed = bankLoginSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Validation failed", details: parsed.error.flatten() });
+      }
+      const result = await loginToBank(req.params.id, parsed.data.password);
+      if (!result.ok) return bankSessionError(res, result);
+      return res.json(await serializeBankSession(result.transaction));
+    } catch (error) {
+      console.error("Error logging in to netbanking:", error);
+      return res.status(500).json({ error: "Failed to log in" });
+    }
+  });
+
+  // The bank posting its answer back; the page then sends the customer to returnUrl
+  app.post("/api/bank-sessions/:id/complete", async (req, res) => {
+    try {
+      const parsed = completeBankSessionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Validation failed", details: parsed.error.flatten() });
+      }
+      const result = await completeBankSession(req.params.id, parsed.data.action, parsed.data.bankAccountId);
+      if (!result.ok) return bankSessionError(res, result);
+      return res.json({ transaction: result.transaction, returnUrl: await bankReturnUrl(result.transaction) });
+    } catch (error) {
+      console.error("Error completing netbanking session:", error);
+      return res.status(500).json({ error: "Failed to complete netbanking session" });
+    }
+  });
+
+  // Admin stand-in for the customer answering a UPI collect request
+  app.post("/api/payments/:id/collect", async (req, res) => {
+    try {
+      const parsed = resolveCollectSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Validation failed", details: parsed.error.flatten() });
+      }
+      const result = await resolveCollect(req.params.id, parsed.data.action);
+      if (result.ok) return res.json(result.transaction);
+      if (result.reason === "not_found") return res.status(404).json({ error: "ERR_PAYMENT_NOT_FOUND", message: "no payment with that id" });
+      return res.status(409).json({ error: "ERR_PAYMENT_NOT_PENDING", message: `payment is ${result.transaction.status}; only pending collect requests can be resolved` });
+    } catch (error) {
+      console.error("Error resolving UPI collect:", error);
+      return res.status(500).json({ error: "Failed to resolve collect request" });
+    }
+  });
+
+  app.get("/api/v2/payments/:id", requireApiKey, requireOwnPayment, async (req, res) => {
+    try {
+      const transaction = await storage.getTransaction(req.params.id);
+      return res.json(serializeAttempt(transaction!));
+    } catch (error) {
+      console.error("Error fetching v2 payment:", error);
+      return res.status(500).json({ error: "Failed to fetch payment" });
+    }
+  });
+
+  // shared by the dashboard and, with an API key, merchants (/api/v2/payments/:id/refunds)
+  const refundTransaction = async (req: Request, res: Response) => {
+    let idempotency: IdempotentRequest | undefined;
+    const respond = async (code: number, body: unknown) => {
+      await settleIdempotentRequest(idempotency, code, body);
+      return res.status(code).json(body);
+    };
+
+    try {
+      const parsed = createRefundSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Validation failed", details: parsed.error.flatten() });
+      }
+
+      const transactionId = req.params.id;
+      const { idempotencyKey: bodyKey, ...request } = parsed.data;
+      const idempotencyKey = bodyKey ?? req.header("Idempotency-Key");
+      if (idempotencyKey) {
+        const scope = `refunds:${transactionId}`;
+        const started = await beginIdempotentRequest(scope, idempotencyKey, request);
+        if (started.kind === "replay") {
+          res.setHeader("Idempotent-Replayed", "true");
+          return res.status(started.status).json(started.body);
+        }
+        if (started.kind === "conflict") {
+          return res.status(409).json({ error: "ERR_IDEMPOTENCY_CONFLICT", message: "idempotencyKey was already used with a different refund" });
+        }
+        if (started.kind === "in_progress") {
+          return res.status(409).json({ error: "ERR_IDEMPOTENCY_IN_PROGRESS", message: "a refund with this idempotencyKey is still being processed" });
+        }
+        idempotency = { scope, key: idempotencyKey };
+      }
+
+      const result = await storage.refundTransaction(transactionId, request);
+      if (!result.ok) {
+        if (result.reason === "not_found") return respond(404, { error: "Transaction not found" });
+        if (result.reason === "not_refundable") {
+          return respond(409, { error: "ERR_NOT_REFUNDABLE", message: "only successful transactions can be refunded" });
+        }
+        return respond(400, {
+          error: "ERR_REFUND_EXCEEDS_AMOUNT",
+          message: `at most ${result.refundable} rupees can still be refunded`,
+          refundable: result.refundable,
+        });
+      }
+
+      const { refund, transaction, refundedTotal } = result;
+      const v2 = refund.status === "processed" && transaction.orderId.startsWith("gw_")
+        ? await storage.getV2Order(transaction.orderId)
+        : undefined;
+      if (v2) {
+        const payload: RefundEventPayload = {
+          event: "refund.processed",
+          refund_id: refund.id,
+          payment_ref: transaction.id,
+          gateway_order_id: v2.gateway_order_id,
+          merchant_order_id: v2.merchant_order_id,
+          status: "PROCESSED",
+          amount_in_paisa: rupeesToPaisa(refund.amount),
+          refunded_total_in_paisa: rupeesToPaisa(refundedTotal),
+          currency: v2.currency,
+          reason: refund.reason,
+          refunded_at: refund.createdAt,
+          test_mode: v2.test_mode,
+          metadata: v2.metadata,
+        };
+        await sendOrderWebhook(v2, payload, refund.id);
+      }
+
+      return respond(201, refund);
+    } catch (error) {
+      console.error("Error refunding transaction:", error);
+      if (idempotency) await abandonIdempotentRequest(idempotency.scope, idempotency.key).catch(() => undefined);
+      return res.status(500).json({ error: "Failed to refund transaction" });
+    }
+  };
+
+  // still used by the dashboard's receipt page, which sends the admin token for v2 payments
+  app.post("/api/transactions/:id/refunds", deprecatedFor("/api/v2/payments/:id/refunds"), refundTransaction);
+  app.post("/api/v2/payments/:id/refunds", requireApiKey, requireOwnPayment, refundTransaction);
+
+  const listRefunds = async (req: Request, res: Response) => {
+    try {
+      const transaction = await storage.getTransaction(req.params.id);
+      if (!transaction) {
+        return res.status(404).json({ error: "Transaction not found" });
+      }
+      return res.json(await storage.getRefunds(transaction.id));
+    } catch (error) {
+      console.error("Error fetching refunds:", error);
+      return res.status(500).json({ error: "Failed to fetch refunds" });
+    }
+  };
+
+  app.get("/api/transactions/:id/refunds", listRefunds);
+  app.get("/api/v2/payments/:id/refunds", requireApiKey, requireOwnPayment, listRefunds);
+
+  app.get("/api/refunds", async (_req, res) => {
+    try {
+      return res.json(await storage.listRefunds());
+    } catch (error) {
+      console.error("Error fetching refunds:", error);
+      return res.status(500).json({ error: "Failed to fetch refunds" });
+    }
+  });
+
+  // Webhook outbox, newest first
+  app.get("/api/webhook-events", async (req, res) => {
+    try {
+      const parsed = webhookOutboxQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Validation failed", details: parsed.error.flatten() });
+      }
+      return res.json(await storage.listWebhookEvents(parsed.data));
+    } catch (error) {
+      console.error("Error listing webhook events:", error);
+      return res.status(500).json({ error: "Failed to list webhook events" });
+    }
+  });
+
+  app.get("/api/webhook-events/:id", async (req, res) => {
+    try {
+      const event = await storage.getWebhookEvent(req.params.id);
+      if (!event) {
+        return res.status(404).json({ error: "ERR_WEBHOOK_EVENT_NOT_FOUND", message: "no webhook event with that id" });
+      }
+      return res.json({ ...event, attempts: await storage.listWebhookAttempts(event.event_id) });
+    } catch (error) {
+      console.error("Error fetching webhook event:", error);
+      return res.status(500).json({ error: "Failed to fetch webhook event" });
+    }
+  });
+
+  // Send a dead event again; it gets one more attempt
+  app.post("/api/webhook-events/:id/retry", async (req, res) => {
+    try {
+      const event = await storage.requeueWebhookEvent(req.params.id);
+      if (!event) {
+        const existing = await storage.getWebhookEvent(req.params.id);
+        return existing
+          ? res.status(409).json({ error: "ERR_WEBHOOK_EVENT_NOT_DEAD", message: `webhook event is ${existing.status}` })
+          : res.status(404).json({ error: "ERR_WEBHOOK_EVENT_NOT_FOUND", message: "no webhook event with that id" });
+      }
+      kickWebhookWorker();
+      return res.json(event);
+    } catch (error) {
+      console.error("Error retrying webhook event:", error);
+      return res.status(500).json({ error: "Failed to retry webhook event" });
+    }
+  });
+
   app.get("/api/transactions", async (_req, res) => {
     try {
       const transactions = await storage.getTransactions();
@@ -293,6 +997,33 @@ export async function registerRoutes(
     }
   });
 
+  // Test scenario catalog, shown in the payment modal's test cards helper
+  app.get("/api/scenarios", async (_req, res) => {
+    try {
+      return res.json(getScenarioCatalog());
+    } catch (error) {
+      console.error("Error loading test scenarios:", error);
+      return res.status(500).json({ error: "Failed to load test scenarios" });
+    }
+  });
+
+  app.put("/api/scenarios", async (req, res) => {
+    try {
+      const parsed = scenarioCatalogSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: "Validation failed",
+          details: parsed.error.flatten(),
+        });
+      }
+      replaceScenarioCatalog(parsed.data);
+      return res.json(parsed.data);
+    } catch (error) {
+      console.error("Error updating test scenarios:", error);
+      return res.status(500).json({ error: "Failed to update test scenarios" });
+    }
+  });
+
   app.put("/api/accounts/:id", async (req, res) => {
     try {
       const parsed = insertBankAccountSchema.partial().safeParse(req.body);
@@ -303,17 +1034,98 @@ export async function registerRoutes(
         });
       }
       
-      const account = await storage.updateBankAccount(req.params.id, parsed.data);
+      // a balance edit is recorded as a manual adjustment rather than overwritten
+      const { balance, ...details } = parsed.data;
+      const account = await storage.updateBankAccount(req.params.id, details);
       if (!account) {
         return res.status(404).json({ error: "Bank account not found" });
       }
-      return res.json(account);
+
+      if (balance !== undefined && balance !== account.balance) {
+        const delta = balance - account.balance;
+        await storage.postLedgerJournal(
+          bankAccountJournal("adjustment", account.id, delta > 0 ? "credit" : "debit", Math.abs(delta), {
+            description: `Balance set to ${balance} via account update`,
+          }),
+        );
+      }
+
+      return res.json(await storage.getBankAccount(account.id));
     } catch (error) {
       console.error("Error updating bank account:", error);
       return res.status(500).json({ error: "Failed to update bank account" });
     }
   });
 
+  app.get("/api/accounts/:id/ledger", async (req, res) => {
+    try {
+      const account = await storage.getBankAccount(req.params.id);
+      if (!account) {
+        return res.status(404).json({ error: "Bank account not found" });
+      }
+      const entries = await storage.getLedgerEntries(account.id);
+      return res.json(entries);
+    } catch (error) {
+      console.error("Error fetching ledger entries:", error);
+      return res.status(500).json({ error: "Failed to fetch ledger entries" });
+    }
+  });
+
+  // manual adjustments and settlements against a bank account
+  app.post("/api/accounts/:id/ledger", async (req, res) => {
+    try {
+      const parsed = ledgerAdjustmentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: "Validation failed",
+          details: parsed.error.flatten()
+        });
+      }
+
+      const { kind, direction, amount, description } = parsed.data;
+      const journal = bankAccountJournal(kind, req.params.id, direction, amount, { description });
+
+      if (direction === "debit") {
+        const debit = await storage.debitIfSufficientFunds(journal);
+        if (!debit.ok) {
+          return debit.reason === "not_found"
+            ? res.status(404).json({ error: "Bank account not found" })
+            : res.status(400).json({ error: "Insufficient balance in the selected bank account" });
+        }
+        return res.status(201).json(debit.entries);
+      }
+
+      const entries = await storage.postLedgerJournal(journal);
+      if (!entries) {
+        return res.status(404).json({ error: "Bank account not found" });
+      }
+      return res.status(201).json(entries);
+    } catch (error) {
+      console.error("Error posting ledger entry:", error);
+      return res.status(500).json({ error: "Failed to post ledger entry" });
+    }
+  });
+
+  app.get("/api/accounts/:id/reconciliation", async (req, res) => {
+    try {
+      const account = await storage.getBankAccount(req.params.id);
+      if (!account) {
+        return res.status(404).json({ error: "Bank account not found" });
+      }
+      const ledgerBalance = deriveBalance(await storage.getLedgerEntries(account.id));
+      return res.json({
+        accountId: account.id,
+        balance: account.balance,
+        ledgerBalance,
+        difference: Math.round((account.balance - ledgerBalance) * 100) / 100,
+        reconciled: Math.abs(account.balance - ledgerBalance) < 0.005,
+      });
+    } catch (error) {
+      console.error("Error reconciling account:", error);
+      return res.status(500).json({ error: "Failed to reconcile account" });
+    }
+  });
+
   app.delete("/api/accounts/:id", async (req, res) => {
     try {
       const deleted = await storage.deleteBankAccount(req.params.id);
@@ -327,5 +1139,216 @@ export async function registerRoutes(
     }
   });
 
+  app.get("/api/merchants", async (_req, res) => {
+    try {
+      return res.json(await storage.listMerchants());
+    } catch (error) {
+      console.error("Error listing merchants:", error);
+      return res.status(500).json({ error: "Failed to list merchants" });
+    }
+  });
+
+  app.get("/api/merchants/:id", async (req, res) => {
+    try {
+      const merchant = await storage.getMerchant(req.params.id);
+      if (!merchant) {
+        return res.status(404).json({ error: "ERR_MERCHANT_NOT_FOUND", message: "no merchant with that id" });
+      }
+      return res.json(merchant);
+    } catch (error) {
+      console.error("Error fetching merchant:", error);
+      return res.status(500).json({ error: "Failed to fetch merchant" });
+    }
+  });
+
+  app.post("/api/merchants", requireAdmin, async (req, res) => {
+    try {
+      const parsed = insertMerchantSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Validation failed", details: parsed.error.flatten() });
+      }
+      const merchant = await storage.createMerchant(parsed.data);
+      if (!merchant) {
+        return res.status(409).json({ error: "ERR_MERCHANT_ALREADY_EXISTS", message: `merchant ${parsed.data.merchant_id} already exists or was deleted` });
+      }
+      // the only response that carries the merchant's initial webhook secrets
+      const webhookSecrets = await createWebhookSecrets(merchant.merchant_id);
+      return res.status(201).json({ ...merchant, webhook_secrets: webhookSecrets });
+    } catch (error) {
+      console.error("Error creating merchant:", error);
+      return res.status(500).json({ error: "Failed to create merchant" });
+    }
+  });
+
+  // existing orders keep the URLs they were created with
+  app.put("/api/merchants/:id", requireAdmin, async (req, res) => {
+    try {
+      const parsed = updateMerchantSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Validation failed", details: parsed.error.flatten() });
+      }
+      const merchant = await storage.updateMerchant(req.params.id, parsed.data);
+      if (!merchant) {
+        return res.status(404).json({ error: "ERR_MERCHANT_NOT_FOUND", message: "no merchant with that id" });
+      }
+      return res.json(merchant);
+    } catch (error) {
+      console.error("Error updating merchant:", error);
+      return res.status(500).json({ error: "Failed to update merchant" });
+    }
+  });
+
+  app.delete("/api/merchants/:id", requireAdmin, async (req, res) => {
+    try {
+      if (!(await storage.deleteMerchant(req.params.id))) {
+        return res.status(404).json({ error: "ERR_MERCHANT_NOT_FOUND", message: "no merchant with that id" });
+      }
+      return res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting merchant:", error);
+      return res.status(500).json({ error: "Failed to delete merchant" });
+    }
+  });
+
+  app.get("/api/merchants/:id/api-keys", requireAdmin, async (req, res) => {
+    try {
+      if (!(await storage.getMerchant(req.params.id))) {
+        return res.status(404).json({ error: "ERR_MERCHANT_NOT_FOUND", message: "no merchant with that id" });
+      }
+      return res.json((await storage.listApiKeys(req.params.id)).map(serializeApiKey));
+    } catch (error) {
+      console.error("Error listing API keys:", error);
+      return res.status(500).json({ error: "Failed to list API keys" });
+    }
+  });
+
+  // the only response that ever carries key_secret
+  app.post("/api/merchants/:id/api-keys", requireAdmin, async (req, res) => {
+    try {
+      const parsed = createApiKeySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Validation failed", details: parsed.error.flatten() });
+      }
+      const merchant = await storage.getMerchant(req.params.id);
+      if (!merchant) {
+        return res.status(404).json({ error: "ERR_MERCHANT_NOT_FOUND", message: "no merchant with that id" });
+      }
+      const { mode } = parsed.data;
+      if (mode === "test" ? !merchant.test_mode : !merchant.live_mode) {
+        return res.status(400).json({ error: "ERR_MODE_NOT_ENABLED", message: `merchant ${merchant.merchant_id} is not enabled for ${mode} mode` });
+      }
+      const { apiKey, keySecret } = await issueApiKey(merchant.merchant_id, mode);
+      return res.status(201).json({ ...serializeApiKey(apiKey), key_secret: keySecret });
+    } catch (error) {
+      console.error("Error creating API key:", error);
+      return res.status(500).json({ error: "Failed to create API key" });
+    }
+  });
+
+  app.post("/api/merchants/:id/api-keys/:key_id/revoke", requireAdmin, async (req, res) => {
+    try {
+      const key = await storage.getApiKey(req.params.key_id);
+      if (!key || key.merchant_id !== req.params.id) {
+        return res.status(404).json({ error: "ERR_API_KEY_NOT_FOUND", message: "no API key with that key_id for this merchant" });
+      }
+      return res.json(serializeApiKey((await storage.revokeApiKey(key.key_id)) ?? key));
+    } catch (error) {
+      console.error("Error revoking API key:", error);
+      return res.status(500).json({ error: "Failed to revoke API key" });
+    }
+  });
+
+  // secrets currently signing, without their values
+  app.get("/api/merchants/:id/webhook-secrets", requireAdmin, async (req, res) => {
+    try {
+      if (!(await storage.getMerchant(req.params.id))) {
+        return res.status(404).json({ error: "ERR_MERCHANT_NOT_FOUND", message: "no merchant with that id" });
+      }
+      const secrets = [];
+      for (const mode of apiKeyModes) secrets.push(...(await listWebhookSecrets(req.params.id, mode)));
+      return res.json(secrets.map(serializeWebhookSecret));
+    } catch (error) {
+      console.error("Error listing webhook secrets:", error);
+      return res.status(500).json({ error: "Failed to list webhook secrets" });
+    }
+  });
+
+  // The new secret is returned once; the previous one keeps signing until previous_expires_at
+  app.post("/api/merchants/:id/webhook-secrets/rotate", requireAdmin, async (req, res) => {
+    try {
+      const parsed = rotateWebhookSecretSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Validation failed", details: parsed.error.flatten() });
+      }
+      if (!(await storage.getMerchant(req.params.id))) {
+        return res.status(404).json({ error: "ERR_MERCHANT_NOT_FOUND", message: "no merchant with that id" });
+      }
+      const { secret, previousExpiresAt } = await rotateWebhookSecret(req.params.id, parsed.data.mode, parsed.data.overlap_seconds);
+      return res.status(201).json({
+        ...serializeWebhookSecret(secret),
+        secret: secret.secret,
+        previous_expires_at: previousExpiresAt,
+      });
+    } catch (error) {
+      console.error("Error rotating webhook secret:", error);
+      return res.status(500).json({ error: "Failed to rotate webhook secret" });
+    }
+  });
+
+  app.get("/api/vpas", async (_req, res) => {
+    try {
+      return res.json(await storage.listVpas());
+    } catch (error) {
+      console.error("Error listing VPAs:", error);
+      return res.status(500).json({ error: "Failed to list VPAs" });
+    }
+  });
+
+  // Name check shown before paying, like a UPI app's "verify"; the account itself stays private
+  app.get("/api/vpas/:vpa", async (req, res) => {
+    try {
+      const resolved = await resolveVpa(req.params.vpa);
+      if (!resolved) {
+        return res.status(404).json({ error: "ERR_VPA_NOT_FOUND", message: "this UPI ID is not registered" });
+      }
+      return res.json({ vpa: resolved.vpa.vpa, accountHolderName: resolved.account.accountHolderName, bankName: resolved.account.bankName });
+    } catch (error) {
+      console.error("Error resolving VPA:", error);
+      return res.status(500).json({ error: "Failed to resolve VPA" });
+    }
+  });
+
+  app.post("/api/vpas", async (req, res) => {
+    try {
+      const parsed = insertVpaSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Validation failed", details: parsed.error.flatten() });
+      }
+      if (!(await storage.getBankAccount(parsed.data.bankAccountId))) {
+        return res.status(404).json({ error: "Bank account not found" });
+      }
+      const vpa = await storage.registerVpa(parsed.data);
+      if (!vpa) {
+        return res.status(409).json({ error: "ERR_VPA_ALREADY_REGISTERED", message: `${parsed.data.vpa} is already registered` });
+      }
+      return res.status(201).json(vpa);
+    } catch (error) {
+      console.error("Error registering VPA:", error);
+      return res.status(500).json({ error: "Failed to register VPA" });
+    }
+  });
+
+  app.delete("/api/vpas/:vpa", async (req, res) => {
+    try {
+      if (!(await storage.deleteVpa(normalizeVpa(req.params.vpa)))) {
+        return res.status(404).json({ error: "ERR_VPA_NOT_FOUND", message: "this UPI ID is not registered" });
+      }
+      return res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting VPA:", error);
+      return res.status(500).json({ error: "Failed to delete VPA" });
+    }
+  });
+
   return httpServer;
 }
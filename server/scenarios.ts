@@ -0,0 +1,83 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { scenarioCatalogSchema, type PaymentMethod, type PaymentScenario } from "@shared/schema";
+
+// TEST_SCENARIOS_FILE overrides the catalog shipped at the repo root
+const catalogFile = path.resolve(process.cwd(), process.env.TEST_SCENARIOS_FILE || "test-scenarios.json");
+
+let catalog: PaymentScenario[] | undefined;
+
+function loadCatalog(): PaymentScenario[] {
+  let raw: string;
+  try {
+    raw = readFileSync(catalogFile, "utf-8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw err;
+  }
+  const parsed = scenarioCatalogSchema.safeParse(JSON.parse(raw));
+  if (!parsed.success) {
+    throw new Error(`invalid test scenario catalog ${catalogFile}: ${parsed.error.message}`);
+  }
+  return parsed.data;
+}
+
+export function getScenarioCatalog(): PaymentScenario[] {
+  catalog ??= loadCatalog();
+  return catalog;
+}
+
+// Admin edits live in memory until restart; edit the file to keep them
+export function replaceScenarioCatalog(scenarios: PaymentScenario[]) {
+  catalog = scenarios;
+}
+
+function normalize(paymentMethod: PaymentMethod, value: string) {
+  return paymentMethod === "card" ? value.replace(/\D/g, "") : value.trim().toLowerCase();
+}
+
+export function findScenario(paymentMethod: PaymentMethod, value: string): PaymentScenario | undefined {
+  const key = normalize(paymentMethod, value);
+  return getScenarioCatalog().find(
+    (scenario) => scenario.paymentMethod === paymentMethod && normalize(paymentMethod, scenario.match) === key,
+  );
+}
+
+export type SimulatedOutcome =
+  // `challenge`: the issuer wants 3-D Secure before it approves
+  | { ok: true; challenge?: boolean }
+  | { ok: false; failureCode: string; failureReason: string };
+
+const failureDefaults = {
+  decline: { failureCode: "declined", failureReason: "Payment declined" },
+  timeout: { failureCode: "timeout", failureReason: "The bank did not respond in time" },
+  network_error: { failureCode: "network_error", failureReason: "Could not reach the bank" },
+} as const;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Play out what the PSP would do for this instrument; unknown instruments succeed
+export async function simulatePayment(paymentMethod: PaymentMethod, value: string | undefined): Promise<SimulatedOutcome> {
+  const scenario = value ? findScenario(paymentMethod, value) : undefined;
+  if (!scenario) return { ok: true };
+  if (scenario.delayMs) await sleep(scenario.delayMs);
+
+  switch (scenario.outcome) {
+    case "decline":
+    case "timeout":
+    case "network_error": {
+      const defaults = failureDefaults[scenario.outcome];
+      return {
+        ok: false,
+        failureCode: scenario.code ?? defaults.failureCode,
+        failureReason: scenario.message ?? defaults.failureReason,
+      };
+    }
+    case "challenge_3ds":
+      return { ok: true, challenge: true };
+    // the delay stands in for the pending phase (a UPI collect stays "pending" through it)
+    case "pending_then_success":
+    case "success":
+      return { ok: true };
+  }
+}
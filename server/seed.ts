@@ -0,0 +1,61 @@
+import type { InsertBankAccount, InsertMerchant, InsertVpa, InsertWebhookSecret } from "@shared/schema";
+
+// Demo accounts every fresh store starts with
+export const initialBankAccounts: InsertBankAccount[] = [
+  {
+    accountHolderName: "John Doe",
+    accountNumber: "1234567890123",
+    bankName: "HDFC Bank",
+    balance: 50000,
+  },
+  {
+    accountHolderName: "Jane Smith",
+    accountNumber: "9876543210987",
+    bankName: "ICICI Bank",
+    balance: 25000,
+  },
+  {
+    accountHolderName: "Test User",
+    accountNumber: "5555666677778888",
+    bankName: "State Bank of India",
+    balance: 1000,
+  },
+];
+
+// Demo VPAs, linked to the demo account with the given number
+export const initialVpas: (Pick<InsertVpa, "vpa"> & { accountNumber: string })[] = [
+  { vpa: "john@hdfc", accountNumber: "1234567890123" },
+  { vpa: "jane@icici", accountNumber: "9876543210987" },
+  { vpa: "test@sbi", accountNumber: "5555666677778888" },
+];
+
+// Sandbox merchant, allowed to use any local return and callback URL
+export const initialMerchants: InsertMerchant[] = [
+  {
+    merchant_id: "mer_test",
+    name: "Test Merchant",
+    return_url_prefixes: ["http://localhost", "http://127.0.0.1"],
+    callback_url_prefixes: ["http://localhost", "http://127.0.0.1"],
+    payment_methods: ["card", "upi", "netbanking"],
+    test_mode: true,
+    live_mode: false,
+  },
+];
+
+// mer_test signs with the secrets from the environment so existing receivers keep verifying
+export function initialWebhookSecrets(): InsertWebhookSecret[] {
+  return [
+    {
+      secret_id: "whs_mer_test_test",
+      merchant_id: "mer_test",
+      mode: "test",
+      secret: process.env.MERCHANT_TEST_WEBHOOK_SECRET || "test_secret",
+    },
+    {
+      secret_id: "whs_mer_test_live",
+      merchant_id: "mer_test",
+      mode: "live",
+      secret: process.env.MERCHANT_WEBHOOK_SECRET || "prod_secret",
+    },
+  ];
+}
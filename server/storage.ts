@@ -1,80 +1,245 @@
-import type { BankAccount, InsertBankAccount, Order, InsertOrder, Transaction, CreateOrderV2 } from "@shared/schema";
+import type { BankAccount, InsertBankAccount, Order, InsertOrder, Transaction, CreateOrderV2, V2Order, V2OrderStatus, UpdateV2Order, V2OrderFilter, LedgerEntry, LedgerJournal, IdempotencyKey, InsertIdempotencyKey, Refund, CardToken, InsertCardToken, TransactionStatus, Vpa, InsertVpa, Merchant, InsertMerchant, UpdateMerchant, ApiKey, InsertApiKey, ApiKeyMode, WebhookSecret, InsertWebhookSecret, WebhookOutboxEvent, InsertWebhookOutboxEvent, WebhookOutboxUpdate, WebhookOutboxFilter, WebhookAttempt } from "@shared/schema";
 import { randomUUID } from "crypto";
+import { initialBankAccounts, initialMerchants, initialVpas, initialWebhookSecrets } from "./seed";
+import { DuplicateOrderError } from "./errors";
+import { bankAccountJournal, isSystemAccount, journalLegs, legDelta } from "./ledger";
+import { canTransition } from "./order-state";
+import { debitedAccount, planRefund, refundJournal, refundedAmount } from "./refunds";
+import { captureJournals, holdsFunds, planCapture, releaseJournal } from "./holds";
+import { DbStorage } from "./db-storage";
+import type { StorageDriver } from "./db";
+
+export type DebitResult =
+  | { ok: true; account: BankAccount; entries: LedgerEntry[] }
+  | { ok: false; reason: "insufficient_funds"; account: BankAccount }
+  | { ok: false; reason: "not_found" };
+
+export type RefundResult =
+  | { ok: true; refund: Refund; transaction: Transaction; refundedTotal: number }
+  | { ok: false; reason: "not_found" }
+  | { ok: false; reason: "not_refundable" }
+  | { ok: false; reason: "exceeds_refundable"; refundable: number };
+
+export type AuthorizationResult =
+  | { ok: true; transaction: Transaction }
+  | { ok: false; reason: "not_found" }
+  | { ok: false; reason: "not_authorized"; transaction: Transaction }
+  | { ok: false; reason: "exceeds_authorized"; authorized: number };
+
+// statuses that wait on the customer (an OTP, a UPI collect approval)
+export type AwaitingStatus = Extract<TransactionStatus, "requires_action" | "pending">;
+
+// how an awaiting payment ended
+export type TransactionOutcome = Pick<Transaction, "status"> &
+  Partial<Pick<Transaction, "failureCode" | "failureReason" | "authorizationExpiresAt" | "bankAccountId" | "bankName">>;
+
+export type IdempotencyReservation =
+  | { reserved: true }
+  | { reserved: false; existing: IdempotencyKey };
 
 export interface IStorage {
+  // prepare the backing store (connect, migrate, seed) before serving requests
+  init(): Promise<void>;
+
   createBankAccount(account: InsertBankAccount): Promise<BankAccount>;
   getBankAccounts(): Promise<BankAccount[]>;
   getBankAccount(id: string): Promise<BankAccount | undefined>;
-  updateBankAccountBalance(id: string, newBalance: number): Promise<BankAccount | undefined>;
-  updateBankAccount(id: string, data: Partial<InsertBankAccount>): Promise<BankAccount | undefined>;
+  // balances only move through ledger journals, never by direct update
+  updateBankAccount(id: string, data: Partial<Omit<InsertBankAccount, "balance">>): Promise<BankAccount | undefined>;
   deleteBankAccount(id: string): Promise<boolean>;
+
+  // post both legs of a journal and apply them to any bank account balances;
+  // undefined when a bank account leg does not exist
+  postLedgerJournal(journal: LedgerJournal): Promise<LedgerEntry[] | undefined>;
+  // check the balance of journal.debitAccountId and post the journal as one
+  // atomic step, so concurrent debits can never overdraw the account
+  debitIfSufficientFunds(journal: LedgerJournal): Promise<DebitResult>;
+  getLedgerEntries(accountId: string): Promise<LedgerEntry[]>;
   
   createOrder(order: InsertOrder): Promise<Order>;
   getOrder(id: string): Promise<Order | undefined>;
-  // v2 order support
-  createOrderV2(order: CreateOrderV2): Promise<{
-    gateway_order_id: string;
-    one_time_order_token?: string;
-    redirect_url: string;
-  }>;
-  getOrderByMerchantId(merchantId: string, merchantOrderId: string): Promise<any | undefined>;
+  // v2 order support; throws DuplicateOrderError if (merchant_id, order_id) is taken
+  createOrderV2(order: CreateOrderV2): Promise<V2Order>;
+  getV2Order(gatewayOrderId: string): Promise<V2Order | undefined>;
+  getOrderByMerchantId(merchantId: string, merchantOrderId: string): Promise<V2Order | undefined>;
+  updateV2Order(gatewayOrderId: string, data: UpdateV2Order): Promise<V2Order | undefined>;
+  // Moves the order to `status` only if the state machine allows it from its
+  // current status (checked atomically); undefined if missing or not allowed.
+  transitionV2Order(gatewayOrderId: string, status: V2OrderStatus, data?: UpdateV2Order): Promise<V2Order | undefined>;
+  listV2Orders(filter?: V2OrderFilter): Promise<V2Order[]>;
   
   createTransaction(transaction: Omit<Transaction, "id">): Promise<Transaction>;
   getTransaction(id: string): Promise<Transaction | undefined>;
   getTransactions(): Promise<Transaction[]>;
+  getTransactionsByOrderId(orderId: string): Promise<Transaction[]>;
+
+  // check what is still refundable and record the refund (crediting the
+  // payer's bank account for netbanking or a linked VPA) as one atomic step
+  refundTransaction(transactionId: string, request: { amount?: number; reason?: string }): Promise<RefundResult>;
+  getRefunds(transactionId: string): Promise<Refund[]>;
+  listRefunds(): Promise<Refund[]>;
+
+  // settle an "authorized" transaction, moving its held funds, as one atomic step
+  captureAuthorization(transactionId: string, amount?: number): Promise<AuthorizationResult>;
+  voidAuthorization(transactionId: string): Promise<AuthorizationResult>;
+  // authorized transactions whose authorizationExpiresAt is at or before `before`
+  listExpiredAuthorizations(before: string): Promise<Transaction[]>;
+
+  // finalize a transaction still in an awaiting status; undefined unless it
+  // was still `from`, so only one outcome can ever win
+  completeTransaction(transactionId: string, from: AwaitingStatus, outcome: TransactionOutcome): Promise<Transaction | undefined>;
+  // record the token a finalized payment's card was vaulted as, if any, and clear its save* fields
+  settleCardVault(transactionId: string, cardTokenId: string | undefined): Promise<Transaction | undefined>;
+  // count a wrong OTP against a "requires_action" transaction
+  recordChallengeAttempt(transactionId: string): Promise<Transaction | undefined>;
+  // "requires_action" transactions whose challengeExpiresAt is at or before `before`
+  listExpiredChallenges(before: string): Promise<Transaction[]>;
+  // pending UPI collect requests whose collectExpiresAt is at or before `before`
+  listExpiredCollects(before: string): Promise<Transaction[]>;
+  getTransactionByBankSession(bankSessionId: string): Promise<Transaction | undefined>;
+  // mark a "pending" netbanking session as logged in
+  recordBankLogin(transactionId: string): Promise<Transaction | undefined>;
+  // pending netbanking sessions whose bankSessionExpiresAt is at or before `before`
+  listExpiredBankSessions(before: string): Promise<Transaction[]>;
+
+  // vault a card; saving one the customer already vaulted (same fingerprint)
+  // refreshes its expiry and returns the existing token
+  saveCardToken(token: InsertCardToken): Promise<CardToken>;
+  getCardToken(tokenId: string): Promise<CardToken | undefined>;
+  listCardTokens(merchantId: string, customerId: string): Promise<CardToken[]>;
+  deleteCardToken(tokenId: string): Promise<boolean>;
+
+  // undefined if the VPA is already registered
+  registerVpa(vpa: InsertVpa): Promise<Vpa | undefined>;
+  getVpa(vpa: string): Promise<Vpa | undefined>;
+  listVpas(): Promise<Vpa[]>;
+  deleteVpa(vpa: string): Promise<boolean>;
+
+  // undefined if the merchant_id is taken, including by a deleted merchant
+  createMerchant(merchant: InsertMerchant): Promise<Merchant | undefined>;
+  getMerchant(merchantId: string): Promise<Merchant | undefined>;
+  listMerchants(): Promise<Merchant[]>;
+  updateMerchant(merchantId: string, updates: UpdateMerchant): Promise<Merchant | undefined>;
+  // revokes the merchant's API keys and expires its webhook secrets with it
+  deleteMerchant(merchantId: string): Promise<boolean>;
+
+  createApiKey(key: InsertApiKey): Promise<ApiKey>;
+  getApiKey(keyId: string): Promise<ApiKey | undefined>;
+  // newest first, revoked keys included
+  listApiKeys(merchantId: string): Promise<ApiKey[]>;
+  // revoking twice keeps the first revoked_at
+  revokeApiKey(keyId: string): Promise<ApiKey | undefined>;
+
+  // secrets of a merchant and mode still signing at `at`, newest first
+  listWebhookSecrets(merchantId: string, mode: ApiKeyMode, at: string): Promise<WebhookSecret[]>;
+  // store a new current secret; the ones still signing stop at `expiresAt` at the latest
+  rotateWebhookSecret(secret: InsertWebhookSecret, expiresAt: string): Promise<WebhookSecret>;
+
+  // Webhook outbox; events are due at once
+  createWebhookEvent(event: InsertWebhookOutboxEvent): Promise<WebhookOutboxEvent>;
+  getWebhookEvent(eventId: string): Promise<WebhookOutboxEvent | undefined>;
+  listWebhookEvents(filter?: WebhookOutboxFilter): Promise<WebhookOutboxEvent[]>;
+  // pending events due at `now`, leased to the caller by moving next_attempt_at
+  // to `leaseUntil` so no other worker picks them up meanwhile
+  claimDueWebhookEvents(now: string, leaseUntil: string, limit: number): Promise<WebhookOutboxEvent[]>;
+  // log an attempt and apply its outcome to the event in one step
+  recordWebhookAttempt(attempt: WebhookAttempt, update: WebhookOutboxUpdate): Promise<WebhookOutboxEvent | undefined>;
+  listWebhookAttempts(eventId: string): Promise<WebhookAttempt[]>;
+  // dead -> pending and due now; undefined if the event is not dead
+  requeueWebhookEvent(eventId: string): Promise<WebhookOutboxEvent | undefined>;
+
+  // claim (scope, key) for a new request unless an unexpired record holds it
+  reserveIdempotencyKey(record: InsertIdempotencyKey): Promise<IdempotencyReservation>;
+  completeIdempotencyKey(scope: string, key: string, responseStatus: number, responseBody: unknown): Promise<void>;
+  // drop a reservation whose request failed so the client can retry
+  releaseIdempotencyKey(scope: string, key: string): Promise<void>;
 }
 
 export class MemStorage implements IStorage {
   private bankAccounts: Map<string, BankAccount>;
   private orders: Map<string, Order>;
   // store v2 orders keyed by gateway_order_id
-  private v2orders: Map<string, any>;
+  private v2orders: Map<string, V2Order>;
   private transactions: Map<string, Transaction>;
+  private refunds: Map<string, Refund>;
+  private cardTokens: Map<string, CardToken>;
+  private vpas: Map<string, Vpa>;
+  private merchants: Map<string, Merchant>;
+  private apiKeys: Map<string, ApiKey>;
+  private webhookSecrets: Map<string, WebhookSecret>;
+  private webhookEvents: Map<string, WebhookOutboxEvent>;
+  private webhookAttempts: Map<string, WebhookAttempt>;
+  // append-only
+  private ledger: LedgerEntry[];
+  // keyed by `${scope}\n${key}`
+  private idempotencyKeys: Map<string, IdempotencyKey>;
+  // tail of the queued operations per bank account id
+  private accountLocks: Map<string, Promise<unknown>>;
 
   constructor() {
     this.bankAccounts = new Map();
     this.orders = new Map();
     this.v2orders = new Map();
     this.transactions = new Map();
+    this.refunds = new Map();
+    this.cardTokens = new Map();
+    this.vpas = new Map();
+    this.merchants = new Map();
+    this.apiKeys = new Map();
+    this.webhookSecrets = new Map();
+    this.webhookEvents = new Map();
+    this.webhookAttempts = new Map();
+    this.ledger = [];
+    this.idempotencyKeys = new Map();
+    this.accountLocks = new Map();
     
     this.seedInitialData();
   }
 
   private seedInitialData() {
-    const initialAccounts: InsertBankAccount[] = [
-      {
-        accountHolderName: "John Doe",
-        accountNumber: "1234567890123",
-        bankName: "HDFC Bank",
-        balance: 50000,
-      },
-      {
-        accountHolderName: "Jane Smith",
-        accountNumber: "9876543210987",
-        bankName: "ICICI Bank",
-        balance: 25000,
-      },
-      {
-        accountHolderName: "Test User",
-        accountNumber: "5555666677778888",
-        bankName: "State Bank of India",
-        balance: 1000,
-      },
-    ];
-
-    initialAccounts.forEach((account) => {
-      const id = randomUUID();
-      this.bankAccounts.set(id, { ...account, id });
-    });
+    const accounts = initialBankAccounts.map((account) => this.insertBankAccount(account));
+    for (const { vpa, accountNumber } of initialVpas) {
+      const account = accounts.find((a) => a.accountNumber === accountNumber);
+      if (account) this.vpas.set(vpa, { vpa, bankAccountId: account.id, createdAt: new Date().toISOString() });
+    }
+    for (const merchant of initialMerchants) {
+      const now = new Date().toISOString();
+      this.merchants.set(merchant.merchant_id, { ...merchant, created_at: now, updated_at: now });
+    }
+    for (const secret of initialWebhookSecrets()) {
+      this.webhookSecrets.set(secret.secret_id, { ...secret, created_at: new Date().toISOString() });
+    }
   }
 
-  async createBankAccount(insertAccount: InsertBankAccount): Promise<BankAccount> {
+  private insertBankAccount(insertAccount: InsertBankAccount): BankAccount {
     const id = randomUUID();
-    const account: BankAccount = { ...insertAccount, id };
+    const account: BankAccount = { ...insertAccount, id, balance: 0 };
     this.bankAccounts.set(id, account);
+    if (insertAccount.balance > 0) {
+      this.applyJournal(bankAccountJournal("opening", id, "credit", insertAccount.balance, { description: "Opening balance" }));
+    }
     return account;
   }
 
+  private applyJournal(journal: LedgerJournal): LedgerEntry[] | undefined {
+    const legs = journalLegs(journal);
+    if (legs.some((leg) => !isSystemAccount(leg.accountId) && !this.bankAccounts.has(leg.accountId))) {
+      return undefined;
+    }
+    for (const leg of legs) {
+      const account = this.bankAccounts.get(leg.accountId);
+      if (account) account.balance += legDelta(leg);
+    }
+    this.ledger.push(...legs);
+    return legs;
+  }
+
+  async init(): Promise<void> {}
+
+  async createBankAccount(insertAccount: InsertBankAccount): Promise<BankAccount> {
+    return this.insertBankAccount(insertAccount);
+  }
+
   async getBankAccounts(): Promise<BankAccount[]> {
     return Array.from(this.bankAccounts.values());
   }
@@ -83,14 +248,36 @@ export class MemStorage implements IStorage {
     return this.bankAccounts.get(id);
   }
 
-  async updateBankAccountBalance(id: string, newBalance: number): Promise<BankAccount | undefined> {
-    const account = this.bankAccounts.get(id);
-    if (account) {
-      account.balance = newBalance;
-      this.bankAccounts.set(id, account);
-      return account;
+  // Serialize operations on one account so a read-check-write cannot interleave
+  private async withAccountLock<T>(accountId: string, fn: () => T | Promise<T>): Promise<T> {
+    const previous = this.accountLocks.get(accountId) ?? Promise.resolve();
+    const run = previous.then(fn);
+    const tail = run.catch(() => undefined);
+    this.accountLocks.set(accountId, tail);
+    try {
+      return await run;
+    } finally {
+      if (this.accountLocks.get(accountId) === tail) this.accountLocks.delete(accountId);
     }
-    return undefined;
+  }
+
+  async postLedgerJournal(journal: LedgerJournal): Promise<LedgerEntry[] | undefined> {
+    return this.withAccountLock(journal.debitAccountId, () => this.applyJournal(journal));
+  }
+
+  async debitIfSufficientFunds(journal: LedgerJournal): Promise<DebitResult> {
+    return this.withAccountLock(journal.debitAccountId, (): DebitResult => {
+      const account = this.bankAccounts.get(journal.debitAccountId);
+      if (!account) return { ok: false, reason: "not_found" };
+      if (account.balance < journal.amount) return { ok: false, reason: "insufficient_funds", account };
+      const entries = this.applyJournal(journal);
+      if (!entries) return { ok: false, reason: "not_found" };
+      return { ok: true, account, entries };
+    });
+  }
+
+  async getLedgerEntries(accountId: string): Promise<LedgerEntry[]> {
+    return this.ledger.filter((entry) => entry.accountId === accountId);
   }
 
   async createOrder(insertOrder: InsertOrder): Promise<Order> {
@@ -100,14 +287,14 @@ export class MemStorage implements IStorage {
     return order;
   }
 
-  async createOrderV2(order: CreateOrderV2): Promise<{
-    gateway_order_id: string;
-    one_time_order_token?: string;
-    redirect_url: string;
-  }> {
+  async createOrderV2(order: CreateOrderV2): Promise<V2Order> {
+    if (await this.getOrderByMerchantId(order.merchant_id, order.order_id)) {
+      throw new DuplicateOrderError(order.merchant_id, order.order_id);
+    }
     const gatewayOrderId = `gw_${randomUUID().slice(0, 8)}`;
     const token = order.one_time_order_token ?? `ott_${randomUUID().replace(/-/g, "").slice(0, 40)}`;
-    const stored = {
+    const now = new Date().toISOString();
+    const stored: V2Order = {
       gateway_order_id: gatewayOrderId,
       merchant_id: order.merchant_id,
       merchant_order_id: order.order_id,
@@ -122,31 +309,50 @@ export class MemStorage implements IStorage {
       test_mode: !!order.test_mode,
       metadata: order.metadata,
       idempotency_key: order.idempotency_key,
+      payment_capture: order.payment_capture ?? "automatic",
       status: "CREATED",
-      created_at: new Date().toISOString(),
+      created_at: now,
+      updated_at: now,
+      expires_at: order.expires_at,
     };
 
     this.v2orders.set(gatewayOrderId, stored);
-
-    return {
-      gateway_order_id: gatewayOrderId,
-      one_time_order_token: token,
-      redirect_url: `https://localhost:5000/checkout?gw_order=${gatewayOrderId}`,
-    };
+    return stored;
   }
 
-  async getOrderByMerchantId(merchantId: string, merchantOrderId: string): Promise<any | undefined> {
+  async getOrderByMerchantId(merchantId: string, merchantOrderId: string): Promise<V2Order | undefined> {
     for (const v of Array.from(this.v2orders.values())) {
       if (v.merchant_id === merchantId && v.merchant_order_id === merchantOrderId) return v;
     }
     return undefined;
   }
 
-  async getV2Order(gatewayOrderId: string): Promise<any | undefined> {
-    // @ts-ignore
+  async getV2Order(gatewayOrderId: string): Promise<V2Order | undefined> {
     return this.v2orders.get(gatewayOrderId);
   }
 
+  async updateV2Order(gatewayOrderId: string, data: UpdateV2Order): Promise<V2Order | undefined> {
+    const existing = this.v2orders.get(gatewayOrderId);
+    if (!existing) return undefined;
+    const updated: V2Order = { ...existing, ...data, updated_at: new Date().toISOString() };
+    this.v2orders.set(gatewayOrderId, updated);
+    return updated;
+  }
+
+  async transitionV2Order(gatewayOrderId: string, status: V2OrderStatus, data: UpdateV2Order = {}): Promise<V2Order | undefined> {
+    const existing = this.v2orders.get(gatewayOrderId);
+    if (!existing || !canTransition(existing.status, status)) return undefined;
+    return this.updateV2Order(gatewayOrderId, { ...data, status } as UpdateV2Order);
+  }
+
+  async listV2Orders(filter: V2OrderFilter = {}): Promise<V2Order[]> {
+    const statuses = filter.status === undefined ? undefined : [filter.status].flat();
+    return Array.from(this.v2orders.values())
+      .filter((v) => (!filter.merchant_id || v.merchant_id === filter.merchant_id) && (!statuses || statuses.includes(v.status)))
+      .filter((v) => !filter.expires_before || (!!v.expires_at && v.expires_at <= filter.expires_before))
+      .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+  }
+
   async getOrder(id: string): Promise<Order | undefined> {
     return this.orders.get(id);
   }
@@ -167,8 +373,331 @@ export class MemStorage implements IStorage {
       new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
     );
   }
+  async getTransactionsByOrderId(orderId: string): Promise<Transaction[]> {
+    return (await this.getTransactions()).filter((t) => t.orderId === orderId);
+  }
+
+  // synchronous from check to insert, so concurrent refunds can't both pass the check
+  async refundTransaction(transactionId: string, request: { amount?: number; reason?: string }): Promise<RefundResult> {
+    const transaction = this.transactions.get(transactionId);
+    if (!transaction) return { ok: false, reason: "not_found" };
+    const prior = this.refundsFor(transactionId);
+    const plan = planRefund(transaction, prior, request.amount);
+    if (!plan.ok) return plan;
+
+    const refund: Refund = {
+      id: `RFD_${randomUUID().slice(0, 12).toUpperCase()}`,
+      transactionId,
+      orderId: transaction.orderId,
+      amount: plan.amount,
+      status: "processed",
+      reason: request.reason,
+      createdAt: new Date().toISOString(),
+    };
+    if (debitedAccount(transaction, this.ledger) && !this.applyJournal(refundJournal(transaction, refund))) {
+      refund.status = "failed";
+      refund.failureReason = "The original bank account no longer exists";
+    }
+    this.refunds.set(refund.id, refund);
+    return { ok: true, refund, transaction, refundedTotal: refundedAmount([...prior, refund]) };
+  }
+
+  // synchronous like refundTransaction, so a capture and a void can't both win
+  async captureAuthorization(transactionId: string, amount?: number): Promise<AuthorizationResult> {
+    const transaction = this.transactions.get(transactionId);
+    if (!transaction) return { ok: false, reason: "not_found" };
+    const plan = planCapture(transaction, amount);
+    if (!plan.ok) return plan.reason === "not_authorized" ? { ...plan, transaction } : plan;
+
+    if (holdsFunds(transaction, this.ledger)) {
+      for (const journal of captureJournals(transaction, plan)) this.applyJournal(journal);
+    }
+    const captured: Transaction = { ...transaction, status: "success", capturedAmount: plan.amount, capturedAt: new Date().toISOString() };
+    this.transactions.set(transactionId, captured);
+    return { ok: true, transaction: captured };
+  }
+
+  async voidAuthorization(transactionId: string): Promise<AuthorizationResult> {
+    const transaction = this.transactions.get(transactionId);
+    if (!transaction) return { ok: false, reason: "not_found" };
+    if (transaction.status !== "authorized") return { ok: false, reason: "not_authorized", transaction };
+
+    if (holdsFunds(transaction, this.ledger)) this.applyJournal(releaseJournal(transaction));
+    const voided: Transaction = { ...transaction, status: "voided", voidedAt: new Date().toISOString() };
+    this.transactions.set(transactionId, voided);
+    return { ok: true, transaction: voided };
+  }
+
+  async listExpiredAuthorizations(before: string): Promise<Transaction[]> {
+    return Array.from(this.transactions.values()).filter(
+      (t) => t.status === "authorized" && !!t.authorizationExpiresAt && t.authorizationExpiresAt <= before,
+    );
+  }
+
+  async completeTransaction(transactionId: string, from: AwaitingStatus, outcome: TransactionOutcome): Promise<Transaction | undefined> {
+    const transaction = this.transactions.get(transactionId);
+    if (!transaction || transaction.status !== from) return undefined;
+    const completed: Transaction = { ...transaction, ...outcome };
+    this.transactions.set(transactionId, completed);
+    return completed;
+  }
+
+  async settleCardVault(transactionId: string, cardTokenId: string | undefined): Promise<Transaction | undefined> {
+    const transaction = this.transactions.get(transactionId);
+    if (!transaction) return undefined;
+    const settled: Transaction = {
+      ...transaction,
+      cardTokenId: cardTokenId ?? transaction.cardTokenId,
+      saveCardFor: undefined,
+      saveCardHolderName: undefined,
+      saveCardFingerprint: undefined,
+    };
+    this.transactions.set(transactionId, settled);
+    return settled;
+  }
+
+  async recordChallengeAttempt(transactionId: string): Promise<Transaction | undefined> {
+    const transaction = this.transactions.get(transactionId);
+    if (!transaction || transaction.status !== "requires_action") return undefined;
+    const attempted: Transaction = { ...transaction, challengeAttempts: (transaction.challengeAttempts ?? 0) + 1 };
+    this.transactions.set(transactionId, attempted);
+    return attempted;
+  }
+
+  async listExpiredChallenges(before: string): Promise<Transaction[]> {
+    return Array.from(this.transactions.values()).filter(
+      (t) => t.status === "requires_action" && !!t.challengeExpiresAt && t.challengeExpiresAt <= before,
+    );
+  }
+
+  async listExpiredCollects(before: string): Promise<Transaction[]> {
+    return Array.from(this.transactions.values()).filter(
+      (t) => t.status === "pending" && !!t.collectExpiresAt && t.collectExpiresAt <= before,
+    );
+  }
+
+  async getTransactionByBankSession(bankSessionId: string): Promise<Transaction | undefined> {
+    return Array.from(this.transactions.values()).find((t) => t.bankSessionId === bankSessionId);
+  }
 
-  async updateBankAccount(id: string, data: Partial<InsertBankAccount>): Promise<BankAccount | undefined> {
+  async recordBankLogin(transactionId: string): Promise<Transaction | undefined> {
+    const transaction = this.transactions.get(transactionId);
+    if (!transaction || transaction.status !== "pending") return undefined;
+    const loggedIn: Transaction = { ...transaction, bankLoginAt: new Date().toISOString() };
+    this.transactions.set(transactionId, loggedIn);
+    return loggedIn;
+  }
+
+  async listExpiredBankSessions(before: string): Promise<Transaction[]> {
+    return Array.from(this.transactions.values()).filter(
+      (t) => t.status === "pending" && !!t.bankSessionExpiresAt && t.bankSessionExpiresAt <= before,
+    );
+  }
+
+  async saveCardToken(token: InsertCardToken): Promise<CardToken> {
+    const existing = Array.from(this.cardTokens.values()).find(
+      (t) => t.merchant_id === token.merchant_id && t.customer_id === token.customer_id && t.fingerprint === token.fingerprint,
+    );
+    const saved: CardToken = existing
+      ? { ...existing, expiry_month: token.expiry_month, expiry_year: token.expiry_year, card_holder_name: token.card_holder_name }
+      : { ...token, token_id: `tok_${randomUUID().replace(/-/g, "").slice(0, 16)}`, created_at: new Date().toISOString() };
+    this.cardTokens.set(saved.token_id, saved);
+    return saved;
+  }
+
+  async getCardToken(tokenId: string): Promise<CardToken | undefined> {
+    return this.cardTokens.get(tokenId);
+  }
+
+  async listCardTokens(merchantId: string, customerId: string): Promise<CardToken[]> {
+    return Array.from(this.cardTokens.values())
+      .filter((t) => t.merchant_id === merchantId && t.customer_id === customerId)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at));
+  }
+
+  async deleteCardToken(tokenId: string): Promise<boolean> {
+    return this.cardTokens.delete(tokenId);
+  }
+
+  async registerVpa(insertVpa: InsertVpa): Promise<Vpa | undefined> {
+    if (this.vpas.has(insertVpa.vpa)) return undefined;
+    const vpa: Vpa = { ...insertVpa, createdAt: new Date().toISOString() };
+    this.vpas.set(vpa.vpa, vpa);
+    return vpa;
+  }
+
+  async getVpa(vpa: string): Promise<Vpa | undefined> {
+    return this.vpas.get(vpa);
+  }
+
+  async listVpas(): Promise<Vpa[]> {
+    return Array.from(this.vpas.values()).sort((a, b) => a.vpa.localeCompare(b.vpa));
+  }
+
+  async deleteVpa(vpa: string): Promise<boolean> {
+    return this.vpas.delete(vpa);
+  }
+
+  async createMerchant(insertMerchant: InsertMerchant): Promise<Merchant | undefined> {
+    if (this.merchants.has(insertMerchant.merchant_id) || this.merchantIdRetired(insertMerchant.merchant_id)) return undefined;
+    const now = new Date().toISOString();
+    const merchant: Merchant = { ...insertMerchant, created_at: now, updated_at: now };
+    this.merchants.set(merchant.merchant_id, merchant);
+    return merchant;
+  }
+
+  async getMerchant(merchantId: string): Promise<Merchant | undefined> {
+    return this.merchants.get(merchantId);
+  }
+
+  async listMerchants(): Promise<Merchant[]> {
+    return Array.from(this.merchants.values()).sort((a, b) => a.merchant_id.localeCompare(b.merchant_id));
+  }
+
+  async updateMerchant(merchantId: string, updates: UpdateMerchant): Promise<Merchant | undefined> {
+    const merchant = this.merchants.get(merchantId);
+    if (!merchant) return undefined;
+    const updated: Merchant = { ...merchant, ...updates, updated_at: new Date().toISOString() };
+    this.merchants.set(merchantId, updated);
+    return updated;
+  }
+
+  // keys and secrets outlive their merchant so its id is never handed out again
+  private merchantIdRetired(merchantId: string): boolean {
+    return Array.from(this.apiKeys.values()).some((key) => key.merchant_id === merchantId)
+      || Array.from(this.webhookSecrets.values()).some((secret) => secret.merchant_id === merchantId);
+  }
+
+  async deleteMerchant(merchantId: string): Promise<boolean> {
+    if (!this.merchants.delete(merchantId)) return false;
+    const now = new Date().toISOString();
+    for (const key of Array.from(this.apiKeys.values())) {
+      if (key.merchant_id === merchantId && !key.revoked_at) this.apiKeys.set(key.key_id, { ...key, revoked_at: now });
+    }
+    for (const secret of Array.from(this.webhookSecrets.values())) {
+      if (secret.merchant_id === merchantId && (!secret.expires_at || secret.expires_at > now)) {
+        this.webhookSecrets.set(secret.secret_id, { ...secret, expires_at: now });
+      }
+    }
+    return true;
+  }
+
+  async createApiKey(insertKey: InsertApiKey): Promise<ApiKey> {
+    const key: ApiKey = { ...insertKey, created_at: new Date().toISOString() };
+    this.apiKeys.set(key.key_id, key);
+    return key;
+  }
+
+  async getApiKey(keyId: string): Promise<ApiKey | undefined> {
+    return this.apiKeys.get(keyId);
+  }
+
+  async listApiKeys(merchantId: string): Promise<ApiKey[]> {
+    return Array.from(this.apiKeys.values())
+      .filter((k) => k.merchant_id === merchantId)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at));
+  }
+
+  async revokeApiKey(keyId: string): Promise<ApiKey | undefined> {
+    const key = this.apiKeys.get(keyId);
+    if (!key || key.revoked_at) return key;
+    const revoked: ApiKey = { ...key, revoked_at: new Date().toISOString() };
+    this.apiKeys.set(keyId, revoked);
+    return revoked;
+  }
+
+  async listWebhookSecrets(merchantId: string, mode: ApiKeyMode, at: string): Promise<WebhookSecret[]> {
+    return Array.from(this.webhookSecrets.values())
+      .filter((s) => s.merchant_id === merchantId && s.mode === mode && (!s.expires_at || s.expires_at > at))
+      .sort((a, b) => b.created_at.localeCompare(a.created_at));
+  }
+
+  async rotateWebhookSecret(insertSecret: InsertWebhookSecret, expiresAt: string): Promise<WebhookSecret> {
+    const now = new Date().toISOString();
+    for (const active of await this.listWebhookSecrets(insertSecret.merchant_id, insertSecret.mode, now)) {
+      if (!active.expires_at || active.expires_at > expiresAt) {
+        this.webhookSecrets.set(active.secret_id, { ...active, expires_at: expiresAt });
+      }
+    }
+    const secret: WebhookSecret = { ...insertSecret, created_at: now };
+    this.webhookSecrets.set(secret.secret_id, secret);
+    return secret;
+  }
+
+  async createWebhookEvent(insertEvent: InsertWebhookOutboxEvent): Promise<WebhookOutboxEvent> {
+    const now = new Date().toISOString();
+    const event: WebhookOutboxEvent = { ...insertEvent, status: "pending", attempt_count: 0, next_attempt_at: now, created_at: now };
+    this.webhookEvents.set(event.event_id, event);
+    return event;
+  }
+
+  async getWebhookEvent(eventId: string): Promise<WebhookOutboxEvent | undefined> {
+    return this.webhookEvents.get(eventId);
+  }
+
+  async listWebhookEvents(filter: WebhookOutboxFilter = {}): Promise<WebhookOutboxEvent[]> {
+    return Array.from(this.webhookEvents.values())
+      .filter((e) => (!filter.status || e.status === filter.status) && (!filter.gateway_order_id || e.gateway_order_id === filter.gateway_order_id))
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .slice(0, filter.limit);
+  }
+
+  async claimDueWebhookEvents(now: string, leaseUntil: string, limit: number): Promise<WebhookOutboxEvent[]> {
+    const due = Array.from(this.webhookEvents.values())
+      .filter((e) => e.status === "pending" && !!e.next_attempt_at && e.next_attempt_at <= now)
+      .sort((a, b) => a.next_attempt_at!.localeCompare(b.next_attempt_at!))
+      .slice(0, limit);
+    return due.map((event) => {
+      const leased: WebhookOutboxEvent = { ...event, next_attempt_at: leaseUntil };
+      this.webhookEvents.set(event.event_id, leased);
+      return leased;
+    });
+  }
+
+  async recordWebhookAttempt(attempt: WebhookAttempt, update: WebhookOutboxUpdate): Promise<WebhookOutboxEvent | undefined> {
+    const event = this.webhookEvents.get(attempt.event_id);
+    if (!event) return undefined;
+    this.webhookAttempts.set(attempt.attempt_id, attempt);
+    const updated: WebhookOutboxEvent = {
+      ...event,
+      ...update,
+      attempt_count: attempt.attempt_number,
+      last_attempt_at: attempt.attempted_at,
+    };
+    this.webhookEvents.set(event.event_id, updated);
+    return updated;
+  }
+
+  async listWebhookAttempts(eventId: string): Promise<WebhookAttempt[]> {
+    return Array.from(this.webhookAttempts.values())
+      .filter((a) => a.event_id === eventId)
+      .sort((a, b) => a.attempt_number - b.attempt_number);
+  }
+
+  async requeueWebhookEvent(eventId: string): Promise<WebhookOutboxEvent | undefined> {
+    const event = this.webhookEvents.get(eventId);
+    if (!event || event.status !== "dead") return undefined;
+    const requeued: WebhookOutboxEvent = { ...event, status: "pending", next_attempt_at: new Date().toISOString() };
+    this.webhookEvents.set(eventId, requeued);
+    return requeued;
+  }
+
+  private refundsFor(transactionId: string) {
+    return Array.from(this.refunds.values())
+      .filter((r) => r.transactionId === transactionId)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async getRefunds(transactionId: string): Promise<Refund[]> {
+    return this.refundsFor(transactionId);
+  }
+
+  async listRefunds(): Promise<Refund[]> {
+    return Array.from(this.refunds.values()).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+
+  async updateBankAccount(id: string, data: Partial<Omit<InsertBankAccount, "balance">>): Promise<BankAccount | undefined> {
     const account = this.bankAccounts.get(id);
     if (account) {
       const updatedAccount = { ...account, ...data };
@@ -181,6 +710,41 @@ export class MemStorage implements IStorage {
   async deleteBankAccount(id: string): Promise<boolean> {
     return this.bankAccounts.delete(id);
   }
+
+  async reserveIdempotencyKey(record: InsertIdempotencyKey): Promise<IdempotencyReservation> {
+    const id = `${record.scope}\n${record.key}`;
+    const existing = this.idempotencyKeys.get(id);
+    if (existing && existing.expiresAt > record.createdAt) {
+      return { reserved: false, existing };
+    }
+    this.idempotencyKeys.set(id, { ...record });
+    return { reserved: true };
+  }
+
+  async completeIdempotencyKey(scope: string, key: string, responseStatus: number, responseBody: unknown): Promise<void> {
+    const existing = this.idempotencyKeys.get(`${scope}\n${key}`);
+    if (existing) {
+      existing.responseStatus = responseStatus;
+      existing.responseBody = responseBody;
+    }
+  }
+
+  async releaseIdempotencyKey(scope: string, key: string): Promise<void> {
+    this.idempotencyKeys.delete(`${scope}\n${key}`);
+  }
+}
+
+function createStorage(): IStorage {
+  const driver = (process.env.STORAGE_DRIVER || "memory") as StorageDriver;
+  switch (driver) {
+    case "memory":
+      return new MemStorage();
+    case "postgres":
+    case "pglite":
+      return new DbStorage(driver);
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}", expected memory, postgres or pglite`);
+  }
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
@@ -0,0 +1,92 @@
+import { randomUUID } from "crypto";
+import type { Transaction } from "@shared/schema";
+import { storage } from "./storage";
+import { finalizePayment, type PaymentFailure } from "./payment-attempts";
+import { positiveIntFromEnv } from "./env";
+
+// Simulated 3-D Secure. The issuer "sends" TEST_OTP; the failure OTPs let a
+// tester force the other endings without waiting out the attempts.
+export const TEST_OTP = "123456";
+
+const failureOtps: Record<string, PaymentFailure> = {
+  "000000": { failureCode: "authentication_failed", failureReason: "Cardholder failed 3-D Secure authentication" },
+  "999999": { failureCode: "authentication_unavailable", failureReason: "The issuer's authentication service is unavailable" },
+};
+
+// Catalog cards with a challenge_3ds outcome are always challenged; so is any
+// card payment of at least THREE_DS_MIN_AMOUNT rupees, when that is set.
+export function requiresChallenge(amount: number, challengedCard: boolean) {
+  const minAmount = parseFloat(process.env.THREE_DS_MIN_AMOUNT || "");
+  return challengedCard || (Number.isFinite(minAmount) && amount >= minAmount);
+}
+
+// Fields for a new challenge; it times out after THREE_DS_CHALLENGE_SECONDS (default 5 minutes)
+export function newChallenge(now = Date.now()) {
+  const seconds = positiveIntFromEnv("THREE_DS_CHALLENGE_SECONDS", 5 * 60);
+  return {
+    challengeId: `CHL_${randomUUID().slice(0, 12).toUpperCase()}`,
+    challengeAttempts: 0,
+    challengeExpiresAt: new Date(now + seconds * 1000).toISOString(),
+  };
+}
+
+const timedOut = { failureCode: "authentication_timeout", failureReason: "3-D Secure authentication timed out" };
+const tooManyAttempts = { failureCode: "authentication_failed", failureReason: "Too many incorrect OTP attempts" };
+
+const finishChallenge = (transaction: Transaction, failure?: PaymentFailure) =>
+  finalizePayment(transaction, "requires_action", failure);
+
+export type AuthenticationResult =
+  | { ok: true; transaction: Transaction }
+  | { ok: false; reason: "not_found" }
+  | { ok: false; reason: "not_pending"; transaction: Transaction }
+  | { ok: false; reason: "challenge_mismatch" }
+  | { ok: false; reason: "invalid_otp"; attemptsRemaining: number };
+
+// Verify an OTP. A correct or failure OTP, a timed-out challenge or running
+// out of attempts (THREE_DS_MAX_ATTEMPTS, default 3) finalizes the payment.
+export async function authenticatePayment(transactionId: string, otp: string, challengeId?: string): Promise<AuthenticationResult> {
+  const transaction = await storage.getTransaction(transactionId);
+  if (!transaction) return { ok: false, reason: "not_found" };
+  if (transaction.status !== "requires_action") return { ok: false, reason: "not_pending", transaction };
+  if (challengeId && challengeId !== transaction.challengeId) return { ok: false, reason: "challenge_mismatch" };
+
+  let failure: PaymentFailure | undefined;
+  if (transaction.challengeExpiresAt && transaction.challengeExpiresAt <= new Date().toISOString()) {
+    failure = timedOut;
+  } else if (otp !== TEST_OTP) {
+    failure = failureOtps[otp];
+    if (!failure) {
+      const attempted = await storage.recordChallengeAttempt(transactionId);
+      if (attempted) {
+        const attemptsRemaining = positiveIntFromEnv("THREE_DS_MAX_ATTEMPTS", 3) - (attempted.challengeAttempts ?? 0);
+        if (attemptsRemaining > 0) return { ok: false, reason: "invalid_otp", attemptsRemaining };
+      }
+      failure = tooManyAttempts;
+    }
+  }
+
+  const completed = await finishChallenge(transaction, failure);
+  if (completed) return { ok: true, transaction: completed };
+  const latest = await storage.getTransaction(transactionId);
+  return { ok: false, reason: "not_pending", transaction: latest ?? transaction };
+}
+
+export async function failExpiredChallenges(now = new Date()): Promise<number> {
+  const expired = await storage.listExpiredChallenges(now.toISOString());
+  let count = 0;
+  for (const transaction of expired) {
+    if (await finishChallenge(transaction, timedOut)) count++;
+  }
+  return count;
+}
+
+// Challenge timeout sweep (THREE_DS_SWEEP_INTERVAL_MS, default 60s) so an
+// abandoned challenge doesn't leave its order ATTEMPTED forever
+export function startChallengeSweeper() {
+  const timer = setInterval(() => {
+    failExpiredChallenges().catch((err) => console.error("3-D Secure challenge sweep failed:", err));
+  }, positiveIntFromEnv("THREE_DS_SWEEP_INTERVAL_MS", 60_000));
+  timer.unref();
+  return timer;
+}
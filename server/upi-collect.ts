@@ -0,0 +1,82 @@
+import type { Transaction } from "@shared/schema";
+import { storage } from "./storage";
+import { approveFromAccount, finalizePayment, type PaymentFailure } from "./payment-attempts";
+import { findScenario, simulatePayment } from "./scenarios";
+import { paymentWebhookPayload, sendOrderWebhook } from "./webhooks";
+import { positiveIntFromEnv } from "./env";
+
+// Simulated UPI collect. The payment is created "pending" while the request
+// sits in the customer's UPI app; the PSP answers after UPI_COLLECT_DELAY_MS
+// (default 5s) unless an admin approves or rejects it first.
+
+// Unanswered requests fail after UPI_COLLECT_TIMEOUT_SECONDS (default 5 minutes)
+export function collectExpiry(now = Date.now()) {
+  const seconds = positiveIntFromEnv("UPI_COLLECT_TIMEOUT_SECONDS", 5 * 60);
+  return new Date(now + seconds * 1000).toISOString();
+}
+
+const expired: PaymentFailure = { failureCode: "collect_expired", failureReason: "The UPI collect request expired before it was approved" };
+const rejected: PaymentFailure = { failureCode: "upi_declined", failureReason: "UPI collect request was rejected" };
+const accountGone: PaymentFailure = { failureCode: "invalid_vpa", failureReason: "The bank account linked to this UPI ID no longer exists" };
+
+// An approved request debits the account the VPA is linked to, if any
+async function approveCollect(transaction: Transaction) {
+  if (!transaction.bankAccountId) return finalizePayment(transaction, "pending");
+  const account = await storage.getBankAccount(transaction.bankAccountId);
+  return account ? approveFromAccount(transaction, "pending", account) : finalizePayment(transaction, "pending", accountGone);
+}
+
+// Tell the merchant the payment is pending, then let the simulated PSP answer.
+// Catalog VPAs with a timeout outcome never answer and are left to expire.
+export async function startCollect(transaction: Transaction, upiId: string | undefined) {
+  const order = transaction.orderId.startsWith("gw_") ? await storage.getV2Order(transaction.orderId) : undefined;
+  if (order) {
+    const payload = paymentWebhookPayload(order, transaction, "payment.pending");
+    await sendOrderWebhook(order, payload, `${transaction.id}:pending`);
+  }
+
+  if (upiId && findScenario("upi", upiId)?.outcome === "timeout") return;
+  const timer = setTimeout(() => {
+    simulatePayment("upi", upiId)
+      .then((simulated) => simulated.ok
+        ? approveCollect(transaction)
+        : finalizePayment(transaction, "pending", { failureCode: simulated.failureCode, failureReason: simulated.failureReason }))
+      .catch((err) => console.error(`UPI collect for ${transaction.id} failed:`, err));
+  }, positiveIntFromEnv("UPI_COLLECT_DELAY_MS", 5_000));
+  timer.unref();
+}
+
+export type CollectResolution =
+  | { ok: true; transaction: Transaction }
+  | { ok: false; reason: "not_found" }
+  | { ok: false; reason: "not_pending"; transaction: Transaction };
+
+// Admin "approve collect" / "reject collect", standing in for the customer
+export async function resolveCollect(transactionId: string, action: "approve" | "reject"): Promise<CollectResolution> {
+  const transaction = await storage.getTransaction(transactionId);
+  if (!transaction) return { ok: false, reason: "not_found" };
+  if (transaction.status !== "pending") return { ok: false, reason: "not_pending", transaction };
+
+  const completed = action === "approve" ? await approveCollect(transaction) : await finalizePayment(transaction, "pending", rejected);
+  if (completed) return { ok: true, transaction: completed };
+  const latest = await storage.getTransaction(transactionId);
+  return { ok: false, reason: "not_pending", transaction: latest ?? transaction };
+}
+
+export async function failExpiredCollects(now = new Date()): Promise<number> {
+  const pending = await storage.listExpiredCollects(now.toISOString());
+  let count = 0;
+  for (const transaction of pending) {
+    if (await finalizePayment(transaction, "pending", expired)) count++;
+  }
+  return count;
+}
+
+// Collect expiry sweep (UPI_COLLECT_SWEEP_INTERVAL_MS, default 60s)
+export function startCollectSweeper() {
+  const timer = setInterval(() => {
+    failExpiredCollects().catch((err) => console.error("UPI collect sweep failed:", err));
+  }, positiveIntFromEnv("UPI_COLLECT_SWEEP_INTERVAL_MS", 60_000));
+  timer.unref();
+  return timer;
+}
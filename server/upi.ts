@@ -0,0 +1,28 @@
+import QRCode from "qrcode";
+import type { BankAccount, Order, V2Order, Vpa } from "@shared/schema";
+import { paisaToRupees } from "@shared/money";
+import { normalizeVpa, upiIntentUrl } from "@shared/upi";
+import { storage } from "./storage";
+
+// The registered VPA and the account it debits; undefined for unknown VPAs
+// and for VPAs whose account has since been deleted
+export async function resolveVpa(upiId: string): Promise<{ vpa: Vpa; account: BankAccount } | undefined> {
+  const vpa = await storage.getVpa(normalizeVpa(upiId));
+  const account = vpa ? await storage.getBankAccount(vpa.bankAccountId) : undefined;
+  return vpa && account ? { vpa, account } : undefined;
+}
+
+// Intent for paying an order from any UPI app, to the gateway's collection
+// VPA (UPI_PAYEE_VPA), with a QR code of the same link
+export async function orderUpiIntent(order: Order | V2Order) {
+  const intent = "gateway_order_id" in order
+    ? {
+        payeeName: order.merchant_id,
+        amount: paisaToRupees(order.amount_in_paisa),
+        reference: order.gateway_order_id,
+        note: `Order ${order.merchant_order_id}`,
+      }
+    : { payeeName: "PayFlow", amount: order.amount, reference: order.id };
+  const intentUrl = upiIntentUrl({ payeeVpa: process.env.UPI_PAYEE_VPA || "payments@payflow", ...intent });
+  return { intentUrl, qrCode: await QRCode.toDataURL(intentUrl, { margin: 1, width: 240 }) };
+}
@@ -0,0 +1,134 @@
+import crypto from "crypto";
+import type { InsertWebhookOutboxEvent, WebhookAttempt, WebhookOutboxEvent, WebhookOutboxUpdate } from "@shared/schema";
+import { WEBHOOK_SIGNATURE_HEADER, webhookSignatureHeader } from "@shared/webhook-signature";
+import { storage } from "./storage";
+import { signingSecrets } from "./webhook-secrets";
+import { positiveIntFromEnv } from "./env";
+
+// Durable webhook delivery. Events are written to the outbox first; a worker
+// leases due ones, makes one attempt each, logs it and schedules the next one
+// with exponential backoff. Events out of attempts are marked dead. A lease
+// that is never released (the process died mid-attempt) simply runs out and
+// the event is picked up again.
+
+const maxAttempts = () => positiveIntFromEnv("WEBHOOK_MAX_ATTEMPTS", 10);
+const retryBaseMs = () => positiveIntFromEnv("WEBHOOK_RETRY_BASE_MS", 1000);
+const timeoutMs = () => positiveIntFromEnv("WEBHOOK_TIMEOUT_MS", 10_000);
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+const BATCH_SIZE = 20;
+const SNIPPET_LENGTH = 500;
+
+// Store an event and try it straight away
+export async function enqueueWebhook(event: Omit<InsertWebhookOutboxEvent, "event_id">): Promise<WebhookOutboxEvent> {
+  const stored = await storage.createWebhookEvent({ ...event, event_id: `whe_${crypto.randomBytes(8).toString("hex")}` });
+  kickWebhookWorker();
+  return stored;
+}
+
+function retryDelay(attemptNumber: number) {
+  const jitter = Math.floor(Math.random() * 300);
+  return Math.min(MAX_RETRY_DELAY_MS, retryBaseMs() * 2 ** attemptNumber) + jitter;
+}
+
+function describeError(err: unknown) {
+  if (!(err instanceof Error)) return String(err);
+  // undici hides the socket error (ECONNREFUSED, ...) in the cause
+  const cause = (err.cause as { code?: string } | undefined)?.code;
+  return cause ? `${err.message}: ${cause}` : err.message;
+}
+
+// One signed POST; signatures are made per attempt so retries carry a fresh timestamp
+async function attemptDelivery(event: WebhookOutboxEvent, attemptNumber: number) {
+  const secrets = await signingSecrets(event.merchant_id, event.test_mode ? "test" : "live");
+  // the merchant was deleted: nothing is sent and there is no point retrying
+  if (secrets.length === 0) return { ok: false, final: true, latency_ms: 0, error: "the merchant has no webhook signing secret" };
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    [WEBHOOK_SIGNATURE_HEADER]: webhookSignatureHeader(secrets, event.body),
+    "X-Gateway-Retry-Count": String(attemptNumber - 1),
+    "X-Gateway-Idempotency-Key": event.idempotency_key,
+    "X-Gateway-Event-Id": event.event_id,
+  };
+  if (event.test_mode) headers["X-Gateway-Test-Mode"] = "true";
+
+  const started = Date.now();
+  try {
+    const res = await fetch(event.url, { method: "POST", headers, body: event.body, signal: AbortSignal.timeout(timeoutMs()) });
+    const text = await res.text().catch(() => "");
+    return {
+      ok: res.ok,
+      status_code: res.status,
+      latency_ms: Date.now() - started,
+      response_snippet: text ? text.slice(0, SNIPPET_LENGTH) : undefined,
+    };
+  } catch (err) {
+    return { ok: false, latency_ms: Date.now() - started, error: describeError(err) };
+  }
+}
+
+async function deliver(event: WebhookOutboxEvent) {
+  const attemptNumber = event.attempt_count + 1;
+  const attemptedAt = new Date();
+  const { ok, final, ...result } = await attemptDelivery(event, attemptNumber);
+  const attempt: WebhookAttempt = {
+    attempt_id: `wha_${crypto.randomBytes(8).toString("hex")}`,
+    event_id: event.event_id,
+    attempt_number: attemptNumber,
+    attempted_at: attemptedAt.toISOString(),
+    ...result,
+  };
+  // a manually retried dead event gets one attempt before it is dead again
+  const update: WebhookOutboxUpdate = ok
+    ? { status: "delivered", delivered_at: new Date().toISOString() }
+    : final || attemptNumber >= maxAttempts()
+      ? { status: "dead" }
+      : { status: "pending", next_attempt_at: new Date(Date.now() + retryDelay(attemptNumber)).toISOString() };
+  await storage.recordWebhookAttempt(attempt, update);
+  if (update.status === "dead") {
+    console.error(`Webhook ${event.event_id} to ${event.url} is dead after ${attemptNumber} attempts`);
+  }
+}
+
+// Deliver everything due now; returns how many events were attempted
+export async function deliverDueWebhooks(now = new Date()): Promise<number> {
+  let total = 0;
+  for (;;) {
+    // the lease outlasts the request timeout, so a live attempt is never taken over
+    const leaseUntil = new Date(now.getTime() + 2 * timeoutMs()).toISOString();
+    const claimed = await storage.claimDueWebhookEvents(now.toISOString(), leaseUntil, BATCH_SIZE);
+    await Promise.all(claimed.map((event) => deliver(event).catch((err) => console.error(`Webhook ${event.event_id} attempt failed:`, err))));
+    total += claimed.length;
+    if (claimed.length < BATCH_SIZE) return total;
+    now = new Date();
+  }
+}
+
+let draining: Promise<void> | undefined;
+let drainAgain = false;
+
+// Start a drain unless one is running, in which case it goes round once more
+export function kickWebhookWorker() {
+  if (draining) {
+    drainAgain = true;
+    return;
+  }
+  draining = (async () => {
+    do {
+      drainAgain = false;
+      await deliverDueWebhooks();
+    } while (drainAgain);
+  })()
+    .catch((err) => console.error("Webhook delivery failed:", err))
+    .finally(() => {
+      draining = undefined;
+    });
+}
+
+// Background worker (WEBHOOK_WORKER_INTERVAL_MS, default 1s) for retries and
+// for events left over from before a restart
+export function startWebhookWorker() {
+  kickWebhookWorker();
+  const timer = setInterval(kickWebhookWorker, positiveIntFromEnv("WEBHOOK_WORKER_INTERVAL_MS", 1000));
+  timer.unref();
+  return timer;
+}
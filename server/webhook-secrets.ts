@@ -0,0 +1,62 @@
+import crypto from "crypto";
+import type { ApiKeyMode, WebhookSecret } from "@shared/schema";
+import { apiKeyModes } from "@shared/schema";
+import { storage } from "./storage";
+import { positiveIntFromEnv } from "./env";
+
+// Per-merchant webhook signing secrets. Rotating keeps the old secret signing
+// next to the new one for an overlap window so receivers can switch over.
+
+const DEFAULT_OVERLAP_SECONDS = 24 * 60 * 60;
+
+function newSecret(merchantId: string, mode: ApiKeyMode) {
+  return {
+    secret_id: `whs_${crypto.randomBytes(8).toString("hex")}`,
+    merchant_id: merchantId,
+    mode,
+    secret: `whsec_${crypto.randomBytes(24).toString("hex")}`,
+  };
+}
+
+// Fresh secrets for a new merchant, one per mode; the caller shows them once
+export async function createWebhookSecrets(merchantId: string): Promise<Record<ApiKeyMode, string>> {
+  const secrets = {} as Record<ApiKeyMode, string>;
+  for (const mode of apiKeyModes) {
+    const created = await storage.rotateWebhookSecret(newSecret(merchantId, mode), new Date().toISOString());
+    secrets[mode] = created.secret;
+  }
+  return secrets;
+}
+
+export async function rotateWebhookSecret(merchantId: string, mode: ApiKeyMode, overlapSeconds?: number) {
+  const overlap = overlapSeconds ?? positiveIntFromEnv("WEBHOOK_SECRET_OVERLAP_SECONDS", DEFAULT_OVERLAP_SECONDS);
+  const previousExpiresAt = new Date(Date.now() + overlap * 1000).toISOString();
+  const secret = await storage.rotateWebhookSecret(newSecret(merchantId, mode), previousExpiresAt);
+  return { secret, previousExpiresAt };
+}
+
+// Secrets to sign with right now, newest first. Merchants that predate
+// per-merchant secrets get one on first use; a deleted merchant gets none.
+export async function signingSecrets(merchantId: string, mode: ApiKeyMode): Promise<string[]> {
+  const now = new Date().toISOString();
+  const active = await storage.listWebhookSecrets(merchantId, mode, now);
+  if (active.length > 0) return active.map((s) => s.secret);
+  if (!(await storage.getMerchant(merchantId))) return [];
+  const created = await storage.rotateWebhookSecret(newSecret(merchantId, mode), now);
+  return [created.secret];
+}
+
+export async function listWebhookSecrets(merchantId: string, mode: ApiKeyMode) {
+  return storage.listWebhookSecrets(merchantId, mode, new Date().toISOString());
+}
+
+// Metadata only; a secret value is returned once, when it is created
+export function serializeWebhookSecret(secret: WebhookSecret) {
+  return {
+    secret_id: secret.secret_id,
+    merchant_id: secret.merchant_id,
+    mode: secret.mode,
+    created_at: secret.created_at,
+    expires_at: secret.expires_at,
+  };
+}
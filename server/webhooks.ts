@@ -1,64 +1,68 @@
-import crypto from "crypto";
+import type { OrderEventPayload, RefundEventPayload, Transaction, TransactionStatus, V2Order, WebhookEvent, WebhookPayload } from "@shared/schema";
+import { rupeesToPaisa } from "@shared/money";
+import { maskCardNumber } from "@shared/cards";
+import { enqueueWebhook } from "./webhook-outbox";
 
-export interface WebhookOptions {
-  url: string;
-  body: string; // raw JSON string
-  secret: string; // merchant webhook secret
-  maxRetries?: number;
-  idempotencyKey?: string;
-  testMode?: boolean;
-}
-
-function computeSignature(secret: string, payload: string) {
-  const h = crypto.createHmac("sha256", secret).update(payload).digest("hex");
-  return `sha256=${h}`;
-}
+type OrderWebhookPayload = (WebhookPayload & { event: WebhookEvent }) | OrderEventPayload | RefundEventPayload;
 
-function sleep(ms: number) {
-  return new Promise((res) => setTimeout(res, ms));
+// Queue an event for a v2 order's callback_url; the outbox worker delivers it
+export async function sendOrderWebhook(order: V2Order, payload: OrderWebhookPayload, idempotencyKey: string) {
+  await enqueueWebhook({
+    merchant_id: order.merchant_id,
+    gateway_order_id: order.gateway_order_id,
+    event: payload.event,
+    url: order.callback_url,
+    body: JSON.stringify(payload),
+    idempotency_key: idempotencyKey,
+    test_mode: order.test_mode,
+  });
 }
 
-export async function sendSignedWebhook(opts: WebhookOptions) {
-  const maxRetries = opts.maxRetries ?? 5;
-  let attempt = 0;
-  const baseDelay = 1000; // 1s
-  const timestamp = Math.floor(Date.now() / 1000).toString();
-  const signature = computeSignature(opts.secret, opts.body);
-
-  while (attempt <= maxRetries) {
-    try {
-      const headers: Record<string, string> = {
-        "Content-Type": "application/json",
-        "X-Gateway-Signature": signature,
-        "X-Gateway-Timestamp": timestamp,
-        "X-Gateway-Retry-Count": String(attempt),
-      };
-      if (opts.idempotencyKey) headers["X-Gateway-Idempotency-Key"] = opts.idempotencyKey;
-      if (opts.testMode) headers["X-Gateway-Test-Mode"] = "true";
+const paymentStatusLabels: Record<TransactionStatus, WebhookPayload["status"]> = {
+  success: "SUCCESS",
+  failed: "FAILED",
+  authorized: "AUTHORIZED",
+  voided: "VOIDED",
+  requires_action: "REQUIRES_ACTION",
+  pending: "PENDING",
+};
 
-      const res = await fetch(opts.url, {
-        method: "POST",
-        headers,
-        body: opts.body,
-        // follow redirects
-      });
-
-      if (res.ok) {
-        return { success: true, status: res.status };
-      }
-
-      // non-200 -> will retry
-      attempt++;
-      const jitter = Math.floor(Math.random() * 300);
-      const delay = Math.min(30000, baseDelay * 2 ** attempt + jitter);
-      await sleep(delay);
-    } catch (err) {
-      attempt++;
-      const jitter = Math.floor(Math.random() * 300);
-      const delay = Math.min(30000, baseDelay * 2 ** attempt + jitter);
-      await sleep(delay);
-    }
-  }
+// Transaction status in the uppercase vocabulary merchants see
+export function paymentStatusLabel(status: TransactionStatus) {
+  return paymentStatusLabels[status];
+}
 
-  return { success: false, status: 0 };
+// Payment event for a v2 order; `extra` carries fields only the caller knows (paid_at)
+export function paymentWebhookPayload(
+  order: V2Order,
+  transaction: Transaction,
+  event: WebhookEvent,
+  extra: Partial<WebhookPayload> = {},
+): WebhookPayload & { event: WebhookEvent } {
+  return {
+    event,
+    gateway_order_id: order.gateway_order_id,
+    merchant_order_id: order.merchant_order_id,
+    payment_ref: transaction.id,
+    status: paymentStatusLabel(transaction.status),
+    amount_in_paisa: order.amount_in_paisa,
+    captured_amount_in_paisa: transaction.capturedAmount !== undefined ? rupeesToPaisa(transaction.capturedAmount) : undefined,
+    currency: order.currency,
+    payment_method: transaction.paymentMethod.toUpperCase(),
+    failure_code: transaction.failureCode,
+    card: transaction.cardLast4
+      ? {
+          network: transaction.cardNetwork,
+          masked: maskCardNumber(transaction.cardLast4),
+          last4: transaction.cardLast4,
+          expiry_month: transaction.cardExpiryMonth,
+          expiry_year: transaction.cardExpiryYear,
+          token_id: transaction.cardTokenId,
+        }
+      : undefined,
+    one_time_order_token: order.one_time_order_token,
+    test_mode: order.test_mode,
+    metadata: order.metadata,
+    ...extra,
+  };
 }
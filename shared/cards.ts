@@ -0,0 +1,151 @@
+// Card checks shared by the payment modal and the gateway. Only the network,
+// last four digits and expiry are ever stored; the PAN and CVV are dropped
+// once a payment has been validated.
+
+export const cardNetworks = ["visa", "mastercard", "rupay", "amex", "diners"] as const;
+export type CardNetwork = (typeof cardNetworks)[number];
+
+export const cardNetworkLabels: Record<CardNetwork, string> = {
+  visa: "Visa",
+  mastercard: "Mastercard",
+  rupay: "RuPay",
+  amex: "American Express",
+  diners: "Diners Club",
+};
+
+interface NetworkRule {
+  network: CardNetwork;
+  // inclusive BIN prefix ranges, compared on the same number of digits
+  ranges: [string, string][];
+  lengths: number[];
+  cvvLength: number;
+}
+
+// RuPay is checked before the ranges it overlaps with
+const networkRules: NetworkRule[] = [
+  {
+    network: "rupay",
+    ranges: [["508500", "508999"], ["606985", "607984"], ["608001", "608500"], ["652150", "653149"], ["817200", "820199"]],
+    lengths: [16],
+    cvvLength: 3,
+  },
+  { network: "amex", ranges: [["34", "34"], ["37", "37"]], lengths: [15], cvvLength: 4 },
+  { network: "diners", ranges: [["300", "305"], ["36", "36"], ["38", "39"]], lengths: [14, 16], cvvLength: 3 },
+  { network: "mastercard", ranges: [["51", "55"], ["2221", "2720"]], lengths: [16], cvvLength: 3 },
+  { network: "visa", ranges: [["4", "4"]], lengths: [13, 16, 19], cvvLength: 3 },
+];
+
+export function normalizeCardNumber(cardNumber: string): string {
+  return cardNumber.replace(/[\s-]/g, "");
+}
+
+export function luhnValid(cardNumber: string): boolean {
+  if (!/^\d+$/.test(cardNumber)) return false;
+  let sum = 0;
+  for (let i = 0; i < cardNumber.length; i++) {
+    let digit = Number(cardNumber[cardNumber.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+function ruleFor(cardNumber: string): NetworkRule | undefined {
+  return networkRules.find((rule) =>
+    rule.ranges.some(([low, high]) => {
+      const prefix = cardNumber.slice(0, low.length);
+      return prefix.length === low.length && prefix >= low && prefix <= high;
+    }),
+  );
+}
+
+export function detectCardNetwork(cardNumber: string): CardNetwork | undefined {
+  return ruleFor(normalizeCardNumber(cardNumber))?.network;
+}
+
+// "MM/YY" -> month and four-digit year
+export function parseCardExpiry(expiry: string): { month: number; year: number } | undefined {
+  const match = /^(\d{2})\/(\d{2})$/.exec(expiry.trim());
+  if (!match) return undefined;
+  const month = Number(match[1]);
+  if (month < 1 || month > 12) return undefined;
+  return { month, year: 2000 + Number(match[2]) };
+}
+
+// cards are valid through the last day of their expiry month
+export function cardExpired(expiryMonth: number, expiryYear: number, now = new Date()): boolean {
+  return new Date(expiryYear, expiryMonth, 1) <= now;
+}
+
+// also used for CVV-only payments with a vaulted card
+export function checkCvv(network: CardNetwork, cvv: string): Extract<CardValidation, { ok: false }> | undefined {
+  const length = networkRules.find((rule) => rule.network === network)?.cvvLength ?? 3;
+  if (new RegExp(`^\\d{${length}}$`).test(cvv)) return undefined;
+  return { ok: false, code: "invalid_cvv", message: `CVV must be ${length} digits for ${cardNetworkLabels[network]}` };
+}
+
+export interface CardSummary {
+  network: CardNetwork;
+  last4: string;
+  expiryMonth: number;
+  expiryYear: number;
+}
+
+export type CardValidationCode = "invalid_number" | "unsupported_network" | "invalid_expiry" | "expired_card" | "invalid_cvv";
+
+export type CardValidation =
+  | { ok: true; card: CardSummary }
+  | { ok: false; code: CardValidationCode; message: string };
+
+export function validateCard(
+  details: { cardNumber: string; expiry: string; cvv: string },
+  now = new Date(),
+): CardValidation {
+  const cardNumber = normalizeCardNumber(details.cardNumber);
+  if (!/^\d{12,19}$/.test(cardNumber) || !luhnValid(cardNumber)) {
+    return { ok: false, code: "invalid_number", message: "Card number is invalid" };
+  }
+  const rule = ruleFor(cardNumber);
+  if (!rule || !rule.lengths.includes(cardNumber.length)) {
+    return { ok: false, code: "unsupported_network", message: "Card network is not supported" };
+  }
+  const expiry = parseCardExpiry(details.expiry);
+  if (!expiry) {
+    return { ok: false, code: "invalid_expiry", message: "Expiry must be MM/YY" };
+  }
+  if (cardExpired(expiry.month, expiry.year, now)) {
+    return { ok: false, code: "expired_card", message: "Card has expired" };
+  }
+  const cvvError = checkCvv(rule.network, details.cvv);
+  if (cvvError) return cvvError;
+  return {
+    ok: true,
+    card: { network: rule.network, last4: cardNumber.slice(-4), expiryMonth: expiry.month, expiryYear: expiry.year },
+  };
+}
+
+export function maskCardNumber(last4: string): string {
+  return `****${last4}`;
+}
+
+interface StoredCard {
+  cardNetwork?: CardNetwork;
+  cardLast4?: string;
+  cardExpiryMonth?: number;
+  cardExpiryYear?: number;
+}
+
+// "Visa ****4242", as shown on receipts and the transactions list
+export function cardLabel(card: StoredCard): string {
+  const network = card.cardNetwork ? cardNetworkLabels[card.cardNetwork] : "Card";
+  return `${network} ${maskCardNumber(card.cardLast4 ?? "")}`;
+}
+
+// "MM/YY"
+export function cardExpiry(card: StoredCard): string {
+  if (!card.cardExpiryMonth || !card.cardExpiryYear) return "";
+  return `${String(card.cardExpiryMonth).padStart(2, "0")}/${String(card.cardExpiryYear % 100).padStart(2, "0")}`;
+}
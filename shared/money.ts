@@ -0,0 +1,11 @@
+// Amounts are compared and converted in integer paisa to avoid float drift.
+// v1 orders, transactions and bank balances are in rupees; v2 orders and
+// webhooks carry amount_in_paisa.
+
+export function rupeesToPaisa(rupees: number): number {
+  return Math.round(rupees * 100);
+}
+
+export function paisaToRupees(paisa: number): number {
+  return paisa / 100;
+}
@@ -1,11 +1,25 @@
 import { z } from "zod";
+import { pgTable, text, integer, doublePrecision, boolean, jsonb, index, uniqueIndex, primaryKey } from "drizzle-orm/pg-core";
+import { createSelectSchema } from "drizzle-zod";
+import { cardNetworks } from "./cards";
+import { isValidVpa, normalizeVpa } from "./upi";
 
-export const bankAccountSchema = z.object({
-  id: z.string(),
-  accountHolderName: z.string().min(1, "Account holder name is required"),
-  accountNumber: z.string().min(10, "Account number must be at least 10 digits"),
-  bankName: z.string().min(1, "Bank name is required"),
-  balance: z.number().min(0, "Balance cannot be negative"),
+// Timestamps are stored as ISO-8601 text so rows round-trip to the same
+// strings the API and webhooks already expose.
+
+export const bankAccounts = pgTable("bank_accounts", {
+  id: text("id").primaryKey(),
+  accountHolderName: text("account_holder_name").notNull(),
+  accountNumber: text("account_number").notNull(),
+  bankName: text("bank_name").notNull(),
+  balance: doublePrecision("balance").notNull(),
+});
+
+export const bankAccountSchema = createSelectSchema(bankAccounts, {
+  accountHolderName: (s) => s.min(1, "Account holder name is required"),
+  accountNumber: (s) => s.min(10, "Account number must be at least 10 digits"),
+  bankName: (s) => s.min(1, "Bank name is required"),
+  balance: (s) => s.min(0, "Balance cannot be negative"),
 });
 
 export const insertBankAccountSchema = bankAccountSchema.omit({ id: true });
@@ -13,12 +27,85 @@ export const insertBankAccountSchema = bankAccountSchema.omit({ id: true });
 export type BankAccount = z.infer<typeof bankAccountSchema>;
 export type InsertBankAccount = z.infer<typeof insertBankAccountSchema>;
 
-export const orderSchema = z.object({
-  id: z.string(),
-  name: z.string().min(1, "Name is required"),
-  email: z.string().email("Invalid email address"),
-  phone: z.string().min(10, "Phone number must be at least 10 digits"),
-  amount: z.number().min(1, "Amount must be at least 1"),
+// VPA registry: UPI handles (e.g. john@hdfc) and the simulated bank account a
+// UPI payment from that handle debits. VPAs are stored lowercased.
+export const vpas = pgTable("vpas", {
+  vpa: text("vpa").primaryKey(),
+  bankAccountId: text("bank_account_id").notNull(),
+  createdAt: text("created_at").notNull(),
+});
+
+export const vpaSchema = createSelectSchema(vpas);
+
+export const insertVpaSchema = z.object({
+  vpa: z.string().refine(isValidVpa, "VPA must look like name@bank").transform(normalizeVpa),
+  bankAccountId: z.string().min(1, "Bank account is required"),
+});
+
+export type Vpa = z.infer<typeof vpaSchema>;
+export type InsertVpa = z.infer<typeof insertVpaSchema>;
+
+// Double-entry ledger: every balance movement is a journal of two immutable
+// legs (one debit, one credit) between a bank account and a gateway:* system
+// account. For bank accounts a credit increases the balance and a debit
+// decreases it; bank_accounts.balance is a cache of the ledger total.
+// authorization/capture/release move funds through the gateway:holds account
+export const ledgerEntryKinds = ["opening", "payment", "refund", "adjustment", "settlement", "authorization", "capture", "release"] as const;
+
+export const ledgerEntries = pgTable("ledger_entries", {
+  id: text("id").primaryKey(),
+  journalId: text("journal_id").notNull(),
+  accountId: text("account_id").notNull(),
+  direction: text("direction", { enum: ["debit", "credit"] }).notNull(),
+  amount: doublePrecision("amount").notNull(),
+  kind: text("kind", { enum: ledgerEntryKinds }).notNull(),
+  reference: text("reference"),
+  description: text("description"),
+  createdAt: text("created_at").notNull(),
+}, (t) => [
+  index("ledger_entries_account_idx").on(t.accountId),
+]);
+
+export const ledgerEntrySchema = createSelectSchema(ledgerEntries, {
+  reference: z.string().optional(),
+  description: z.string().optional(),
+});
+
+export type LedgerEntry = z.infer<typeof ledgerEntrySchema>;
+export type LedgerEntryKind = LedgerEntry["kind"];
+
+export interface LedgerJournal {
+  kind: LedgerEntryKind;
+  debitAccountId: string;
+  creditAccountId: string;
+  amount: number;
+  reference?: string;
+  description?: string;
+}
+
+// manual movements posted through the accounts API
+export const ledgerAdjustmentSchema = z.object({
+  kind: z.enum(["adjustment", "settlement"]).default("adjustment"),
+  direction: z.enum(["debit", "credit"]),
+  amount: z.number().positive("Amount must be positive"),
+  description: z.string().optional(),
+});
+
+export type LedgerAdjustment = z.infer<typeof ledgerAdjustmentSchema>;
+
+export const orders = pgTable("orders", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull(),
+  email: text("email").notNull(),
+  phone: text("phone").notNull(),
+  amount: doublePrecision("amount").notNull(),
+});
+
+export const orderSchema = createSelectSchema(orders, {
+  name: (s) => s.min(1, "Name is required"),
+  email: (s) => s.email("Invalid email address"),
+  phone: (s) => s.min(10, "Phone number must be at least 10 digits"),
+  amount: (s) => s.min(1, "Amount must be at least 1"),
 });
 
 export const insertOrderSchema = orderSchema.omit({ id: true });
@@ -39,8 +126,13 @@ export const planSchema = z.object({
   name: z.string().optional(),
 });
 
+// "manual" only authorizes at payment time; the merchant captures or voids later
+export const paymentCaptureModes = ["automatic", "manual"] as const;
+export type PaymentCaptureMode = (typeof paymentCaptureModes)[number];
+
 export const createOrderV2Schema = z.object({
-  merchant_id: z.string(),
+  // optional: the API key decides the merchant; a different value is rejected
+  merchant_id: z.string().optional(),
   order_id: z.string(),
   one_time_order_token: z.string().min(32).max(128).optional(),
   amount_in_paisa: z.number().int().positive(),
@@ -50,25 +142,181 @@ export const createOrderV2Schema = z.object({
   plan: planSchema.optional(),
   return_url: z.string().url(),
   callback_url: z.string().url(),
+  // likewise decided by the API key's mode
   test_mode: z.boolean().optional(),
   metadata: z.record(z.any()).optional(),
   idempotency_key: z.string().optional(),
+  payment_capture: z.enum(paymentCaptureModes).default("automatic"),
+  expires_at: z
+    .string()
+    .datetime({ offset: true })
+    .refine((v) => new Date(v).getTime() > Date.now(), "expires_at must be in the future")
+    // stored in UTC so expiry sweeps can compare it as a string
+    .transform((v) => new Date(v).toISOString())
+    .optional(),
+});
+
+export type CreateOrderV2Input = z.infer<typeof createOrderV2Schema>;
+// an order to store, once the merchant and mode are known
+export type CreateOrderV2 = Omit<CreateOrderV2Input, "merchant_id" | "test_mode"> & { merchant_id: string; test_mode: boolean };
+
+// transitions between these are defined in server/order-state.ts
+export const v2OrderStatuses = ["CREATED", "ATTEMPTED", "AUTHORIZED", "COMPLETED", "FAILED", "EXPIRED", "CANCELLED"] as const;
+
+export const v2Orders = pgTable("v2_orders", {
+  gateway_order_id: text("gateway_order_id").primaryKey(),
+  merchant_id: text("merchant_id").notNull(),
+  merchant_order_id: text("merchant_order_id").notNull(),
+  one_time_order_token: text("one_time_order_token").notNull(),
+  amount_in_paisa: integer("amount_in_paisa").notNull(),
+  currency: text("currency").notNull(),
+  display_amount: text("display_amount"),
+  customer: jsonb("customer").$type<z.infer<typeof customerSchema>>(),
+  plan: jsonb("plan").$type<z.infer<typeof planSchema>>(),
+  return_url: text("return_url").notNull(),
+  callback_url: text("callback_url").notNull(),
+  test_mode: boolean("test_mode").notNull(),
+  metadata: jsonb("metadata").$type<Record<string, any>>(),
+  idempotency_key: text("idempotency_key"),
+  status: text("status", { enum: v2OrderStatuses }).notNull(),
+  created_at: text("created_at").notNull(),
+  updated_at: text("updated_at").notNull(),
+  payment_capture: text("payment_capture", { enum: paymentCaptureModes }).notNull().default("automatic"),
+  // unpaid orders move to EXPIRED once this passes
+  expires_at: text("expires_at"),
+  paid_at: text("paid_at"),
+  // id of the Transaction that settled the order
+  transaction_id: text("transaction_id"),
+}, (t) => [
+  // a merchant order id maps to exactly one gateway order
+  uniqueIndex("v2_orders_merchant_order_idx").on(t.merchant_id, t.merchant_order_id),
+]);
+
+export const v2OrderSchema = createSelectSchema(v2Orders, {
+  display_amount: z.string().optional(),
+  customer: customerSchema.optional(),
+  plan: planSchema.optional(),
+  metadata: z.record(z.any()).optional(),
+  idempotency_key: z.string().optional(),
+  expires_at: z.string().optional(),
+  paid_at: z.string().optional(),
+  transaction_id: z.string().optional(),
 });
 
-export type CreateOrderV2 = z.infer<typeof createOrderV2Schema>;
+export type V2Order = z.infer<typeof v2OrderSchema>;
+export type V2OrderStatus = V2Order["status"];
+// What the hosted checkout page needs to render a v2 order
+export interface HostedCheckoutOrder {
+  gateway_order_id: string;
+  merchant_id: string;
+  order_id: string;
+  status: V2OrderStatus;
+  payable: boolean;
+  amount_in_paisa: number;
+  currency: string;
+  display_amount?: string;
+  // customer, plan and return_url need the one-time order token
+  customer?: z.infer<typeof customerSchema>;
+  plan?: z.infer<typeof planSchema>;
+  return_url?: string;
+  test_mode: boolean;
+  expires_at?: string;
+  // the customer's vaulted cards, for CVV-only payment
+  saved_cards?: SavedCard[];
+  // what the merchant accepts; all methods if the merchant has been deleted
+  payment_methods: PaymentMethod[];
+}
+
+// status changes go through transitionV2Order so the state machine is enforced
+export type UpdateV2Order = Partial<Pick<V2Order, "paid_at" | "transaction_id">>;
+
+export interface V2OrderFilter {
+  merchant_id?: string;
+  // one status or any of several
+  status?: V2OrderStatus | V2OrderStatus[];
+  // ISO timestamp; only orders whose expires_at is at or before it
+  expires_before?: string;
+}
+
+// Vaulted cards. A token belongs to one merchant's customer and keeps only
+// what a CVV-only payment needs; the PAN itself is never stored.
+export const cardTokens = pgTable("card_tokens", {
+  token_id: text("token_id").primaryKey(),
+  merchant_id: text("merchant_id").notNull(),
+  customer_id: text("customer_id").notNull(),
+  network: text("network", { enum: cardNetworks }).notNull(),
+  last4: text("last4").notNull(),
+  expiry_month: integer("expiry_month").notNull(),
+  expiry_year: integer("expiry_year").notNull(),
+  card_holder_name: text("card_holder_name").notNull(),
+  // keyed hash of the PAN, so saving the same card again returns its token
+  fingerprint: text("fingerprint").notNull(),
+  created_at: text("created_at").notNull(),
+}, (t) => [
+  uniqueIndex("card_tokens_customer_fingerprint_idx").on(t.merchant_id, t.customer_id, t.fingerprint),
+]);
+
+export const cardTokenSchema = createSelectSchema(cardTokens);
+
+export type CardToken = z.infer<typeof cardTokenSchema>;
+export type InsertCardToken = Omit<CardToken, "token_id" | "created_at">;
+// a token as merchants and the checkout page see it
+export type SavedCard = Omit<CardToken, "fingerprint">;
+
+// Idempotency keys remember the first request made with a key (by payload
+// hash) and, once it finishes, the response to replay for retries.
+export const idempotencyKeys = pgTable("idempotency_keys", {
+  scope: text("scope").notNull(),
+  key: text("key").notNull(),
+  requestHash: text("request_hash").notNull(),
+  responseStatus: integer("response_status"),
+  responseBody: jsonb("response_body"),
+  createdAt: text("created_at").notNull(),
+  expiresAt: text("expires_at").notNull(),
+}, (t) => [
+  primaryKey({ columns: [t.scope, t.key] }),
+]);
+
+export const idempotencyKeySchema = createSelectSchema(idempotencyKeys, {
+  responseStatus: z.number().int().optional(),
+  responseBody: z.any().optional(),
+});
+
+export type IdempotencyKey = z.infer<typeof idempotencyKeySchema>;
+export type InsertIdempotencyKey = Pick<IdempotencyKey, "scope" | "key" | "requestHash" | "createdAt" | "expiresAt">;
+
+export const webhookEvents = [
+  "payment.pending",
+  "payment.succeeded",
+  "payment.failed",
+  "payment.authorized",
+  "payment.captured",
+  "payment.voided",
+  "order.expired",
+  "refund.processed",
+] as const;
+export type WebhookEvent = (typeof webhookEvents)[number];
 
 export const webhookPayloadSchema = z.object({
+  event: z.enum(webhookEvents).optional(),
   gateway_order_id: z.string(),
   merchant_order_id: z.string(),
   payment_ref: z.string(),
-  status: z.enum(["SUCCESS", "FAILED", "PENDING"]),
+  status: z.enum(["SUCCESS", "FAILED", "PENDING", "AUTHORIZED", "VOIDED", "REQUIRES_ACTION"]),
   amount_in_paisa: z.number().int(),
+  // set on captures; may be less than amount_in_paisa for a partial capture
+  captured_amount_in_paisa: z.number().int().optional(),
   currency: z.string(),
   paid_at: z.string().optional(),
   payment_method: z.string().optional(),
+  // decline code on payment.failed
+  failure_code: z.string().optional(),
   card: z.object({
     network: z.string().optional(),
     masked: z.string().optional(),
+    last4: z.string().optional(),
+    expiry_month: z.number().int().optional(),
+    expiry_year: z.number().int().optional(),
     token_id: z.string().optional(),
   }).optional(),
   one_time_order_token: z.string().optional(),
@@ -78,26 +326,126 @@ export const webhookPayloadSchema = z.object({
 
 export type WebhookPayload = z.infer<typeof webhookPayloadSchema>;
 
-export type PaymentMethod = "card" | "upi" | "netbanking";
+// Sent for order lifecycle changes that carry no payment
+export const orderEventPayloadSchema = z.object({
+  event: z.enum(webhookEvents),
+  gateway_order_id: z.string(),
+  merchant_order_id: z.string(),
+  status: z.enum(v2OrderStatuses),
+  amount_in_paisa: z.number().int(),
+  currency: z.string(),
+  expires_at: z.string().optional(),
+  occurred_at: z.string(),
+  test_mode: z.boolean().optional(),
+  metadata: z.record(z.any()).optional(),
+});
+
+export type OrderEventPayload = z.infer<typeof orderEventPayloadSchema>;
 
-export const transactionSchema = z.object({
-  id: z.string(),
-  orderId: z.string(),
-  amount: z.number(),
-  paymentMethod: z.enum(["card", "upi", "netbanking"]),
+export const refundEventPayloadSchema = z.object({
+  event: z.enum(webhookEvents),
+  refund_id: z.string(),
+  payment_ref: z.string(),
+  gateway_order_id: z.string(),
+  merchant_order_id: z.string(),
+  status: z.enum(["PROCESSED", "FAILED"]),
+  amount_in_paisa: z.number().int(),
+  refunded_total_in_paisa: z.number().int(),
+  currency: z.string(),
+  reason: z.string().optional(),
+  refunded_at: z.string(),
+  test_mode: z.boolean().optional(),
+  metadata: z.record(z.any()).optional(),
+});
+
+export type RefundEventPayload = z.infer<typeof refundEventPayloadSchema>;
+
+export const paymentMethods = ["card", "upi", "netbanking"] as const;
+export type PaymentMethod = (typeof paymentMethods)[number];
+
+export const transactionStatuses = ["success", "failed", "authorized", "voided", "requires_action", "pending"] as const;
+export type TransactionStatus = (typeof transactionStatuses)[number];
+
+export const transactions = pgTable("transactions", {
+  id: text("id").primaryKey(),
+  orderId: text("order_id").notNull(),
+  // always rupees, whatever unit the order was created in
+  amount: doublePrecision("amount").notNull(),
+  paymentMethod: text("payment_method", { enum: paymentMethods }).notNull(),
+  bankAccountId: text("bank_account_id"),
+  bankName: text("bank_name"),
+  // "authorized" payments hold funds until captured (-> success) or voided
+  status: text("status", { enum: transactionStatuses }).notNull(),
+  // card payments keep only what is needed to recognise the card
+  cardNetwork: text("card_network", { enum: cardNetworks }),
+  cardLast4: text("card_last4"),
+  cardExpiryMonth: integer("card_expiry_month"),
+  cardExpiryYear: integer("card_expiry_year"),
+  // set when the card was vaulted by, or paid from, a token
+  cardTokenId: text("card_token_id"),
+  // machine-readable decline code, e.g. "insufficient_funds"
+  failureCode: text("failure_code"),
+  failureReason: text("failure_reason"),
+  timestamp: text("timestamp").notNull(),
+  // rupees; set once an authorization is captured, possibly partially
+  capturedAmount: doublePrecision("captured_amount"),
+  capturedAt: text("captured_at"),
+  voidedAt: text("voided_at"),
+  // uncaptured authorizations are voided automatically after this
+  authorizationExpiresAt: text("authorization_expires_at"),
+  // "requires_action" payments wait on a 3-D Secure OTP challenge
+  challengeId: text("challenge_id"),
+  challengeAttempts: integer("challenge_attempts"),
+  challengeExpiresAt: text("challenge_expires_at"),
+  // "pending" UPI collect requests expire unanswered after this
+  collectExpiresAt: text("collect_expires_at"),
+  // "pending" netbanking payments wait on the customer at the simulated bank's page
+  bankSessionId: text("bank_session_id"),
+  bankSessionExpiresAt: text("bank_session_expires_at"),
+  bankLoginAt: text("bank_login_at"),
+  // a challenged card payment that asked to save its card is vaulted for this
+  // customer once authenticated; the PAN itself is never kept
+  saveCardFor: text("save_card_for"),
+  saveCardHolderName: text("save_card_holder_name"),
+  saveCardFingerprint: text("save_card_fingerprint"),
+}, (t) => [
+  uniqueIndex("transactions_bank_session_idx").on(t.bankSessionId),
+]);
+
+// nullable columns surface as optional fields rather than nulls
+export const transactionSchema = createSelectSchema(transactions, {
   bankAccountId: z.string().optional(),
   bankName: z.string().optional(),
-  status: z.enum(["success", "failed"]),
+  cardNetwork: z.enum(cardNetworks).optional(),
+  cardLast4: z.string().optional(),
+  cardExpiryMonth: z.number().int().optional(),
+  cardExpiryYear: z.number().int().optional(),
+  cardTokenId: z.string().optional(),
+  failureCode: z.string().optional(),
   failureReason: z.string().optional(),
-  timestamp: z.string(),
+  capturedAmount: z.number().optional(),
+  capturedAt: z.string().optional(),
+  voidedAt: z.string().optional(),
+  authorizationExpiresAt: z.string().optional(),
+  challengeId: z.string().optional(),
+  challengeAttempts: z.number().int().optional(),
+  challengeExpiresAt: z.string().optional(),
+  collectExpiresAt: z.string().optional(),
+  bankSessionId: z.string().optional(),
+  bankSessionExpiresAt: z.string().optional(),
+  bankLoginAt: z.string().optional(),
+  saveCardFor: z.string().optional(),
+  saveCardHolderName: z.string().optional(),
+  saveCardFingerprint: z.string().optional(),
 });
 
 export type Transaction = z.infer<typeof transactionSchema>;
 
 export const processPaymentSchema = z.object({
   orderId: z.string(),
-  amount: z.number(),
-  paymentMethod: z.enum(["card", "upi", "netbanking"]),
+  // optional check value in rupees; the charge always comes from the stored order
+  amount: z.number().optional(),
+  paymentMethod: z.enum(paymentMethods),
   bankAccountId: z.string().optional(),
   cardDetails: z.object({
     cardNumber: z.string(),
@@ -106,6 +454,292 @@ export const processPaymentSchema = z.object({
     cardHolderName: z.string(),
   }).optional(),
   upiId: z.string().optional(),
+  // "collect" sends a request to the customer's UPI app and returns a pending payment
+  upiFlow: z.enum(["instant", "collect"]).optional(),
+  // "redirect" sends the customer to the simulated bankName login page
+  // instead of debiting bankAccountId straight away
+  netbankingFlow: z.enum(["instant", "redirect"]).optional(),
+  bankName: z.string().optional(),
+  // vault the card for the v2 order's customer (card payments only)
+  saveCard: z.boolean().optional(),
+  // pay with a vaulted card instead of cardDetails
+  savedCard: z.object({
+    tokenId: z.string(),
+    cvv: z.string(),
+  }).optional(),
+  // retries with the same key return the original Transaction
+  idempotencyKey: z.string().optional(),
 });
 
 export type ProcessPaymentInput = z.infer<typeof processPaymentSchema>;
+
+export const capturePaymentSchema = z.object({
+  // rupees; omit to capture the full authorized amount
+  amount: z.number().positive().optional(),
+});
+
+export const authenticatePaymentSchema = z.object({
+  // must match the challenge the payment is waiting on, when given
+  challengeId: z.string().optional(),
+  otp: z.string().regex(/^\d{6}$/, "otp must be 6 digits"),
+});
+
+export const resolveCollectSchema = z.object({
+  action: z.enum(["approve", "reject"]),
+});
+
+export const bankLoginSchema = z.object({
+  userId: z.string().min(1, "User ID is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+export const completeBankSessionSchema = z.object({
+  action: z.enum(["approve", "decline"]),
+  // required to approve; must be an account at the session's bank
+  bankAccountId: z.string().optional(),
+});
+
+// A refund reverses all or part of a successful Transaction. Only processed
+// refunds count against the refundable amount; a failed one can be retried.
+export const refundStatuses = ["processed", "failed"] as const;
+
+export const refunds = pgTable("refunds", {
+  id: text("id").primaryKey(),
+  transactionId: text("transaction_id").notNull(),
+  orderId: text("order_id").notNull(),
+  // rupees, like Transaction.amount
+  amount: doublePrecision("amount").notNull(),
+  status: text("status", { enum: refundStatuses }).notNull(),
+  reason: text("reason"),
+  failureReason: text("failure_reason"),
+  createdAt: text("created_at").notNull(),
+}, (t) => [
+  index("refunds_transaction_idx").on(t.transactionId),
+]);
+
+export const refundSchema = createSelectSchema(refunds, {
+  reason: z.string().optional(),
+  failureReason: z.string().optional(),
+});
+
+export type Refund = z.infer<typeof refundSchema>;
+
+export const createRefundSchema = z.object({
+  // rupees; omit to refund whatever is still refundable
+  amount: z.number().positive().optional(),
+  reason: z.string().max(255).optional(),
+  idempotencyKey: z.string().optional(),
+});
+
+export type CreateRefundInput = z.infer<typeof createRefundSchema>;
+
+// Merchants registered with the gateway. A v2 order must name one, use a mode
+// it is enabled for and return_url/callback_url under its registered prefixes.
+export const merchants = pgTable("merchants", {
+  merchant_id: text("merchant_id").primaryKey(),
+  name: text("name").notNull(),
+  return_url_prefixes: jsonb("return_url_prefixes").$type<string[]>().notNull(),
+  callback_url_prefixes: jsonb("callback_url_prefixes").$type<string[]>().notNull(),
+  payment_methods: jsonb("payment_methods").$type<PaymentMethod[]>().notNull(),
+  test_mode: boolean("test_mode").notNull(),
+  live_mode: boolean("live_mode").notNull(),
+  created_at: text("created_at").notNull(),
+  updated_at: text("updated_at").notNull(),
+});
+
+export const merchantSchema = createSelectSchema(merchants, {
+  return_url_prefixes: z.array(z.string()),
+  callback_url_prefixes: z.array(z.string()),
+  payment_methods: z.array(z.enum(paymentMethods)),
+});
+
+// https, or http for localhost during sandbox/testing
+const merchantUrlPrefix = z.string().url().refine((value) => {
+  const url = new URL(value);
+  return url.protocol === "https:" || url.hostname === "localhost" || url.hostname === "127.0.0.1";
+}, "URL prefixes must be HTTPS (http is allowed for localhost)");
+
+export const insertMerchantSchema = z.object({
+  merchant_id: z.string().regex(/^[a-z0-9_]{3,64}$/, "merchant_id must be 3-64 lowercase letters, digits or underscores"),
+  name: z.string().min(1, "Name is required"),
+  return_url_prefixes: z.array(merchantUrlPrefix).min(1, "Register at least one return URL"),
+  callback_url_prefixes: z.array(merchantUrlPrefix).min(1, "Register at least one callback URL"),
+  payment_methods: z.array(z.enum(paymentMethods)).min(1, "Enable at least one payment method").default([...paymentMethods]),
+  test_mode: z.boolean().default(true),
+  live_mode: z.boolean().default(false),
+});
+
+export const updateMerchantSchema = insertMerchantSchema.omit({ merchant_id: true }).partial();
+
+export type Merchant = z.infer<typeof merchantSchema>;
+export type InsertMerchant = z.infer<typeof insertMerchantSchema>;
+export type UpdateMerchant = z.infer<typeof updateMerchantSchema>;
+
+// Merchant API keys. A test key creates test-mode orders and a live key live
+// ones; only a SHA-256 hash of the secret is kept, the secret itself is shown
+// once when the key is created.
+export const apiKeyModes = ["test", "live"] as const;
+export type ApiKeyMode = (typeof apiKeyModes)[number];
+
+export const apiKeys = pgTable("api_keys", {
+  key_id: text("key_id").primaryKey(),
+  merchant_id: text("merchant_id").notNull(),
+  mode: text("mode", { enum: apiKeyModes }).notNull(),
+  secret_hash: text("secret_hash").notNull(),
+  created_at: text("created_at").notNull(),
+  revoked_at: text("revoked_at"),
+}, (t) => [
+  index("api_keys_merchant_idx").on(t.merchant_id),
+]);
+
+export const apiKeySchema = createSelectSchema(apiKeys, {
+  revoked_at: z.string().optional(),
+});
+
+export type ApiKey = z.infer<typeof apiKeySchema>;
+export type InsertApiKey = Omit<ApiKey, "created_at" | "revoked_at">;
+
+export const createApiKeySchema = z.object({
+  mode: z.enum(apiKeyModes),
+});
+
+// Webhook signing secrets, one current secret per merchant and mode. A rotated
+// out secret keeps signing alongside the new one until its expires_at.
+export const webhookSecrets = pgTable("webhook_secrets", {
+  secret_id: text("secret_id").primaryKey(),
+  merchant_id: text("merchant_id").notNull(),
+  mode: text("mode", { enum: apiKeyModes }).notNull(),
+  secret: text("secret").notNull(),
+  created_at: text("created_at").notNull(),
+  // unset while the secret is current
+  expires_at: text("expires_at"),
+}, (t) => [
+  index("webhook_secrets_merchant_mode_idx").on(t.merchant_id, t.mode),
+]);
+
+export const webhookSecretSchema = createSelectSchema(webhookSecrets, {
+  expires_at: z.string().optional(),
+});
+
+export type WebhookSecret = z.infer<typeof webhookSecretSchema>;
+export type InsertWebhookSecret = Omit<WebhookSecret, "created_at" | "expires_at">;
+
+export const rotateWebhookSecretSchema = z.object({
+  mode: z.enum(apiKeyModes),
+  // how long the old secret keeps signing; at most a week
+  overlap_seconds: z.number().int().min(0).max(7 * 24 * 60 * 60).optional(),
+});
+
+// Test scenarios map a card number, VPA or bank account number to a simulated
+// outcome; anything not in the catalog succeeds.
+export const scenarioOutcomes = [
+  "success",
+  "decline",
+  "timeout",
+  "pending_then_success",
+  "challenge_3ds",
+  "network_error",
+] as const;
+export type ScenarioOutcome = (typeof scenarioOutcomes)[number];
+
+export const paymentScenarioSchema = z.object({
+  paymentMethod: z.enum(paymentMethods),
+  // full card number, VPA or bank account number
+  match: z.string().trim().min(1),
+  outcome: z.enum(scenarioOutcomes),
+  // decline code and customer-facing message for failing outcomes
+  code: z.string().optional(),
+  message: z.string().optional(),
+  // how long the simulated PSP takes to answer
+  delayMs: z.number().int().min(0).max(30000).optional(),
+  description: z.string(),
+});
+
+export type PaymentScenario = z.infer<typeof paymentScenarioSchema>;
+
+export const scenarioCatalogSchema = z.array(paymentScenarioSchema).superRefine((scenarios, ctx) => {
+  const seen = new Set<string>();
+  scenarios.forEach((scenario, index) => {
+    const key = `${scenario.paymentMethod}:${scenario.match.toLowerCase()}`;
+    if (seen.has(key)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, "match"], message: `duplicate ${scenario.paymentMethod} scenario for ${scenario.match}` });
+    }
+    seen.add(key);
+  });
+});
+
+// Webhook outbox: every event for a merchant is stored before delivery and
+// worked off by a background worker. Events that run out of attempts are
+// "dead" and only go out again when retried by hand.
+export const webhookOutboxStatuses = ["pending", "delivered", "dead"] as const;
+export type WebhookOutboxStatus = (typeof webhookOutboxStatuses)[number];
+
+export const webhookOutbox = pgTable("webhook_outbox", {
+  event_id: text("event_id").primaryKey(),
+  merchant_id: text("merchant_id").notNull(),
+  gateway_order_id: text("gateway_order_id").notNull(),
+  event: text("event", { enum: webhookEvents }).notNull(),
+  url: text("url").notNull(),
+  // the exact JSON that is signed and sent
+  body: text("body").notNull(),
+  idempotency_key: text("idempotency_key").notNull(),
+  test_mode: boolean("test_mode").notNull(),
+  status: text("status", { enum: webhookOutboxStatuses }).notNull(),
+  attempt_count: integer("attempt_count").notNull(),
+  // when the worker next picks the event up; unset once delivered or dead
+  next_attempt_at: text("next_attempt_at"),
+  last_attempt_at: text("last_attempt_at"),
+  delivered_at: text("delivered_at"),
+  created_at: text("created_at").notNull(),
+}, (t) => [
+  index("webhook_outbox_due_idx").on(t.status, t.next_attempt_at),
+  index("webhook_outbox_order_idx").on(t.gateway_order_id),
+]);
+
+export const webhookOutboxEventSchema = createSelectSchema(webhookOutbox, {
+  next_attempt_at: z.string().optional(),
+  last_attempt_at: z.string().optional(),
+  delivered_at: z.string().optional(),
+});
+
+export type WebhookOutboxEvent = z.infer<typeof webhookOutboxEventSchema>;
+export type InsertWebhookOutboxEvent = Pick<
+  WebhookOutboxEvent,
+  "event_id" | "merchant_id" | "gateway_order_id" | "event" | "url" | "body" | "idempotency_key" | "test_mode"
+>;
+// what the worker records about an event after each attempt
+export type WebhookOutboxUpdate = Pick<WebhookOutboxEvent, "status" | "next_attempt_at" | "delivered_at">;
+
+export const webhookAttempts = pgTable("webhook_attempts", {
+  attempt_id: text("attempt_id").primaryKey(),
+  event_id: text("event_id").notNull(),
+  attempt_number: integer("attempt_number").notNull(),
+  attempted_at: text("attempted_at").notNull(),
+  // unset when no response came back
+  status_code: integer("status_code"),
+  latency_ms: integer("latency_ms").notNull(),
+  response_snippet: text("response_snippet"),
+  error: text("error"),
+}, (t) => [
+  index("webhook_attempts_event_idx").on(t.event_id),
+]);
+
+export const webhookAttemptSchema = createSelectSchema(webhookAttempts, {
+  status_code: z.number().int().optional(),
+  response_snippet: z.string().optional(),
+  error: z.string().optional(),
+});
+
+export type WebhookAttempt = z.infer<typeof webhookAttemptSchema>;
+
+export interface WebhookOutboxFilter {
+  status?: WebhookOutboxStatus;
+  gateway_order_id?: string;
+  limit?: number;
+}
+
+export const webhookOutboxQuerySchema = z.object({
+  status: z.enum(webhookOutboxStatuses).optional(),
+  gateway_order_id: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
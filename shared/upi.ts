@@ -0,0 +1,38 @@
+// UPI helpers shared by the payment modal and the gateway.
+
+// handle@psp, e.g. john@hdfc
+const vpaPattern = /^[\w.-]+@[a-zA-Z0-9]+$/;
+
+export function isValidVpa(vpa: string): boolean {
+  return vpaPattern.test(vpa.trim());
+}
+
+// VPAs are case-insensitive; the registry keys them lowercased
+export function normalizeVpa(vpa: string): string {
+  return vpa.trim().toLowerCase();
+}
+
+export interface UpiIntent {
+  payeeVpa: string;
+  payeeName: string;
+  // rupees
+  amount: number;
+  // transaction reference, the order id
+  reference: string;
+  note?: string;
+}
+
+// upi://pay deep link as defined by the NPCI linking spec; UPI apps expect
+// %20 rather than "+" for spaces and a literal "@" in VPAs, so
+// URLSearchParams is not used
+export function upiIntentUrl(intent: UpiIntent): string {
+  const params: [string, string][] = [
+    ["pa", intent.payeeVpa],
+    ["pn", intent.payeeName],
+    ["am", intent.amount.toFixed(2)],
+    ["cu", "INR"],
+    ["tr", intent.reference],
+  ];
+  if (intent.note) params.push(["tn", intent.note]);
+  return `upi://pay?${params.map(([key, value]) => `${key}=${encodeURIComponent(value).replace(/%40/g, "@")}`).join("&")}`;
+}
@@ -0,0 +1,69 @@
+import crypto from "crypto";
+
+// Webhook signatures, used by the gateway to sign and by merchants to verify.
+// X-Gateway-Signature reads "t=<unix seconds>,v1=<hex>[,v1=<hex>...]", each v1
+// an HMAC-SHA256 of "<t>.<raw body>" under one of the merchant's secrets (more
+// than one while a rotation overlaps). Signing the timestamp with the body
+// means it cannot be altered, and the tolerance window stops old deliveries
+// from being replayed.
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-Gateway-Signature";
+export const DEFAULT_WEBHOOK_TOLERANCE_SECONDS = 300;
+
+export function computeWebhookSignature(secret: string, timestamp: number, body: string): string {
+  return crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+// Header value for one delivery, signatures in the order of `secrets`
+export function webhookSignatureHeader(secrets: string[], body: string, timestamp = Math.floor(Date.now() / 1000)): string {
+  return [`t=${timestamp}`, ...secrets.map((secret) => `v1=${computeWebhookSignature(secret, timestamp, body)}`)].join(",");
+}
+
+function parseSignatureHeader(header: string): { timestamp: number; signatures: string[] } | undefined {
+  let timestamp: number | undefined;
+  const signatures: string[] = [];
+  for (const part of header.split(",")) {
+    const separator = part.indexOf("=");
+    const key = part.slice(0, separator).trim();
+    const value = part.slice(separator + 1).trim();
+    if (key === "t" && /^\d+$/.test(value)) timestamp = Number(value);
+    // unknown schemes are skipped so newer versions can be added alongside v1
+    if (key === "v1" && /^[0-9a-f]{64}$/.test(value)) signatures.push(value);
+  }
+  return timestamp !== undefined && signatures.length > 0 ? { timestamp, signatures } : undefined;
+}
+
+export type WebhookVerificationCode = "missing_signature" | "malformed_signature" | "signature_mismatch" | "timestamp_outside_tolerance";
+
+export type WebhookVerification =
+  | { ok: true; timestamp: number }
+  | { ok: false; code: WebhookVerificationCode; message: string };
+
+export interface VerifyWebhookOptions {
+  toleranceSeconds?: number;
+  now?: Date;
+}
+
+// Check a delivery against the raw request body, exactly as received
+export function verifyWebhookSignature(
+  body: string,
+  header: string | undefined,
+  secret: string,
+  { toleranceSeconds = DEFAULT_WEBHOOK_TOLERANCE_SECONDS, now = new Date() }: VerifyWebhookOptions = {},
+): WebhookVerification {
+  if (!header) {
+    return { ok: false, code: "missing_signature", message: `${WEBHOOK_SIGNATURE_HEADER} header is missing` };
+  }
+  const parsed = parseSignatureHeader(header);
+  if (!parsed) {
+    return { ok: false, code: "malformed_signature", message: `${WEBHOOK_SIGNATURE_HEADER} needs a t= timestamp and a v1= signature` };
+  }
+  const expected = Buffer.from(computeWebhookSignature(secret, parsed.timestamp, body), "hex");
+  if (!parsed.signatures.some((signature) => crypto.timingSafeEqual(expected, Buffer.from(signature, "hex")))) {
+    return { ok: false, code: "signature_mismatch", message: "no signature matches the secret" };
+  }
+  if (Math.abs(now.getTime() / 1000 - parsed.timestamp) > toleranceSeconds) {
+    return { ok: false, code: "timestamp_outside_tolerance", message: `timestamp is more than ${toleranceSeconds}s from now` };
+  }
+  return { ok: true, timestamp: parsed.timestamp };
+}
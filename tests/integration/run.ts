@@ -1,6 +1,7 @@
 import http from "http";
 import { spawn, ChildProcess } from "child_process";
 import crypto from "crypto";
+import { verifyWebhookSignature } from "../../shared/webhook-signature";
 
 async function findFreePort(start = 5200, end = 5999): Promise<number> {
   for (let p = start; p <= end; p++) {
@@ -32,12 +33,24 @@ const DEFAULT_GATEWAY_PORT_PROMISE = (async () => {
 })();
 
 let GATEWAY_ORIGIN = process.env.GATEWAY_ORIGIN || `http://localhost:5050`;
-const WEBHOOK_PORT = 6000;
+// 6000 is on the fetch spec's blocked port list, so undici refuses to deliver there
+const WEBHOOK_PORT = 6100;
 const WEBHOOK_PATH = "/webhook";
 const MERCHANT_TEST_SECRET = process.env.MERCHANT_TEST_WEBHOOK_SECRET || "test_secret";
+const ADMIN_TOKEN = "test_admin_token";
 
-function computeSignature(secret: string, body: string) {
-  return `sha256=${crypto.createHmac("sha256", secret).update(body).digest("hex")}`;
+// computed here independently of the gateway: HMAC-SHA256 over "<t>.<body>"
+function computeSignature(secret: string, timestamp: number, body: string) {
+  return crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+// "t=...,v1=...,v1=..." into its timestamp and signatures
+function parseSignature(header: string) {
+  const parts = header.split(",").map((part) => part.split("="));
+  return {
+    t: Number(parts.find(([key]) => key === "t")?.[1]),
+    v1: parts.filter(([key]) => key === "v1").map(([, value]) => value),
+  };
 }
 
 async function waitForGateway(): Promise<ChildProcess | null> {
@@ -49,8 +62,33 @@ async function waitForGateway(): Promise<ChildProcess | null> {
     const port = await findFreePort();
     const actualPort = port;
     GATEWAY_ORIGIN = process.env.GATEWAY_ORIGIN || `http://localhost:${actualPort}`;
-    const env = { ...process.env, MERCHANT_TEST_WEBHOOK_SECRET: MERCHANT_TEST_SECRET, PORT: String(actualPort) };
-    const cp = spawn("npx", ["tsx", "server/index.ts"], { shell: true, env, stdio: ["ignore", "pipe", "pipe"] });
+    const env = {
+      ...process.env,
+      MERCHANT_TEST_WEBHOOK_SECRET: MERCHANT_TEST_SECRET,
+      ADMIN_TOKEN,
+      PORT: String(actualPort),
+      // sweep often so the expiry test doesn't have to wait a minute
+      ORDER_EXPIRY_SWEEP_INTERVAL_MS: "500",
+      // likewise for auto-voiding uncaptured authorizations
+      AUTHORIZATION_WINDOW_SECONDS: "4",
+      AUTHORIZATION_SWEEP_INTERVAL_MS: "500",
+      // and for timing out abandoned 3-D Secure challenges
+      THREE_DS_CHALLENGE_SECONDS: "3",
+      THREE_DS_SWEEP_INTERVAL_MS: "500",
+      // and for UPI collect requests, answered or expired within seconds
+      UPI_COLLECT_DELAY_MS: "1000",
+      UPI_COLLECT_TIMEOUT_SECONDS: "3",
+      UPI_COLLECT_SWEEP_INTERVAL_MS: "500",
+      // and for netbanking sessions the customer never finishes
+      NETBANKING_SESSION_SECONDS: "3",
+      NETBANKING_SWEEP_INTERVAL_MS: "500",
+      // and for webhook retries, which give up after three attempts
+      WEBHOOK_MAX_ATTEMPTS: "3",
+      WEBHOOK_RETRY_BASE_MS: "500",
+      WEBHOOK_WORKER_INTERVAL_MS: "200",
+    };
+    // detached so the whole npx -> tsx -> node group can be stopped together
+    const cp = spawn("npx", ["tsx", "server/index.ts"], { shell: true, detached: true, env, stdio: ["ignore", "pipe", "pipe"] });
 
     cp.stdout?.on("data", (d) => process.stdout.write(`[server stdout] ${d}`));
     cp.stderr?.on("data", (d) => process.stderr.write(`[server stderr] ${d}`));
@@ -76,9 +114,7 @@ async function waitForGateway(): Promise<ChildProcess | null> {
       return cp;
     } catch (e) {
       console.error("server start failed on port", actualPort, e);
-      try {
-        cp.kill();
-      } catch {}
+      stopServer(cp);
       // try next port
     }
   }
@@ -95,6 +131,8 @@ async function runTests() {
 
     // webhook server behavior: for the first test, accept immediately; for test 2 (retry) we will reject first request then accept
     let rejectFirst = false;
+    // secrets the receiver trusts; TEST 20 adds the ones it creates
+    const acceptedSecrets = [MERCHANT_TEST_SECRET];
 
     const webhookServer = http.createServer(async (req, res) => {
       if (req.url !== WEBHOOK_PATH) {
@@ -111,10 +149,9 @@ async function runTests() {
 
       // simulate platform signature validation
       try {
-        const expected = computeSignature(MERCHANT_TEST_SECRET, raw);
         const got = headers["x-gateway-signature"] as string | undefined;
-        if (!got || got !== expected) {
-          console.log("[webhook] signature mismatch", got, expected);
+        if (!acceptedSecrets.some((secret) => verifyWebhookSignature(raw, got, secret).ok)) {
+          console.log("[webhook] signature mismatch", got);
           // respond 400 to simulate rejection (gateway should retry)
           res.writeHead(400).end("bad signature");
           return;
@@ -151,9 +188,17 @@ async function runTests() {
       });
     });
 
+    // the merchant-facing /api/v2 endpoints authenticate with an API key
+    const testKey = await (await adminFetch(`${GATEWAY_ORIGIN}/api/merchants/mer_test/api-keys`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ mode: "test" }),
+    })).json();
+    const merchantFetch = keyedFetch(testKey);
+
     // Test 1: Happy path
     console.log("TEST 1: Happy path - create v2 order and process payment, expect signed webhook");
-    const orderResp = await fetch(`${GATEWAY_ORIGIN}/api/v2/orders`, {
+    const orderResp = await merchantFetch(`${GATEWAY_ORIGIN}/api/v2/orders`, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify({
@@ -177,15 +222,27 @@ async function runTests() {
     const gw = orderJson.gateway_order_id;
     if (!gw) throw new Error("no gateway_order_id returned");
 
+    // amounts sent to process-payment are rupees; the paisa figure must be rejected
+    const mismatchResp = await fetch(`${GATEWAY_ORIGIN}/api/process-payment`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ orderId: gw, amount: 49900, paymentMethod: "card", cardDetails: { cardNumber: "4242424242424242", expiry: "12/30", cvv: "123", cardHolderName: "Test" } }),
+    });
+    const mismatchJson = await mismatchResp.json();
+    if (mismatchResp.status !== 400 || mismatchJson.error !== "ERR_AMOUNT_MISMATCH") {
+      throw new Error(`expected ERR_AMOUNT_MISMATCH, got ${mismatchResp.status} ${JSON.stringify(mismatchJson)}`);
+    }
+
     // call process-payment to trigger webhook
     const payResp = await fetch(`${GATEWAY_ORIGIN}/api/process-payment`, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ orderId: gw, amount: 49900, paymentMethod: "card", cardDetails: { cardNumber: "4242424242424242", expiry: "12/30", cvv: "123", cardHolderName: "Test" } }),
+      body: JSON.stringify({ orderId: gw, amount: 499, paymentMethod: "card", cardDetails: { cardNumber: "4242424242424242", expiry: "12/30", cvv: "123", cardHolderName: "Test" } }),
     });
     if (![200, 201].includes(payResp.status)) throw new Error(`process payment failed: ${payResp.status}`);
     const payJson = await payResp.json();
     console.log("process-payment response", payJson);
+    if (payJson.amount !== 499) throw new Error(`expected a 499 rupee transaction, got ${payJson.amount}`);
 
     // wait for webhook (with timeout)
     await waitForWebhook(received, 10000);
@@ -198,7 +255,7 @@ async function runTests() {
     // set flag to reject first request
     rejectFirst = true;
     // create new order
-    const orderResp2 = await fetch(`${GATEWAY_ORIGIN}/api/v2/orders`, {
+    const orderResp2 = await merchantFetch(`${GATEWAY_ORIGIN}/api/v2/orders`, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify({
@@ -219,35 +276,1106 @@ async function runTests() {
     const payResp2 = await fetch(`${GATEWAY_ORIGIN}/api/process-payment`, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ orderId: gw2, amount: 10000, paymentMethod: "card", cardDetails: { cardNumber: "4242424242424242", expiry: "12/30", cvv: "123", cardHolderName: "Test" } }),
+      body: JSON.stringify({ orderId: gw2, amount: 100, paymentMethod: "card", cardDetails: { cardNumber: "4242424242424242", expiry: "12/30", cvv: "123", cardHolderName: "Test" } }),
     });
     if (![200, 201].includes(payResp2.status)) throw new Error(`process payment failed: ${payResp2.status}`);
 
     // wait for at least 2 webhook attempts (first rejected, second accepted)
     await waitForWebhookCount(received, 2, 20000);
     console.log(`Webhook attempts: ${received.length}`);
+    // each attempt is signed with its own timestamp, so a late retry is not stale
+    const gw2Attempts = () => received.filter((r) => JSON.parse(r.raw).gateway_order_id === gw2);
+    const [rejectedAttempt, retriedAttempt] = await waitFor(async () => (gw2Attempts().length >= 2 ? gw2Attempts() : undefined), 20000);
+    const rejectedT = parseSignature(rejectedAttempt.headers["x-gateway-signature"] as string).t;
+    const retriedT = parseSignature(retriedAttempt.headers["x-gateway-signature"] as string).t;
+    if (!(retriedT > rejectedT)) throw new Error(`a retry should be signed with a new timestamp: ${rejectedT} then ${retriedT}`);
+    verifyWebhookPayload(retriedAttempt.raw, retriedAttempt.headers);
     console.log("TEST 2 passed\n");
 
+    // Test 3: Concurrent debits against one bank account
+    console.log("TEST 3: Concurrent netbanking payments - balance must never go negative");
+    const startingBalance = 1000;
+    const price = 300;
+    const parallel = 10;
+    const accountResp = await fetch(`${GATEWAY_ORIGIN}/api/create-account`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ accountHolderName: "Race Test", accountNumber: "1111222233334444", bankName: "HDFC Bank", balance: startingBalance }),
+    });
+    if (accountResp.status !== 201) throw new Error(`create account failed: ${accountResp.status}`);
+    const account = await accountResp.json();
+
+    const orderIds: string[] = [];
+    for (let i = 0; i < parallel; i++) {
+      const r = await fetch(`${GATEWAY_ORIGIN}/api/create-order`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: "Race Test", email: "race@e.com", phone: "9876543210", amount: price }),
+      });
+      orderIds.push((await r.json()).id);
+    }
+
+    const payments = await Promise.all(
+      orderIds.map(async (orderId) => {
+        const r = await fetch(`${GATEWAY_ORIGIN}/api/process-payment`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ orderId, amount: price, paymentMethod: "netbanking", bankAccountId: account.id }),
+        });
+        return r.json();
+      }),
+    );
+    const succeeded = payments.filter((t) => t.status === "success").length;
+    const expectedSuccesses = Math.floor(startingBalance / price);
+    if (succeeded !== expectedSuccesses) throw new Error(`expected ${expectedSuccesses} successful debits, got ${succeeded}`);
+
+    const accounts = await (await fetch(`${GATEWAY_ORIGIN}/api/accounts`)).json();
+    const after = accounts.find((a: any) => a.id === account.id);
+    if (!after || after.balance < 0) throw new Error(`account overdrawn: ${after?.balance}`);
+    if (after.balance !== startingBalance - succeeded * price) throw new Error(`unexpected balance ${after.balance}`);
+    const recon = await (await fetch(`${GATEWAY_ORIGIN}/api/accounts/${account.id}/reconciliation`)).json();
+    if (!recon.reconciled) throw new Error(`ledger does not reconcile: ${JSON.stringify(recon)}`);
+    console.log(`${succeeded}/${parallel} payments succeeded, final balance ${after.balance}`);
+    console.log("TEST 3 passed\n");
+
+    // Test 4: Idempotent v2 order creation
+    console.log("TEST 4: Idempotency-Key on /api/v2/orders - replays return the original order, changed payloads conflict");
+    const idemKey = `idem_${Date.now()}`;
+    const idemOrder = {
+      merchant_id: "mer_test",
+      order_id: "order_test_idem",
+      amount_in_paisa: 25000,
+      currency: "INR",
+      return_url: `http://localhost:5000/pay/return`,
+      callback_url: `http://localhost:${WEBHOOK_PORT}${WEBHOOK_PATH}`,
+      test_mode: true,
+    };
+    const createIdem = (body: object) =>
+      merchantFetch(`${GATEWAY_ORIGIN}/api/v2/orders`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "Idempotency-Key": idemKey },
+        body: JSON.stringify(body),
+      });
+    const idemFirst = await createIdem(idemOrder);
+    const idemFirstJson = await idemFirst.json();
+    const idemReplay = await createIdem(idemOrder);
+    const idemReplayJson = await idemReplay.json();
+    if (idemReplay.status !== 201 || idemReplayJson.gateway_order_id !== idemFirstJson.gateway_order_id) {
+      throw new Error(`replay returned a different order: ${JSON.stringify(idemReplayJson)}`);
+    }
+    if (idemReplay.headers.get("idempotent-replayed") !== "true") throw new Error("replay not flagged with Idempotent-Replayed");
+    const idemConflict = await createIdem({ ...idemOrder, amount_in_paisa: 26000 });
+    if (idemConflict.status !== 409) throw new Error(`expected 409 for changed payload, got ${idemConflict.status}`);
+    console.log("TEST 4 passed\n");
+
+    // Test 5: Idempotent process-payment and completed-order guard
+    console.log("TEST 5: Idempotent /api/process-payment - a retried payment returns the same Transaction");
+    const payOrderResp = await fetch(`${GATEWAY_ORIGIN}/api/create-order`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: "Retry Test", email: "retry@e.com", phone: "9876543210", amount: 150 }),
+    });
+    const payOrder = await payOrderResp.json();
+    const payKey = `pay_${Date.now()}`;
+    const payOnce = (key: string) =>
+      fetch(`${GATEWAY_ORIGIN}/api/process-payment`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "Idempotency-Key": key },
+        body: JSON.stringify({ orderId: payOrder.id, amount: 150, paymentMethod: "upi", upiId: "john@hdfc" }),
+      });
+    const [payA, payB] = await Promise.all([payOnce(payKey), payOnce(payKey)]);
+    const statuses = [payA.status, payB.status].sort();
+    // one request wins; its twin is either a replay or told the first is still running
+    if (statuses[0] !== 201 || ![201, 409].includes(statuses[1])) throw new Error(`unexpected statuses ${statuses}`);
+    const payReplay = await payOnce(payKey);
+    const payReplayJson = await payReplay.json();
+    const payFirstJson = await (payA.status === 201 ? payA : payB).json();
+    if (payReplayJson.id !== payFirstJson.id) throw new Error("replay returned a different transaction");
+    const payAgain = await payOnce(`${payKey}_new`);
+    const payAgainJson = await payAgain.json();
+    if (payAgain.status !== 409 || payAgainJson.error !== "ERR_ORDER_ALREADY_COMPLETED") {
+      throw new Error(`expected ERR_ORDER_ALREADY_COMPLETED, got ${payAgain.status} ${JSON.stringify(payAgainJson)}`);
+    }
+    const orderTxns = (await (await fetch(`${GATEWAY_ORIGIN}/api/transactions`)).json()).filter((t: any) => t.orderId === payOrder.id);
+    if (orderTxns.length !== 1) throw new Error(`expected exactly one transaction for the order, got ${orderTxns.length}`);
+    console.log("TEST 5 passed\n");
+
+    // Test 6: Unique merchant order ids
+    console.log("TEST 6: Duplicate merchant order ids - payable orders are returned, paid ones rejected");
+    const dupOrder = {
+      merchant_id: "mer_test",
+      order_id: "order_test_dup",
+      amount_in_paisa: 5000,
+      currency: "INR",
+      return_url: `http://localhost:5000/pay/return`,
+      callback_url: `http://localhost:${WEBHOOK_PORT}${WEBHOOK_PATH}`,
+      test_mode: true,
+    };
+    const createDup = () =>
+      merchantFetch(`${GATEWAY_ORIGIN}/api/v2/orders`, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(dupOrder) });
+    const dupFirst = await (await createDup()).json();
+    const dupSecondResp = await createDup();
+    const dupSecond = await dupSecondResp.json();
+    if (dupSecondResp.status !== 200 || dupSecond.gateway_order_id !== dupFirst.gateway_order_id) {
+      throw new Error(`expected the existing order back, got ${dupSecondResp.status} ${JSON.stringify(dupSecond)}`);
+    }
+    const dupPay = await fetch(`${GATEWAY_ORIGIN}/api/process-payment`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ orderId: dupFirst.gateway_order_id, paymentMethod: "upi", upiId: "john@hdfc" }),
+    });
+    if (dupPay.status !== 201) throw new Error(`payment failed: ${dupPay.status}`);
+    const dupThirdResp = await createDup();
+    const dupThird = await dupThirdResp.json();
+    if (dupThirdResp.status !== 409 || dupThird.error !== "ERR_DUPLICATE_ORDER") {
+      throw new Error(`expected ERR_DUPLICATE_ORDER, got ${dupThirdResp.status} ${JSON.stringify(dupThird)}`);
+    }
+    const lookup = await (await merchantFetch(`${GATEWAY_ORIGIN}/api/v2/merchants/mer_test/orders/order_test_dup`)).json();
+    if (lookup.gateway_order_id !== dupFirst.gateway_order_id || lookup.status !== "COMPLETED") {
+      throw new Error(`unexpected lookup result ${JSON.stringify(lookup)}`);
+    }
+    console.log("TEST 6 passed\n");
+
+    // Test 7: Order expiry
+    console.log("TEST 7: Order expiry - expired orders refuse payment and the sweeper notifies the merchant");
+    const createExpiring = async (orderId: string) => {
+      const resp = await merchantFetch(`${GATEWAY_ORIGIN}/api/v2/orders`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...dupOrder,
+          order_id: orderId,
+          expires_at: new Date(Date.now() + 1500).toISOString(),
+        }),
+      });
+      if (resp.status !== 201) throw new Error(`create expiring order failed: ${resp.status}`);
+      return (await resp.json()).gateway_order_id as string;
+    };
+    const expiringGw = await createExpiring("order_test_expire");
+    const pastResp = await merchantFetch(`${GATEWAY_ORIGIN}/api/v2/orders`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...dupOrder, order_id: "order_test_past", expires_at: new Date(Date.now() - 1000).toISOString() }),
+    });
+    if (pastResp.status !== 400) throw new Error(`expected 400 for an expires_at in the past, got ${pastResp.status}`);
+
+    // two hours ahead, written five hours behind UTC: must not be swept early
+    const offsetExpiry = new Date(Date.now() + 2 * 3600_000 - 5 * 3600_000).toISOString().replace("Z", "-05:00");
+    const offsetResp = await merchantFetch(`${GATEWAY_ORIGIN}/api/v2/orders`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...dupOrder, order_id: "order_test_offset_expiry", expires_at: offsetExpiry }),
+    });
+    const offsetOrder = await offsetResp.json();
+    if (offsetResp.status !== 201) throw new Error(`create offset order failed: ${offsetResp.status}`);
+
+    await new Promise((r) => setTimeout(r, 2500));
+    const offsetLookup = await (await merchantFetch(`${GATEWAY_ORIGIN}/api/v2/orders/${offsetOrder.gateway_order_id}`)).json();
+    if (offsetLookup.status !== "CREATED" || offsetLookup.expires_at !== new Date(offsetExpiry).toISOString()) {
+      throw new Error(`an order expiring in two hours must not expire, and expires_at is stored in UTC: ${JSON.stringify(offsetLookup)}`);
+    }
+    const expiredPay = await fetch(`${GATEWAY_ORIGIN}/api/process-payment`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ orderId: expiringGw, paymentMethod: "upi", upiId: "late@okbank" }),
+    });
+    const expiredPayJson = await expiredPay.json();
+    if (expiredPay.status !== 409 || expiredPayJson.error !== "ERR_ORDER_EXPIRED") {
+      throw new Error(`expected ERR_ORDER_EXPIRED, got ${expiredPay.status} ${JSON.stringify(expiredPayJson)}`);
+    }
+    const expiredLookup = await (await merchantFetch(`${GATEWAY_ORIGIN}/api/v2/merchants/mer_test/orders/order_test_expire`)).json();
+    if (expiredLookup.status !== "EXPIRED") throw new Error(`expected EXPIRED, got ${JSON.stringify(expiredLookup)}`);
+    const expiredEvent = received
+      .map((r) => JSON.parse(r.raw))
+      .find((p) => p.event === "order.expired" && p.gateway_order_id === expiringGw);
+    if (!expiredEvent) throw new Error("no order.expired webhook was delivered");
+    console.log("TEST 7 passed\n");
+
+    // Test 8: Order status and cancel
+    console.log("TEST 8: Order status and cancel - attempts are listed and cancelled orders refuse payment");
+    const cancelResp = await merchantFetch(`${GATEWAY_ORIGIN}/api/v2/orders`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...dupOrder, order_id: "order_test_cancel" }),
+    });
+    const cancelGw = (await cancelResp.json()).gateway_order_id;
+    await fetch(`${GATEWAY_ORIGIN}/api/process-payment`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ orderId: cancelGw, paymentMethod: "upi", upiId: "fail@okbank" }),
+    });
+    const statusJson = await (await merchantFetch(`${GATEWAY_ORIGIN}/api/v2/orders/${cancelGw}`)).json();
+    if (statusJson.status !== "FAILED" || statusJson.attempts?.length !== 1 || statusJson.attempts[0].payment_ref !== statusJson.payment_ref) {
+      throw new Error(`unexpected order status ${JSON.stringify(statusJson)}`);
+    }
+    const failedEvent = await waitForWebhookMatching(received, (p) => p.event === "payment.failed" && p.gateway_order_id === cancelGw);
+    if ("paid_at" in statusJson || "paid_at" in failedEvent) throw new Error("a declined order must not have paid_at");
+    const cancelled = await (await merchantFetch(`${GATEWAY_ORIGIN}/api/v2/orders/${cancelGw}/cancel`, { method: "POST" })).json();
+    if (cancelled.status !== "CANCELLED") throw new Error(`expected CANCELLED, got ${JSON.stringify(cancelled)}`);
+    const hosted = await (await fetch(`${GATEWAY_ORIGIN}/api/v2/checkout/${cancelGw}`)).json();
+    if (hosted.payable !== false || hosted.status !== "CANCELLED") throw new Error(`hosted checkout should refuse a cancelled order: ${JSON.stringify(hosted)}`);
+    const cancelledPay = await fetch(`${GATEWAY_ORIGIN}/api/process-payment`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ orderId: cancelGw, paymentMethod: "upi", upiId: "retry@okbank" }),
+    });
+    const cancelledPayJson = await cancelledPay.json();
+    if (cancelledPay.status !== 409 || cancelledPayJson.error !== "ERR_ORDER_CANCELLED") {
+      throw new Error(`expected ERR_ORDER_CANCELLED, got ${cancelledPay.status} ${JSON.stringify(cancelledPayJson)}`);
+    }
+    const cancelPaid = await merchantFetch(`${GATEWAY_ORIGIN}/api/v2/orders/${dupFirst.gateway_order_id}/cancel`, { method: "POST" });
+    if (cancelPaid.status !== 409 || (await cancelPaid.json()).error !== "ERR_ORDER_ALREADY_COMPLETED") {
+      throw new Error(`expected a paid order to refuse cancellation, got ${cancelPaid.status}`);
+    }
+    console.log("TEST 8 passed\n");
+
+    // Test 9: Refunds
+    console.log("TEST 9: Refunds - partial refunds never exceed the captured amount and credit the payer's account");
+    const refund = (transactionId: string, body: object) =>
+      fetch(`${GATEWAY_ORIGIN}/api/transactions/${transactionId}/refunds`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+    const paidTxn = payments.find((t) => t.status === "success");
+    const failedTxn = payments.find((t) => t.status === "failed");
+    // three concurrent partial refunds of 120 against a 300 payment: only two fit
+    const partials = await Promise.all([1, 2, 3].map(() => refund(paidTxn.id, { amount: 120, reason: "partial" })));
+    const partialCodes = partials.map((r) => r.status).sort();
+    if (partialCodes.join(",") !== "201,201,400") throw new Error(`unexpected partial refund results ${partialCodes}`);
+    const restResp = await refund(paidTxn.id, {});
+    const rest = await restResp.json();
+    if (restResp.status !== 201 || rest.amount !== 60 || rest.status !== "processed") {
+      throw new Error(`expected the remaining 60 to be refunded, got ${restResp.status} ${JSON.stringify(rest)}`);
+    }
+    const overResp = await refund(paidTxn.id, { amount: 1 });
+    if (overResp.status !== 400 || (await overResp.json()).error !== "ERR_REFUND_EXCEEDS_AMOUNT") {
+      throw new Error(`expected a fully refunded payment to refuse more refunds, got ${overResp.status}`);
+    }
+    const failedRefund = await refund(failedTxn.id, {});
+    if (failedRefund.status !== 409 || (await failedRefund.json()).error !== "ERR_NOT_REFUNDABLE") {
+      throw new Error(`expected failed payments to be non-refundable, got ${failedRefund.status}`);
+    }
+    const refundList = await (await fetch(`${GATEWAY_ORIGIN}/api/transactions/${paidTxn.id}/refunds`)).json();
+    if (refundList.length !== 3) throw new Error(`expected 3 refunds, got ${refundList.length}`);
+    const refundedAccount = (await (await fetch(`${GATEWAY_ORIGIN}/api/accounts`)).json()).find((a: any) => a.id === account.id);
+    if (refundedAccount.balance !== after.balance + price) throw new Error(`refund did not credit the account: ${refundedAccount.balance}`);
+    const refundRecon = await (await fetch(`${GATEWAY_ORIGIN}/api/accounts/${account.id}/reconciliation`)).json();
+    if (!refundRecon.reconciled) throw new Error(`ledger does not reconcile after refunds: ${JSON.stringify(refundRecon)}`);
+
+    // refunds of v2 payments notify the merchant
+    const anonymousV2Refund = await refund(payJson.id, { amount: 100 });
+    if (anonymousV2Refund.status !== 403 || (await anonymousV2Refund.json()).error !== "ERR_API_KEY_REQUIRED") throw new Error("v2 payments must not be refunded without a key");
+    const v2Refund = await (await merchantFetch(`${GATEWAY_ORIGIN}/api/v2/payments/${payJson.id}/refunds`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ amount: 100 }),
+    })).json();
+    const refundEvent = await waitForWebhookMatching(received, (p) => p.refund_id === v2Refund.id);
+    if (refundEvent.event !== "refund.processed" || refundEvent.amount_in_paisa !== 10000) {
+      throw new Error(`unexpected refund webhook ${JSON.stringify(refundEvent)}`);
+    }
+    console.log("TEST 9 passed\n");
+
+    // Test 10: Manual capture
+    console.log("TEST 10: Manual capture - authorizations hold funds until captured, voided or auto-voided");
+    const holdAccount = await (await fetch(`${GATEWAY_ORIGIN}/api/create-account`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ accountHolderName: "Hold Test", accountNumber: "5555666677778888", bankName: "SBI", balance: 1000 }),
+    })).json();
+    const balanceOf = async () =>
+      (await (await fetch(`${GATEWAY_ORIGIN}/api/accounts`)).json()).find((a: any) => a.id === holdAccount.id).balance;
+    const authorize = async (orderId: string, amountInPaisa: number) => {
+      const created = await (await merchantFetch(`${GATEWAY_ORIGIN}/api/v2/orders`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...dupOrder, order_id: orderId, amount_in_paisa: amountInPaisa, payment_capture: "manual" }),
+      })).json();
+      const txn = await (await fetch(`${GATEWAY_ORIGIN}/api/process-payment`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ orderId: created.gateway_order_id, paymentMethod: "netbanking", bankAccountId: holdAccount.id }),
+      })).json();
+      if (txn.status !== "authorized") throw new Error(`expected an authorization, got ${JSON.stringify(txn)}`);
+      return { gw: created.gateway_order_id as string, txn };
+    };
+    const capture = (id: string, body: object = {}, send: typeof fetch = merchantFetch) =>
+      send(`${GATEWAY_ORIGIN}/api/v2/payments/${id}/capture`, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) });
+    const orderStatus = async (gw: string) => (await (await merchantFetch(`${GATEWAY_ORIGIN}/api/v2/orders/${gw}`)).json()).status;
+
+    const held = await authorize("order_test_capture", 40000);
+    if ((await balanceOf()) !== 600) throw new Error("authorization did not hold the funds");
+    if ((await capture(held.txn.id, {}, fetch)).status !== 401) throw new Error("keyed capture needs an API key");
+    if ((await orderStatus(held.gw)) !== "AUTHORIZED") throw new Error("order should be AUTHORIZED");
+    const captureResp = await capture(held.txn.id, { amount: 250 });
+    const captured = await captureResp.json();
+    if (captureResp.status !== 200 || captured.status !== "success" || captured.capturedAmount !== 250) {
+      throw new Error(`partial capture failed: ${captureResp.status} ${JSON.stringify(captured)}`);
+    }
+    if ((await balanceOf()) !== 750) throw new Error("the uncaptured part was not released");
+    if ((await orderStatus(held.gw)) !== "COMPLETED") throw new Error("captured order should be COMPLETED");
+    const capturedEvent = await waitForWebhookMatching(received, (p) => p.event === "payment.captured" && p.payment_ref === held.txn.id);
+    if (capturedEvent.captured_amount_in_paisa !== 25000 || !capturedEvent.paid_at) throw new Error(`unexpected capture webhook ${JSON.stringify(capturedEvent)}`);
+    if ((await capture(held.txn.id)).status !== 409) throw new Error("a captured payment must not be captured again");
+    const overRefund = await adminFetch(`${GATEWAY_ORIGIN}/api/transactions/${held.txn.id}/refunds`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ amount: 300 }),
+    });
+    if (overRefund.status !== 400) throw new Error("refunds must be limited to the captured amount");
+
+    const toVoid = await authorize("order_test_void", 10000);
+    if ((await fetch(`${GATEWAY_ORIGIN}/api/v2/payments/${toVoid.txn.id}/void`, { method: "POST" })).status !== 401) throw new Error("keyed void needs an API key");
+    const voidResp = await merchantFetch(`${GATEWAY_ORIGIN}/api/v2/payments/${toVoid.txn.id}/void`, { method: "POST" });
+    if (voidResp.status !== 200 || (await voidResp.json()).status !== "voided") throw new Error("void failed");
+    if ((await balanceOf()) !== 750) throw new Error("void did not release the hold");
+    if ((await orderStatus(toVoid.gw)) !== "CANCELLED") throw new Error("voided order should be CANCELLED");
+    await waitForWebhookMatching(received, (p) => p.event === "payment.voided" && p.payment_ref === toVoid.txn.id);
+
+    // a card authorization never holds the bankAccountId sent with it, so voiding it releases nothing
+    const cardHoldOrder = await (await merchantFetch(`${GATEWAY_ORIGIN}/api/v2/orders`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...dupOrder, order_id: "order_test_void_card", amount_in_paisa: 10000, payment_capture: "manual" }),
+    })).json();
+    const cardHold = await (await fetch(`${GATEWAY_ORIGIN}/api/process-payment`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ orderId: cardHoldOrder.gateway_order_id, paymentMethod: "card", bankAccountId: holdAccount.id, cardDetails: { cardNumber: "4242424242424242", expiry: "12/30", cvv: "123", cardHolderName: "Hold Test" } }),
+    })).json();
+    if (cardHold.status !== "authorized") throw new Error(`expected a card authorization, got ${JSON.stringify(cardHold)}`);
+    if ((await merchantFetch(`${GATEWAY_ORIGIN}/api/v2/payments/${cardHold.id}/void`, { method: "POST" })).status !== 200) throw new Error("card void failed");
+    if ((await balanceOf()) !== 750) throw new Error("voiding a card authorization must not credit a bank account");
+
+    // the unauthenticated routes point at their keyed successors and leave v2 payments to them or the dashboard
+    const legacyVoid = await fetch(`${GATEWAY_ORIGIN}/api/payments/${toVoid.txn.id}/void`, { method: "POST" });
+    if (legacyVoid.status !== 403 || legacyVoid.headers.get("Deprecation") !== "true" || legacyVoid.headers.get("Link") !== `</api/v2/payments/${toVoid.txn.id}/void>; rel="successor-version"`) {
+      throw new Error(`the unauthenticated void should be deprecated and refuse v2 payments: ${legacyVoid.status} ${legacyVoid.headers.get("Link")}`);
+    }
+    const legacyCapture = await fetch(`${GATEWAY_ORIGIN}/api/payments/${toVoid.txn.id}/capture`, { method: "POST" });
+    if (legacyCapture.status !== 403 || (await legacyCapture.json()).error !== "ERR_API_KEY_REQUIRED") throw new Error("the unauthenticated capture must refuse v2 payments");
+    if ((await adminFetch(`${GATEWAY_ORIGIN}/api/payments/${toVoid.txn.id}/void`, { method: "POST" })).status !== 409) throw new Error("the dashboard should still reach v2 payments");
+    if (overRefund.headers.get("Deprecation") !== "true") throw new Error("the unauthenticated refund should be deprecated");
+
+    const abandoned = await authorize("order_test_autovoid", 5000);
+    if ((await balanceOf()) !== 700) throw new Error("authorization did not hold the funds");
+    await waitForWebhookMatching(received, (p) => p.event === "payment.voided" && p.payment_ref === abandoned.txn.id, 15000);
+    if ((await balanceOf()) !== 750) throw new Error("auto-void did not release the hold");
+    const holdRecon = await (await fetch(`${GATEWAY_ORIGIN}/api/accounts/${holdAccount.id}/reconciliation`)).json();
+    if (!holdRecon.reconciled) throw new Error(`ledger does not reconcile after captures: ${JSON.stringify(holdRecon)}`);
+    console.log("TEST 10 passed\n");
+
+    // Test 11: Test scenario catalog
+    console.log("TEST 11: Test scenarios - the catalog decides how test instruments are answered and can be edited");
+    const catalog = await (await fetch(`${GATEWAY_ORIGIN}/api/scenarios`)).json();
+    if (!Array.isArray(catalog) || catalog.length === 0) throw new Error("expected the default scenario catalog");
+    const payV1 = async (paymentDetails: object) => {
+      const order = await (await fetch(`${GATEWAY_ORIGIN}/api/create-order`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: "Scenario Test", email: "scenario@e.com", phone: "9876543210", amount: 75 }),
+      })).json();
+      return (await fetch(`${GATEWAY_ORIGIN}/api/process-payment`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ orderId: order.id, ...paymentDetails }),
+      })).json();
+    };
+    const declined = await payV1({ paymentMethod: "card", cardDetails: { cardNumber: "4000000000009995", expiry: "12/30", cvv: "123", cardHolderName: "Test" } });
+    if (declined.status !== "failed" || declined.failureCode !== "insufficient_funds") {
+      throw new Error(`expected an insufficient_funds decline, got ${JSON.stringify(declined)}`);
+    }
+    const outageAccount = await (await fetch(`${GATEWAY_ORIGIN}/api/create-account`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ accountHolderName: "Outage Test", accountNumber: "4444333322221111", bankName: "Axis Bank", balance: 500 }),
+    })).json();
+    const outage = await payV1({ paymentMethod: "netbanking", bankAccountId: outageAccount.id });
+    if (outage.status !== "failed" || outage.failureCode !== "network_error") throw new Error(`expected a network error, got ${JSON.stringify(outage)}`);
+    const outageBalance = (await (await fetch(`${GATEWAY_ORIGIN}/api/accounts`)).json()).find((a: any) => a.id === outageAccount.id).balance;
+    if (outageBalance !== 500) throw new Error("a failed netbanking scenario must not debit the account");
+
+    const putCatalog = (body: unknown) =>
+      fetch(`${GATEWAY_ORIGIN}/api/scenarios`, { method: "PUT", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) });
+    const flaky = { paymentMethod: "upi", match: "flaky@upi", outcome: "decline", code: "psp_unavailable", message: "PSP unavailable", description: "Test" };
+    if ((await putCatalog([flaky, flaky])).status !== 400) throw new Error("duplicate scenarios must be rejected");
+    if ((await putCatalog([...catalog, flaky])).status !== 200) throw new Error("catalog update failed");
+    const flakyResult = await payV1({ paymentMethod: "upi", upiId: "Flaky@UPI" });
+    if (flakyResult.failureCode !== "psp_unavailable") throw new Error(`edited scenario not applied: ${JSON.stringify(flakyResult)}`);
+    await putCatalog(catalog);
+    if ((await payV1({ paymentMethod: "upi", upiId: "flaky@upi" })).failureCode !== "invalid_vpa") throw new Error("restored catalog still declines");
+    console.log("TEST 11 passed\n");
+
+    // Test 12: Card validation and masked card storage
+    console.log("TEST 12: Cards - invalid cards are rejected and only the network, last4 and expiry are stored");
+    const payCard = (cardNumber: string, expiry = "12/30", cvv = "123") =>
+      payV1({ paymentMethod: "card", cardDetails: { cardNumber, expiry, cvv, cardHolderName: "Card Test" } });
+    const cardRejections: [Promise<any>, string][] = [
+      [payCard("4242424242424241"), "invalid_number"],
+      [payCard("4242424242424242", "01/20"), "expired_card"],
+      [payCard("4242424242424242", "13/30"), "invalid_expiry"],
+      [payCard("378282246310005"), "invalid_cvv"],
+    ];
+    for (const [pending, code] of cardRejections) {
+      const rejected = await pending;
+      if (rejected.error !== "ERR_INVALID_CARD" || rejected.code !== code) throw new Error(`expected ${code}, got ${JSON.stringify(rejected)}`);
+    }
+    const amexPayment = await payCard("378282246310005", "12/30", "1234");
+    if (amexPayment.status !== "success" || amexPayment.cardNetwork !== "amex" || amexPayment.cardLast4 !== "0005" || amexPayment.cardExpiryYear !== 2030) {
+      throw new Error(`unexpected card transaction ${JSON.stringify(amexPayment)}`);
+    }
+    if (JSON.stringify(amexPayment).includes("378282246310005")) throw new Error("the full card number must not be stored");
+
+    // a bankAccountId sent with a card payment is never debited, so refunds must not credit it
+    const accountBalance = async () => (await (await fetch(`${GATEWAY_ORIGIN}/api/accounts`)).json()).find((a: any) => a.id === account.id).balance;
+    const untouchedBalance = await accountBalance();
+    const cardWithAccount = await payV1({ paymentMethod: "card", bankAccountId: account.id, cardDetails: { cardNumber: "4242424242424242", expiry: "12/30", cvv: "123", cardHolderName: "Card Test" } });
+    if (cardWithAccount.status !== "success" || cardWithAccount.bankAccountId) throw new Error(`a card payment must not record a bank account: ${JSON.stringify(cardWithAccount)}`);
+    const cardRefund = await (await fetch(`${GATEWAY_ORIGIN}/api/transactions/${cardWithAccount.id}/refunds`, { method: "POST", headers: { "Content-Type": "application/json" }, body: "{}" })).json();
+    if (cardRefund.status !== "processed" || (await accountBalance()) !== untouchedBalance) throw new Error("a card refund must not credit a bank account");
+
+    const cardOrder = await (await merchantFetch(`${GATEWAY_ORIGIN}/api/v2/orders`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...dupOrder, order_id: "order_test_card", amount_in_paisa: 12300 }),
+    })).json();
+    const mcPayment = await (await fetch(`${GATEWAY_ORIGIN}/api/process-payment`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ orderId: cardOrder.gateway_order_id, paymentMethod: "card", cardDetails: { cardNumber: "5555 5555 5555 4444", expiry: "08/29", cvv: "321", cardHolderName: "Card Test" } }),
+    })).json();
+    const cardEvent = await waitForWebhookMatching(received, (p) => p.payment_ref === mcPayment.id);
+    if (cardEvent.card?.network !== "mastercard" || cardEvent.card?.last4 !== "4444" || cardEvent.card?.expiry_month !== 8) {
+      throw new Error(`unexpected card in webhook ${JSON.stringify(cardEvent.card)}`);
+    }
+    console.log("TEST 12 passed\n");
+
+    // Test 13: 3-D Secure OTP challenge
+    console.log("TEST 13: 3-D Secure - challenged cards wait for an OTP before the payment is finalized");
+    const challengeCard = { cardNumber: "4000000000003220", expiry: "12/30", cvv: "123", cardHolderName: "3DS Test" };
+    const authenticate = (id: string, body: object) =>
+      fetch(`${GATEWAY_ORIGIN}/api/payments/${id}/authenticate`, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) });
+    const challengedOrder = async (orderId: string) => {
+      const created = await (await merchantFetch(`${GATEWAY_ORIGIN}/api/v2/orders`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...dupOrder, order_id: orderId, amount_in_paisa: 20000 }),
+      })).json();
+      const txn = await (await fetch(`${GATEWAY_ORIGIN}/api/process-payment`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ orderId: created.gateway_order_id, paymentMethod: "card", cardDetails: challengeCard }),
+      })).json();
+      if (txn.status !== "requires_action" || !txn.challengeId) throw new Error(`expected a challenge, got ${JSON.stringify(txn)}`);
+      return { gw: created.gateway_order_id as string, txn };
+    };
+
+    const challenged = await challengedOrder("order_test_3ds");
+    if ((await orderStatus(challenged.gw)) !== "ATTEMPTED") throw new Error("a challenged order should stay ATTEMPTED");
+    const wrongOtp = await authenticate(challenged.txn.id, { challengeId: challenged.txn.challengeId, otp: "111111" });
+    const wrongOtpJson = await wrongOtp.json();
+    if (wrongOtp.status !== 400 || wrongOtpJson.error !== "ERR_INVALID_OTP" || wrongOtpJson.attemptsRemaining !== 2) {
+      throw new Error(`expected ERR_INVALID_OTP, got ${wrongOtp.status} ${JSON.stringify(wrongOtpJson)}`);
+    }
+    if ((await authenticate(challenged.txn.id, { challengeId: "CHL_OTHER", otp: "123456" })).status !== 400) throw new Error("a foreign challengeId must be rejected");
+    const passed = await authenticate(challenged.txn.id, { challengeId: challenged.txn.challengeId, otp: "123456" });
+    const passedJson = await passed.json();
+    if (passed.status !== 200 || passedJson.status !== "success") throw new Error(`authentication failed: ${JSON.stringify(passedJson)}`);
+    if ((await orderStatus(challenged.gw)) !== "COMPLETED") throw new Error("authenticated order should be COMPLETED");
+    await waitForWebhookMatching(received, (p) => p.event === "payment.succeeded" && p.payment_ref === challenged.txn.id);
+    if ((await authenticate(challenged.txn.id, { otp: "123456" })).status !== 409) throw new Error("a finalized payment has no challenge");
+
+    const exhausted = await payV1({ paymentMethod: "card", cardDetails: challengeCard });
+    for (const expected of [400, 400, 200]) {
+      const attempt = await authenticate(exhausted.id, { otp: "222222" });
+      if (attempt.status !== expected) throw new Error(`expected ${expected} for a wrong OTP, got ${attempt.status}`);
+      if (expected === 200 && (await attempt.json()).failureCode !== "authentication_failed") throw new Error("too many attempts should fail the payment");
+    }
+    const refused = await payV1({ paymentMethod: "card", cardDetails: challengeCard });
+    const refusedJson = await (await authenticate(refused.id, { otp: "000000" })).json();
+    if (refusedJson.status !== "failed" || refusedJson.failureCode !== "authentication_failed") throw new Error(`failure OTP not applied: ${JSON.stringify(refusedJson)}`);
+
+    const abandonedChallenge = await challengedOrder("order_test_3ds_timeout");
+    const timeoutEvent = await waitForWebhookMatching(received, (p) => p.payment_ref === abandonedChallenge.txn.id, 15000);
+    if (timeoutEvent.event !== "payment.failed" || timeoutEvent.failure_code !== "authentication_timeout") {
+      throw new Error(`expected a timed-out challenge, got ${JSON.stringify(timeoutEvent)}`);
+    }
+    if ((await orderStatus(abandonedChallenge.gw)) !== "FAILED") throw new Error("a timed-out challenge should fail the order");
+    console.log("TEST 13 passed\n");
+
+    // Test 14: Card vault
+    console.log("TEST 14: Card vault - customers can save a card and pay later orders with its token and CVV");
+    const visa = { cardNumber: "4242424242424242", expiry: "12/30", cvv: "123", cardHolderName: "Vault Test" };
+    const payVaultOrder = async (orderId: string, customerId: string, paymentDetails: object) => {
+      const created = await (await merchantFetch(`${GATEWAY_ORIGIN}/api/v2/orders`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...dupOrder, order_id: orderId, amount_in_paisa: 15000, customer: { customer_id: customerId } }),
+      })).json();
+      const resp = await fetch(`${GATEWAY_ORIGIN}/api/process-payment`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ orderId: created.gateway_order_id, paymentMethod: "card", ...paymentDetails }),
+      });
+      return { status: resp.status, body: await resp.json() };
+    };
+    const cardsUrl = (customerId: string) => `${GATEWAY_ORIGIN}/api/v2/merchants/mer_test/customers/${customerId}/cards`;
+
+    const saved = await payVaultOrder("order_test_vault_1", "cust_vault", { cardDetails: visa, saveCard: true });
+    const tokenId = saved.body.cardTokenId;
+    if (saved.body.status !== "success" || !tokenId?.startsWith("tok_")) throw new Error(`card was not vaulted: ${JSON.stringify(saved.body)}`);
+    const savedEvent = await waitForWebhookMatching(received, (p) => p.payment_ref === saved.body.id);
+    if (savedEvent.card?.token_id !== tokenId) throw new Error(`webhook is missing the token: ${JSON.stringify(savedEvent.card)}`);
+    const noCustomer = await payV1({ paymentMethod: "card", cardDetails: visa, saveCard: true });
+    if (noCustomer.error !== "ERR_CUSTOMER_REQUIRED") throw new Error(`saveCard without a customer should be rejected, got ${JSON.stringify(noCustomer)}`);
+
+    const vaulted = await (await merchantFetch(cardsUrl("cust_vault"))).json();
+    if (vaulted.length !== 1 || vaulted[0].token_id !== tokenId || vaulted[0].last4 !== "4242" || "fingerprint" in vaulted[0]) {
+      throw new Error(`unexpected saved cards ${JSON.stringify(vaulted)}`);
+    }
+    const vaultCheckoutOrder = await (await merchantFetch(`${GATEWAY_ORIGIN}/api/v2/orders`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...dupOrder, order_id: "order_test_vault_checkout", customer: { customer_id: "cust_vault" } }),
+    })).json();
+    const vaultCheckout = (query: string) => fetch(`${GATEWAY_ORIGIN}/api/v2/checkout/${vaultCheckoutOrder.gateway_order_id}${query}`).then((r) => r.json());
+    const anonymousCheckout = await vaultCheckout("");
+    if (["saved_cards", "customer", "plan", "return_url"].some((field) => field in anonymousCheckout)) {
+      throw new Error(`customer details need the one-time order token: ${JSON.stringify(anonymousCheckout)}`);
+    }
+    if (!vaultCheckoutOrder.redirect_url.includes(`token=${vaultCheckoutOrder.one_time_order_token}`)) {
+      throw new Error(`redirect_url should carry the one-time order token: ${vaultCheckoutOrder.redirect_url}`);
+    }
+    const tokenCheckout = await vaultCheckout(`?token=${vaultCheckoutOrder.one_time_order_token}`);
+    if (tokenCheckout.saved_cards?.[0]?.token_id !== tokenId) throw new Error(`the token holder should see saved cards: ${JSON.stringify(tokenCheckout)}`);
+    if (tokenCheckout.customer?.customer_id !== "cust_vault" || tokenCheckout.return_url !== dupOrder.return_url) {
+      throw new Error(`the token holder should see the customer and return_url: ${JSON.stringify(tokenCheckout)}`);
+    }
+    const reused = await payVaultOrder("order_test_vault_2", "cust_vault", { savedCard: { tokenId, cvv: "321" } });
+    if (reused.body.status !== "success" || reused.body.cardTokenId !== tokenId || reused.body.cardNetwork !== "visa") {
+      throw new Error(`token payment failed: ${JSON.stringify(reused.body)}`);
+    }
+    const resaved = await payVaultOrder("order_test_vault_3", "cust_vault", { cardDetails: visa, saveCard: true });
+    if (resaved.body.cardTokenId !== tokenId) throw new Error("saving the same card again should reuse its token");
+    const badCvv = await payVaultOrder("order_test_vault_4", "cust_vault", { savedCard: { tokenId, cvv: "12" } });
+    if (badCvv.status !== 400 || badCvv.body.code !== "invalid_cvv") throw new Error(`expected invalid_cvv, got ${JSON.stringify(badCvv.body)}`);
+    const foreign = await payVaultOrder("order_test_vault_5", "cust_other", { savedCard: { tokenId, cvv: "123" } });
+    if (foreign.status !== 404 || foreign.body.error !== "ERR_CARD_TOKEN_NOT_FOUND") throw new Error("another customer must not use the token");
+
+    if ((await merchantFetch(`${cardsUrl("cust_other")}/${tokenId}`, { method: "DELETE" })).status !== 404) throw new Error("another customer must not delete the token");
+    if ((await merchantFetch(`${cardsUrl("cust_vault")}/${tokenId}`, { method: "DELETE" })).status !== 204) throw new Error("token delete failed");
+    if ((await (await merchantFetch(cardsUrl("cust_vault"))).json()).length !== 0) throw new Error("deleted token is still listed");
+
+    // a challenged card is only saved once its OTP passes
+    const declinedChallenge = await payVaultOrder("order_test_vault_3ds_1", "cust_3ds", { cardDetails: challengeCard, saveCard: true });
+    if (declinedChallenge.body.status !== "requires_action" || declinedChallenge.body.cardTokenId) throw new Error(`a challenged card must not be vaulted yet: ${JSON.stringify(declinedChallenge.body)}`);
+    if ((await (await merchantFetch(cardsUrl("cust_3ds"))).json()).length !== 0) throw new Error("a card awaiting its challenge must not be listed");
+    await authenticate(declinedChallenge.body.id, { otp: "000000" });
+    if ((await (await merchantFetch(cardsUrl("cust_3ds"))).json()).length !== 0) throw new Error("a card that failed its challenge must not be saved");
+    const passedChallenge = await payVaultOrder("order_test_vault_3ds_2", "cust_3ds", { cardDetails: challengeCard, saveCard: true });
+    const authenticated = await (await authenticate(passedChallenge.body.id, { otp: "123456" })).json();
+    const challengeSaved = await (await merchantFetch(cardsUrl("cust_3ds"))).json();
+    if (authenticated.status !== "success" || challengeSaved.length !== 1 || authenticated.cardTokenId !== challengeSaved[0].token_id || "saveCardFingerprint" in authenticated) {
+      throw new Error(`an authenticated card should be vaulted: ${JSON.stringify({ authenticated, challengeSaved })}`);
+    }
+    const challengeEvent = await waitForWebhookMatching(received, (p) => p.payment_ref === passedChallenge.body.id);
+    if (challengeEvent.card?.token_id !== challengeSaved[0].token_id) throw new Error("the webhook should carry the new token");
+    // the saved card is still the catalog's challenge card, so paying with its token is challenged too
+    const savedChallenge = await payVaultOrder("order_test_vault_3ds_3", "cust_3ds", { savedCard: { tokenId: challengeSaved[0].token_id, cvv: "123" } });
+    if (savedChallenge.body.status !== "requires_action") throw new Error(`a saved challenge card should be challenged: ${JSON.stringify(savedChallenge.body)}`);
+    if ((await (await authenticate(savedChallenge.body.id, { otp: "123456" })).json()).status !== "success") throw new Error("the saved card's challenge should pass");
+    console.log("TEST 14 passed\n");
+
+    // Test 15: UPI collect
+    console.log("TEST 15: UPI collect - payments stay pending until the PSP or an admin answers, or the request expires");
+    const resolveCollect = (id: string, action: string) =>
+      fetch(`${GATEWAY_ORIGIN}/api/payments/${id}/collect`, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ action }) });
+    const collectOrder = async (orderId: string, upiId: string) => {
+      const created = await (await merchantFetch(`${GATEWAY_ORIGIN}/api/v2/orders`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...dupOrder, order_id: orderId, amount_in_paisa: 30000 }),
+      })).json();
+      const txn = await (await fetch(`${GATEWAY_ORIGIN}/api/process-payment`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ orderId: created.gateway_order_id, paymentMethod: "upi", upiId, upiFlow: "collect" }),
+      })).json();
+      if (txn.status !== "pending" || !txn.collectExpiresAt) throw new Error(`expected a pending collect, got ${JSON.stringify(txn)}`);
+      return { gw: created.gateway_order_id as string, txn };
+    };
+
+    const approved = await collectOrder("order_test_collect_ok", "success@upi");
+    if ((await orderStatus(approved.gw)) !== "ATTEMPTED") throw new Error("a pending collect should leave the order ATTEMPTED");
+    const pendingEvent = await waitForWebhookMatching(received, (p) => p.payment_ref === approved.txn.id);
+    if (pendingEvent.event !== "payment.pending" || pendingEvent.status !== "PENDING") throw new Error(`expected a PENDING webhook first, got ${JSON.stringify(pendingEvent)}`);
+    await waitForWebhookMatching(received, (p) => p.payment_ref === approved.txn.id && p.event === "payment.succeeded");
+    if ((await orderStatus(approved.gw)) !== "COMPLETED") throw new Error("an approved collect should complete the order");
+
+    const collectDeclined = await collectOrder("order_test_collect_declined", "fail@okbank");
+    const collectDeclinedEvent = await waitForWebhookMatching(received, (p) => p.payment_ref === collectDeclined.txn.id && p.status !== "PENDING");
+    if (collectDeclinedEvent.event !== "payment.failed" || collectDeclinedEvent.failure_code !== "upi_declined") throw new Error(`expected a declined collect, got ${JSON.stringify(collectDeclinedEvent)}`);
+
+    // timeout@upi is never answered by the simulated PSP
+    const adminApproved = await collectOrder("order_test_collect_admin", "timeout@upi");
+    const approveResp = await resolveCollect(adminApproved.txn.id, "approve");
+    if (approveResp.status !== 200 || (await approveResp.json()).status !== "success") throw new Error("admin approve failed");
+    if ((await resolveCollect(adminApproved.txn.id, "reject")).status !== 409) throw new Error("a finalized collect cannot be rejected");
+    const adminRejected = await collectOrder("order_test_collect_reject", "timeout@upi");
+    if ((await (await resolveCollect(adminRejected.txn.id, "reject")).json()).status !== "failed") throw new Error("admin reject failed");
+    if ((await orderStatus(adminRejected.gw)) !== "FAILED") throw new Error("a rejected collect should fail the order");
+
+    const unanswered = await collectOrder("order_test_collect_expired", "timeout@upi");
+    const collectExpiredEvent = await waitForWebhookMatching(received, (p) => p.payment_ref === unanswered.txn.id && p.status !== "PENDING", 15000);
+    if (collectExpiredEvent.failure_code !== "collect_expired") throw new Error(`expected an expired collect, got ${JSON.stringify(collectExpiredEvent)}`);
+    if ((await orderStatus(unanswered.gw)) !== "FAILED") throw new Error("an expired collect should fail the order");
+    console.log("TEST 15 passed\n");
+
+    // Test 16: UPI intents and the VPA registry
+    console.log("TEST 16: UPI - orders get a upi://pay intent and QR code, and registered VPAs debit their linked account");
+    const intentGw = (await (await merchantFetch(`${GATEWAY_ORIGIN}/api/v2/orders`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...dupOrder, order_id: "order_test_upi_intent", amount_in_paisa: 30050 }),
+    })).json()).gateway_order_id;
+    const intent = await (await fetch(`${GATEWAY_ORIGIN}/api/orders/${intentGw}/upi-intent`)).json();
+    const intentParams = new URLSearchParams(intent.intentUrl.replace("upi://pay?", ""));
+    if (!intent.intentUrl.startsWith("upi://pay?pa=payments@payflow&") || intentParams.get("am") !== "300.50" || intentParams.get("tr") !== intentGw || intentParams.get("cu") !== "INR") {
+      throw new Error(`unexpected UPI intent ${intent.intentUrl}`);
+    }
+    if (!intent.qrCode?.startsWith("data:image/png;base64,")) throw new Error("missing UPI QR code");
+
+    const vpaAccount = await (await fetch(`${GATEWAY_ORIGIN}/api/create-account`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ accountHolderName: "Alice", accountNumber: "7777888899990000", bankName: "Axis Bank", balance: 200 }),
+    })).json();
+    const registerVpa = (body: object) =>
+      fetch(`${GATEWAY_ORIGIN}/api/vpas`, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) });
+    const registered = await registerVpa({ vpa: "Alice@OKAXIS", bankAccountId: vpaAccount.id });
+    if (registered.status !== 201 || (await registered.json()).vpa !== "alice@okaxis") throw new Error("VPA registration failed");
+    if ((await registerVpa({ vpa: "alice@okaxis", bankAccountId: vpaAccount.id })).status !== 409) throw new Error("a VPA can only be registered once");
+    if ((await registerVpa({ vpa: "bob@okaxis", bankAccountId: "missing" })).status !== 404) throw new Error("a VPA needs an existing account");
+    if ((await registerVpa({ vpa: "not-a-vpa", bankAccountId: vpaAccount.id })).status !== 400) throw new Error("malformed VPAs must be rejected");
+    if ((await (await fetch(`${GATEWAY_ORIGIN}/api/vpas/alice@okaxis`)).json()).accountHolderName !== "Alice") throw new Error("VPA lookup failed");
+
+    const vpaBalance = async () => (await (await fetch(`${GATEWAY_ORIGIN}/api/accounts`)).json()).find((a: any) => a.id === vpaAccount.id).balance;
+    const upiPaid = await payV1({ paymentMethod: "upi", upiId: "alice@okaxis" });
+    if (upiPaid.status !== "success" || upiPaid.bankAccountId !== vpaAccount.id || (await vpaBalance()) !== 125) {
+      throw new Error(`UPI payment should debit the linked account: ${JSON.stringify(upiPaid)}`);
+    }
+    const upiCollected = await payV1({ paymentMethod: "upi", upiId: "alice@okaxis", upiFlow: "collect" });
+    if ((await vpaBalance()) !== 125) throw new Error("a pending collect must not debit the account yet");
+    const collectedTxn = await waitFor(async () => {
+      const txn = await (await fetch(`${GATEWAY_ORIGIN}/api/transactions/${upiCollected.id}`)).json();
+      return txn.status !== "pending" ? txn : undefined;
+    });
+    if (collectedTxn.status !== "success" || (await vpaBalance()) !== 50) throw new Error(`approved collect should debit the account: ${JSON.stringify(collectedTxn)}`);
+    const upiBroke = await payV1({ paymentMethod: "upi", upiId: "alice@okaxis" });
+    if (upiBroke.failureCode !== "insufficient_funds") throw new Error(`expected insufficient_funds, got ${JSON.stringify(upiBroke)}`);
+    if ((await payV1({ paymentMethod: "upi", upiId: "nobody@okaxis" })).failureCode !== "invalid_vpa") throw new Error("unknown VPAs should fail as invalid_vpa");
+
+    if ((await fetch(`${GATEWAY_ORIGIN}/api/vpas/alice@okaxis`, { method: "DELETE" })).status !== 204) throw new Error("VPA delete failed");
+    if ((await payV1({ paymentMethod: "upi", upiId: "alice@okaxis" })).failureCode !== "invalid_vpa") throw new Error("a deleted VPA can no longer pay");
+    console.log("TEST 16 passed\n");
+
+    // Test 17: netbanking redirect
+    console.log("TEST 17: Netbanking redirect - the customer logs in at the bank, picks an account and approves or declines");
+    const bankAccount = await (await fetch(`${GATEWAY_ORIGIN}/api/create-account`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ accountHolderName: "Ravi", accountNumber: "5555666677778888", bankName: "Kotak Bank", balance: 500 }),
+    })).json();
+    const bankBalance = async () => (await (await fetch(`${GATEWAY_ORIGIN}/api/accounts`)).json()).find((a: any) => a.id === bankAccount.id).balance;
+    const bankSessionUrl = (id: string) => `${GATEWAY_ORIGIN}/api/bank-sessions/${id}`;
+    const postBankSession = (id: string, step: string, body: object) =>
+      fetch(`${bankSessionUrl(id)}/${step}`, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) });
+    const redirectTo = { paymentMethod: "netbanking", netbankingFlow: "redirect", bankName: "Kotak Bank" };
+
+    const noBank = await fetch(`${GATEWAY_ORIGIN}/api/process-payment`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ orderId: (await (await fetch(`${GATEWAY_ORIGIN}/api/create-order`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: "Bank Test", email: "bank@e.com", phone: "9876543210", amount: 75 }),
+      })).json()).id, ...redirectTo, bankName: "Nowhere Bank" }),
+    });
+    if (noBank.status !== 404) throw new Error("redirecting to an unknown bank should 404");
+
+    const redirectGw = (await (await merchantFetch(`${GATEWAY_ORIGIN}/api/v2/orders`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...dupOrder, order_id: "order_test_netbanking", amount_in_paisa: 30000 }),
+    })).json()).gateway_order_id;
+    const redirected = await (await fetch(`${GATEWAY_ORIGIN}/api/process-payment`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ orderId: redirectGw, ...redirectTo }),
+    })).json();
+    if (redirected.status !== "pending" || !redirected.bankSessionId) throw new Error(`expected a pending bank session, got ${JSON.stringify(redirected)}`);
+    if ((await orderStatus(redirectGw)) !== "ATTEMPTED") throw new Error("a pending redirect should leave the order ATTEMPTED");
+    const bankSession = await (await fetch(bankSessionUrl(redirected.bankSessionId))).json();
+    if (bankSession.bankName !== "Kotak Bank" || bankSession.loggedIn || bankSession.accounts.length !== 0) throw new Error("accounts must stay hidden until login");
+
+    if ((await postBankSession(redirected.bankSessionId, "complete", { action: "approve", bankAccountId: bankAccount.id })).status !== 409) throw new Error("approving needs a login");
+    if ((await postBankSession(redirected.bankSessionId, "login", { userId: "ravi", password: "wrong" })).status !== 401) throw new Error("a wrong password should be rejected");
+    const loggedIn = await (await postBankSession(redirected.bankSessionId, "login", { userId: "ravi", password: "password" })).json();
+    if (!loggedIn.loggedIn || loggedIn.accounts[0]?.maskedAccountNumber !== "XXXX8888") throw new Error(`login should list the bank's accounts: ${JSON.stringify(loggedIn)}`);
+    if ((await postBankSession(redirected.bankSessionId, "complete", { action: "approve", bankAccountId: vpaAccount.id })).status !== 404) throw new Error("only accounts at the session's bank can pay");
+    const bankApproved = await (await postBankSession(redirected.bankSessionId, "complete", { action: "approve", bankAccountId: bankAccount.id })).json();
+    if (bankApproved.transaction.status !== "success" || bankApproved.transaction.bankAccountId !== bankAccount.id || (await bankBalance()) !== 200) {
+      throw new Error(`approving at the bank should debit the account: ${JSON.stringify(bankApproved)}`);
+    }
+    const returnUrl = new URL(bankApproved.returnUrl);
+    if (returnUrl.pathname !== "/pay/return" || returnUrl.searchParams.get("gw_order") !== redirectGw || returnUrl.searchParams.get("status") !== "COMPLETED") {
+      throw new Error(`unexpected return URL ${bankApproved.returnUrl}`);
+    }
+    if ((await postBankSession(redirected.bankSessionId, "complete", { action: "decline" })).status !== 409) throw new Error("a finished session cannot be answered again");
+
+    const toDecline = await payV1(redirectTo);
+    const bankDeclined = await (await postBankSession(toDecline.bankSessionId, "complete", { action: "decline" })).json();
+    if (bankDeclined.transaction.failureCode !== "bank_declined" || bankDeclined.returnUrl !== `/receipt/${toDecline.id}`) {
+      throw new Error(`expected a bank decline back to the receipt, got ${JSON.stringify(bankDeclined)}`);
+    }
+
+    const abandonedAtBank = await payV1(redirectTo);
+    const bankExpired = await waitFor(async () => {
+      const txn = await (await fetch(`${GATEWAY_ORIGIN}/api/transactions/${abandonedAtBank.id}`)).json();
+      return txn.status !== "pending" ? txn : undefined;
+    });
+    if (bankExpired.failureCode !== "bank_session_expired") throw new Error(`expected an expired bank session, got ${JSON.stringify(bankExpired)}`);
+    if ((await postBankSession(abandonedAtBank.bankSessionId, "login", { userId: "ravi", password: "password" })).status !== 409) throw new Error("an expired session cannot be logged in to");
+    console.log("TEST 17 passed\n");
+
+    // Test 18: merchant registry
+    console.log("TEST 18: Merchants - orders need a registered merchant, an enabled mode and registered URLs");
+    const merchantsUrl = `${GATEWAY_ORIGIN}/api/merchants`;
+    const sendMerchant = (method: string, url: string, body: object) =>
+      adminFetch(url, { method, headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) });
+    const shop = {
+      merchant_id: "mer_shop",
+      name: "Shop",
+      return_url_prefixes: ["https://shop.example.com/return"],
+      callback_url_prefixes: ["https://api.shop.example.com/hooks"],
+      payment_methods: ["upi"],
+    };
+    const createdMerchant = await sendMerchant("POST", merchantsUrl, shop);
+    const shopMerchant = await createdMerchant.json();
+    if (createdMerchant.status !== 201 || !shopMerchant.test_mode || shopMerchant.live_mode) throw new Error(`merchant create failed: ${JSON.stringify(shopMerchant)}`);
+    if ((await sendMerchant("POST", merchantsUrl, shop)).status !== 409) throw new Error("merchant ids must be unique");
+    if ((await sendMerchant("POST", merchantsUrl, { ...shop, merchant_id: "mer_plain", return_url_prefixes: ["http://shop.example.com"] })).status !== 400) {
+      throw new Error("plain-http prefixes outside localhost must be rejected");
+    }
+    const issueKey = async (merchantId: string, mode: string) =>
+      (await sendMerchant("POST", `${merchantsUrl}/${merchantId}/api-keys`, { mode })).json();
+    if ((await sendMerchant("POST", `${merchantsUrl}/mer_shop/api-keys`, { mode: "live" })).status !== 400) throw new Error("live keys need live mode");
+    // the registry and its credentials are for the dashboard's admin only
+    const anonymousRequests: [string, string, object?][] = [
+      ["POST", `${merchantsUrl}/mer_shop/api-keys`, { mode: "test" }],
+      ["GET", `${merchantsUrl}/mer_shop/api-keys`],
+      ["PUT", `${merchantsUrl}/mer_shop`, { callback_url_prefixes: ["https://evil.example.com"] }],
+      ["POST", merchantsUrl, { ...shop, merchant_id: "mer_anonymous" }],
+      ["DELETE", `${merchantsUrl}/mer_shop`],
+    ];
+    for (const [method, url, body] of anonymousRequests) {
+      const init = { method, headers: { "Content-Type": "application/json" }, body: body && JSON.stringify(body) };
+      const anonymousResp = await fetch(url, init);
+      if (anonymousResp.status !== 401 || (await anonymousResp.json()).error !== "ERR_ADMIN_REQUIRED") throw new Error(`${method} ${url} needs the admin token`);
+      const wrongToken = await fetch(url, { ...init, headers: { ...init.headers, "X-Admin-Token": "wrong" } });
+      if (wrongToken.status !== 401 || (await wrongToken.json()).error !== "ERR_INVALID_ADMIN_TOKEN") throw new Error(`${method} ${url} must reject a wrong admin token`);
+    }
+    if ((await (await fetch(`${merchantsUrl}/mer_shop`)).json()).callback_url_prefixes.includes("https://evil.example.com")) throw new Error("an anonymous edit must not apply");
+    const shopFetch = keyedFetch(await issueKey("mer_shop", "test"));
+
+    const shopOrder = (overrides: object, send = shopFetch) =>
+      send(`${GATEWAY_ORIGIN}/api/v2/orders`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          merchant_id: "mer_shop",
+          order_id: `order_shop_${Math.random().toString(36).slice(2)}`,
+          amount_in_paisa: 10000,
+          return_url: "https://shop.example.com/return/done",
+          callback_url: "https://api.shop.example.com/hooks/payflow",
+          test_mode: true,
+          ...overrides,
+        }),
+      });
+    const orderError = async (overrides: object) => {
+      const resp = await shopOrder(overrides);
+      return `${resp.status} ${(await resp.json()).error}`;
+    };
+    if ((await orderError({ merchant_id: "mer_test" })) !== "403 ERR_MERCHANT_MISMATCH") throw new Error("a key cannot create orders for another merchant");
+    if ((await orderError({ return_url: "https://shop.example.com.evil.io/return" })) !== "400 ERR_URL_NOT_REGISTERED") throw new Error("lookalike hosts must be rejected");
+    if ((await orderError({ return_url: "https://shop.example.com/returnx" })) !== "400 ERR_URL_NOT_REGISTERED") throw new Error("prefixes match whole path segments");
+    if ((await orderError({ callback_url: "https://shop.example.com/return/hook" })) !== "400 ERR_URL_NOT_REGISTERED") throw new Error("callback_url must match a callback prefix");
+    if ((await orderError({ test_mode: false })) !== "400 ERR_MODE_MISMATCH") throw new Error("a test key cannot create live orders");
+
+    const shopCreated = await shopOrder({});
+    if (shopCreated.status !== 201) throw new Error(`registered merchant order failed: ${shopCreated.status}`);
+    const shopGw = (await shopCreated.json()).gateway_order_id;
+    const shopCheckout = await (await fetch(`${GATEWAY_ORIGIN}/api/v2/checkout/${shopGw}`)).json();
+    if (JSON.stringify(shopCheckout.payment_methods) !== JSON.stringify(["upi"])) throw new Error("checkout should list the merchant's methods");
+    const cardAtShop = await fetch(`${GATEWAY_ORIGIN}/api/process-payment`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ orderId: shopGw, paymentMethod: "card", cardDetails: { cardNumber: "4111111111111111", expiry: "12/30", cvv: "123", cardHolderName: "Test" } }),
+    });
+    if (cardAtShop.status !== 400 || (await cardAtShop.json()).error !== "ERR_PAYMENT_METHOD_NOT_ENABLED") throw new Error("disabled methods must be rejected");
+
+    const liveShop = await (await sendMerchant("PUT", `${merchantsUrl}/mer_shop`, { live_mode: true })).json();
+    if (!liveShop.live_mode || liveShop.name !== "Shop") throw new Error("merchant update failed");
+    const liveShopFetch = keyedFetch(await issueKey("mer_shop", "live"));
+    const liveCreated = await shopOrder({ test_mode: undefined }, liveShopFetch);
+    if (liveCreated.status !== 201 || (await liveCreated.json()).test_mode !== false) throw new Error("a live key should create live orders");
+    if ((await shopFetch(`${GATEWAY_ORIGIN}/api/v2/orders/${shopGw}`)).status !== 200) throw new Error("a test key should see its test orders");
+    if ((await liveShopFetch(`${GATEWAY_ORIGIN}/api/v2/orders/${shopGw}`)).status !== 404) throw new Error("a live key must not see test orders");
+    if ((await adminFetch(`${merchantsUrl}/mer_shop`, { method: "DELETE" })).status !== 204) throw new Error("merchant delete failed");
+    if ((await shopOrder({})).status !== 401) throw new Error("a deleted merchant's keys must stop working");
+    const reregistered = await sendMerchant("POST", merchantsUrl, shop);
+    if (reregistered.status !== 409 || (await reregistered.json()).error !== "ERR_MERCHANT_ALREADY_EXISTS") throw new Error("a deleted merchant's id must not be reused");
+    if ((await shopOrder({})).status !== 401) throw new Error("the old key must stay dead after re-registering");
+    if ((await liveShopFetch(`${GATEWAY_ORIGIN}/api/v2/orders/${shopGw}`)).status !== 401) throw new Error("every key of a deleted merchant must stop working");
+    console.log("TEST 18 passed\n");
+
+    // Test 19: API keys
+    console.log("TEST 19: API keys - v2 endpoints need a valid key and only see the key's merchant");
+    const v2OrdersUrl = `${GATEWAY_ORIGIN}/api/v2/orders`;
+    const anonymous = await fetch(v2OrdersUrl, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(dupOrder) });
+    if (anonymous.status !== 401 || (await anonymous.json()).error !== "ERR_AUTHENTICATION_REQUIRED") throw new Error("v2 orders need an API key");
+    const wrongSecret = await keyedFetch({ key_id: testKey.key_id, key_secret: "sk_test_wrong" })(`${GATEWAY_ORIGIN}/api/v2/orders/${approved.gw}`);
+    if (wrongSecret.status !== 401 || (await wrongSecret.json()).error !== "ERR_INVALID_API_KEY") throw new Error("a wrong secret must be rejected");
+    const bearer = await fetch(`${GATEWAY_ORIGIN}/api/v2/orders/${approved.gw}`, { headers: { Authorization: `Bearer ${testKey.key_id}:${testKey.key_secret}` } });
+    if (bearer.status !== 200) throw new Error("bearer credentials should work too");
+
+    const listedKeys = await (await adminFetch(`${merchantsUrl}/mer_test/api-keys`)).json();
+    const listedKey = listedKeys.find((k: any) => k.key_id === testKey.key_id);
+    if (!listedKey || "key_secret" in listedKey || "secret_hash" in listedKey) throw new Error("key listings must not expose secrets");
+
+    await sendMerchant("POST", merchantsUrl, { ...shop, merchant_id: "mer_other" });
+    const otherFetch = keyedFetch(await issueKey("mer_other", "test"));
+    if ((await otherFetch(`${GATEWAY_ORIGIN}/api/v2/orders/${approved.gw}`)).status !== 404) throw new Error("another merchant's order must not be visible");
+    if ((await otherFetch(`${GATEWAY_ORIGIN}/api/v2/orders/${approved.gw}/cancel`, { method: "POST" })).status !== 404) throw new Error("another merchant's order must not be cancellable");
+    if ((await otherFetch(`${GATEWAY_ORIGIN}/api/v2/merchants/mer_test/orders/order_test_collect_ok`)).status !== 403) throw new Error("merchant paths must match the key");
+    if ((await otherFetch(`${GATEWAY_ORIGIN}/api/v2/payments/${approved.txn.id}`)).status !== 404) throw new Error("another merchant's payment must not be visible");
+    const refundV2 = (send: typeof fetch) =>
+      send(`${GATEWAY_ORIGIN}/api/v2/payments/${approved.txn.id}/refunds`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ amount: 10 }),
+      });
+    if ((await refundV2(otherFetch)).status !== 404) throw new Error("another merchant must not refund the payment");
+    const otherAuthorization = await authorize("order_test_capture_other", 1000);
+    for (const action of ["capture", "void"]) {
+      const resp = await otherFetch(`${GATEWAY_ORIGIN}/api/v2/payments/${otherAuthorization.txn.id}/${action}`, { method: "POST" });
+      if (resp.status !== 404) throw new Error(`another merchant must not ${action} the payment`);
+    }
+    if ((await capture(otherAuthorization.txn.id)).status !== 200) throw new Error("the merchant should capture its own payment");
+    if ((await refundV2(merchantFetch)).status !== 201) throw new Error("the merchant should refund its own payment");
+    const payment = await (await merchantFetch(`${GATEWAY_ORIGIN}/api/v2/payments/${approved.txn.id}`)).json();
+    const v2Refunds = await (await merchantFetch(`${GATEWAY_ORIGIN}/api/v2/payments/${approved.txn.id}/refunds`)).json();
+    if (payment.status !== "SUCCESS" || v2Refunds.length !== 1) throw new Error(`unexpected v2 payment view: ${JSON.stringify({ payment, v2Refunds })}`);
+
+    const revoked = await (await adminFetch(`${merchantsUrl}/mer_other/api-keys/${listedKeys[0].key_id}/revoke`, { method: "POST" })).status;
+    if (revoked !== 404) throw new Error("keys can only be revoked through their own merchant");
+    const spareKey = await issueKey("mer_test", "test");
+    const revokedKey = await (await adminFetch(`${merchantsUrl}/mer_test/api-keys/${spareKey.key_id}/revoke`, { method: "POST" })).json();
+    if (!revokedKey.revoked_at) throw new Error("revoke should record revoked_at");
+    if ((await keyedFetch(spareKey)(`${GATEWAY_ORIGIN}/api/v2/orders/${approved.gw}`)).status !== 401) throw new Error("revoked keys must stop working");
+    console.log("TEST 19 passed\n");
+
+    // Test 20: per-merchant webhook secrets
+    console.log("TEST 20: Webhook secrets - each merchant signs with its own secret, and rotation signs with both for a while");
+    const hooksCreated = await (await sendMerchant("POST", merchantsUrl, {
+      merchant_id: "mer_hooks",
+      name: "Hooks",
+      return_url_prefixes: ["http://localhost"],
+      callback_url_prefixes: [`http://localhost:${WEBHOOK_PORT}`],
+    })).json();
+    const originalSecret = hooksCreated.webhook_secrets?.test;
+    if (!originalSecret || !hooksCreated.webhook_secrets.live) throw new Error(`new merchants should get a secret per mode: ${JSON.stringify(hooksCreated)}`);
+    if ("webhook_secrets" in (await (await fetch(`${merchantsUrl}/mer_hooks`)).json())) throw new Error("secrets are only returned on creation");
+    acceptedSecrets.push(originalSecret);
+    const hooksFetch = keyedFetch(await issueKey("mer_hooks", "test"));
+    const hooksSignature = async (orderId: string) => {
+      const created = await (await hooksFetch(`${GATEWAY_ORIGIN}/api/v2/orders`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          order_id: orderId,
+          amount_in_paisa: 10000,
+          return_url: "http://localhost:5000/pay/return",
+          callback_url: `http://localhost:${WEBHOOK_PORT}${WEBHOOK_PATH}`,
+        }),
+      })).json();
+      const paid = await (await fetch(`${GATEWAY_ORIGIN}/api/process-payment`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ orderId: created.gateway_order_id, paymentMethod: "card", cardDetails: { cardNumber: "4242424242424242", expiry: "12/30", cvv: "123", cardHolderName: "Test" } }),
+      })).json();
+      await waitForWebhookMatching(received, (p) => p.payment_ref === paid.id);
+      const delivery = received.find((r) => JSON.parse(r.raw).payment_ref === paid.id)!;
+      const { t, v1 } = parseSignature(delivery.headers["x-gateway-signature"] as string);
+      return { t, v1: v1.join(","), raw: delivery.raw };
+    };
+
+    const beforeRotation = await hooksSignature("order_hooks_1");
+    if (beforeRotation.v1 !== computeSignature(originalSecret, beforeRotation.t, beforeRotation.raw)) throw new Error("webhooks should be signed with the merchant's own secret");
+    const anonymousRotate = await fetch(`${merchantsUrl}/mer_hooks/webhook-secrets/rotate`, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ mode: "test" }) });
+    if (anonymousRotate.status !== 401 || "secret" in (await anonymousRotate.json())) throw new Error("rotating a secret needs the admin token");
+    if ((await fetch(`${merchantsUrl}/mer_hooks/webhook-secrets`)).status !== 401) throw new Error("listing secrets needs the admin token");
+    const rotateResp = await sendMerchant("POST", `${merchantsUrl}/mer_hooks/webhook-secrets/rotate`, { mode: "test", overlap_seconds: 3 });
+    const rotated = await rotateResp.json();
+    if (rotateResp.status !== 201 || !rotated.secret || !rotated.previous_expires_at) throw new Error(`rotation failed: ${JSON.stringify(rotated)}`);
+    acceptedSecrets.push(rotated.secret);
+    const listedSecrets = await (await adminFetch(`${merchantsUrl}/mer_hooks/webhook-secrets`)).json();
+    if (listedSecrets.length !== 3 || listedSecrets.some((s: any) => "secret" in s)) throw new Error(`secret listings must not expose values: ${JSON.stringify(listedSecrets)}`);
+
+    const duringOverlap = await hooksSignature("order_hooks_2");
+    const bothSignatures = `${computeSignature(rotated.secret, duringOverlap.t, duringOverlap.raw)},${computeSignature(originalSecret, duringOverlap.t, duringOverlap.raw)}`;
+    if (duringOverlap.v1 !== bothSignatures) throw new Error(`expected the new and old signatures, got ${duringOverlap.v1}`);
+    await new Promise((r) => setTimeout(r, new Date(rotated.previous_expires_at).getTime() - Date.now() + 500));
+    const afterOverlap = await hooksSignature("order_hooks_3");
+    if (afterOverlap.v1 !== computeSignature(rotated.secret, afterOverlap.t, afterOverlap.raw)) throw new Error("the old secret should stop signing after the overlap");
+    console.log("TEST 20 passed\n");
+
+    // Test 21: signature verification
+    console.log("TEST 21: Webhook signatures - the shared verifier rejects tampered, stale and replayed deliveries");
+    const delivered = received.find((r) => JSON.parse(r.raw).payment_ref === payJson.id)!;
+    const deliveredHeader = delivered.headers["x-gateway-signature"] as string;
+    const deliveredAt = parseSignature(deliveredHeader).t;
+    const verification = (body: string, header: string | undefined, now = new Date(), secret = MERCHANT_TEST_SECRET) => {
+      const result = verifyWebhookSignature(body, header, secret, { now });
+      return result.ok ? "ok" : result.code;
+    };
+    const at = (t: number) => new Date(t * 1000);
+    const expectVerification = (actual: string, expected: string, what: string) => {
+      if (actual !== expected) throw new Error(`${what}: expected ${expected}, got ${actual}`);
+    };
+    expectVerification(verification(delivered.raw, deliveredHeader, at(deliveredAt + 60)), "ok", "a delivery within the tolerance");
+    expectVerification(verification(delivered.raw, deliveredHeader, at(deliveredAt + 301)), "timestamp_outside_tolerance", "a replay after the tolerance");
+    expectVerification(verification(delivered.raw, deliveredHeader, at(deliveredAt), "other_secret"), "signature_mismatch", "another merchant's secret");
+    expectVerification(verification(delivered.raw.replace(/"amount_in_paisa":\d+/, '"amount_in_paisa":1'), deliveredHeader, at(deliveredAt)), "signature_mismatch", "a tampered body");
+    const bumped = deliveredHeader.replace(`t=${deliveredAt}`, `t=${deliveredAt + 600}`);
+    expectVerification(verification(delivered.raw, bumped, at(deliveredAt + 600)), "signature_mismatch", "a replay with a rewritten timestamp");
+    const nowT = Math.floor(Date.now() / 1000);
+    const signedAt = (t: number) => `t=${t},v1=${computeSignature(MERCHANT_TEST_SECRET, t, delivered.raw)}`;
+    expectVerification(verification(delivered.raw, signedAt(nowT - 10)), "ok", "a freshly signed delivery");
+    expectVerification(verification(delivered.raw, signedAt(nowT + 600)), "timestamp_outside_tolerance", "a timestamp from the future");
+    expectVerification(verification(delivered.raw, `t=${nowT},v1=${"0".repeat(64)},v1=${computeSignature(MERCHANT_TEST_SECRET, nowT, delivered.raw)}`), "ok", "any matching v1");
+    expectVerification(verification(delivered.raw, `v1=${computeSignature(MERCHANT_TEST_SECRET, nowT, delivered.raw)}`), "malformed_signature", "a signature without t");
+    expectVerification(verification(delivered.raw, `sha256=${crypto.createHmac("sha256", MERCHANT_TEST_SECRET).update(delivered.raw).digest("hex")}`), "malformed_signature", "the body-only scheme");
+    expectVerification(verification(delivered.raw, undefined), "missing_signature", "no header");
+    console.log("TEST 21 passed\n");
+
+    // Test 22: webhook outbox
+    console.log("TEST 22: Webhook outbox - every event and attempt is recorded, and undeliverable events go dead");
+    const webhookEvents = async (gatewayOrderId: string) =>
+      (await fetch(`${GATEWAY_ORIGIN}/api/webhook-events?gateway_order_id=${gatewayOrderId}`)).json();
+    const webhookEvent = async (eventId: string) => (await fetch(`${GATEWAY_ORIGIN}/api/webhook-events/${eventId}`)).json();
+    const [retriedEvent] = await webhookEvents(gw2);
+    const retriedLog = await webhookEvent(retriedEvent.event_id);
+    if (retriedEvent.status !== "delivered" || retriedLog.attempts.map((a: any) => a.status_code).join(",") !== "500,200") {
+      throw new Error(`the retried delivery should log a 500 then a 200: ${JSON.stringify(retriedLog)}`);
+    }
+    if (retriedLog.attempts[0].response_snippet !== "transient error" || typeof retriedLog.attempts[1].latency_ms !== "number") throw new Error("attempts should record the response and latency");
+
+    const deadPort = await findFreePort(6200, 6299);
+    const deadOrder = await (await merchantFetch(`${GATEWAY_ORIGIN}/api/v2/orders`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        order_id: "order_test_dead_letter",
+        amount_in_paisa: 10000,
+        return_url: "http://localhost:5000/pay/return",
+        callback_url: `http://localhost:${deadPort}${WEBHOOK_PATH}`,
+      }),
+    })).json();
+    await fetch(`${GATEWAY_ORIGIN}/api/process-payment`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ orderId: deadOrder.gateway_order_id, paymentMethod: "card", cardDetails: { cardNumber: "4242424242424242", expiry: "12/30", cvv: "123", cardHolderName: "Test" } }),
+    });
+    const deadEvent = await waitFor(async () => {
+      const [event] = await webhookEvents(deadOrder.gateway_order_id);
+      return event?.status === "dead" ? event : undefined;
+    }, 15000);
+    const deadLog = await webhookEvent(deadEvent.event_id);
+    if (deadEvent.attempt_count !== 3 || deadLog.attempts.length !== 3 || deadLog.attempts.some((a: any) => a.status_code !== undefined || !a.error)) {
+      throw new Error(`expected three failed connection attempts: ${JSON.stringify(deadLog)}`);
+    }
+    const deadListed = await (await fetch(`${GATEWAY_ORIGIN}/api/webhook-events?status=dead`)).json();
+    if (!deadListed.some((e: any) => e.event_id === deadEvent.event_id)) throw new Error("dead events should be listed by status");
+
+    const retryDead = await fetch(`${GATEWAY_ORIGIN}/api/webhook-events/${deadEvent.event_id}/retry`, { method: "POST" });
+    if (retryDead.status !== 200 || (await retryDead.json()).status !== "pending") throw new Error("dead events can be retried");
+    const retriedDead = await waitFor(async () => {
+      const event = await webhookEvent(deadEvent.event_id);
+      return event.status === "dead" && event.attempt_count === 4 ? event : undefined;
+    });
+    if (retriedDead.attempts.length !== 4) throw new Error("a manual retry makes one more attempt");
+    const retryDelivered = await fetch(`${GATEWAY_ORIGIN}/api/webhook-events/${retriedEvent.event_id}/retry`, { method: "POST" });
+    if (retryDelivered.status !== 409 || (await retryDelivered.json()).error !== "ERR_WEBHOOK_EVENT_NOT_DEAD") throw new Error("only dead events can be retried");
+
+    // events of a deleted merchant are never signed with a new secret; they go dead at once
+    const orphanOrder = await (await hooksFetch(`${GATEWAY_ORIGIN}/api/v2/orders`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        order_id: "order_hooks_deleted",
+        amount_in_paisa: 10000,
+        return_url: "http://localhost:5000/pay/return",
+        callback_url: `http://localhost:${WEBHOOK_PORT}${WEBHOOK_PATH}`,
+      }),
+    })).json();
+    if ((await adminFetch(`${merchantsUrl}/mer_hooks`, { method: "DELETE" })).status !== 204) throw new Error("merchant delete failed");
+    const orphanPayment = await (await fetch(`${GATEWAY_ORIGIN}/api/process-payment`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ orderId: orphanOrder.gateway_order_id, paymentMethod: "card", cardDetails: { cardNumber: "4242424242424242", expiry: "12/30", cvv: "123", cardHolderName: "Test" } }),
+    })).json();
+    const orphanEvent = await waitFor(async () => {
+      const [event] = await webhookEvents(orphanOrder.gateway_order_id);
+      return event?.status === "dead" ? event : undefined;
+    });
+    const orphanLog = await webhookEvent(orphanEvent.event_id);
+    if (orphanEvent.attempt_count !== 1 || !/signing secret/.test(orphanLog.attempts[0].error)) throw new Error(`a deleted merchant's event should die unsent: ${JSON.stringify(orphanLog)}`);
+    if (received.some((r) => JSON.parse(r.raw).payment_ref === orphanPayment.id)) throw new Error("a deleted merchant's event must not be delivered");
+    if ((await sendMerchant("POST", merchantsUrl, { merchant_id: "mer_hooks", name: "Hooks", return_url_prefixes: ["http://localhost"], callback_url_prefixes: [`http://localhost:${WEBHOOK_PORT}`] })).status !== 409) {
+      throw new Error("a deleted merchant's id stays retired");
+    }
+    console.log("TEST 22 passed\n");
+
     // cleanup
     webhookServer.close();
 
     console.log("All tests passed");
 
-    if (serverProcess) {
-      serverProcess.kill();
-    }
+    stopServer(serverProcess);
     process.exit(0);
   } catch (err) {
     console.error("Test run error:", err);
+    stopServer(serverProcess);
     process.exit(1);
   }
 }
 
+function stopServer(cp: ChildProcess | null) {
+  if (!cp?.pid) return;
+  try {
+    process.kill(-cp.pid);
+  } catch {}
+}
+
 function verifyWebhookPayload(raw: string, headers: http.IncomingHttpHeaders) {
   const sig = headers["x-gateway-signature"] as string | undefined;
   if (!sig) throw new Error("missing signature header");
-  const expected = computeSignature(MERCHANT_TEST_SECRET, raw);
-  if (sig !== expected) throw new Error(`signature mismatch: got ${sig} expected ${expected}`);
+  const { t, v1 } = parseSignature(sig);
+  const expected = computeSignature(MERCHANT_TEST_SECRET, t, raw);
+  if (v1.join(",") !== expected) throw new Error(`signature mismatch: got ${sig} expected v1=${expected}`);
+  if (Math.abs(Date.now() / 1000 - t) > 60) throw new Error(`signature timestamp ${t} is not current`);
   const payload = JSON.parse(raw);
   if (!payload.gateway_order_id) throw new Error("missing gateway_order_id in payload");
   if (!payload.payment_ref) throw new Error("missing payment_ref in payload");
@@ -272,4 +1400,36 @@ async function waitForWebhookCount(received: any[], count: number, timeout = 100
   throw new Error(`timeout waiting for ${count} webhook attempts`);
 }
 
+async function waitForWebhookMatching(received: any[], match: (payload: any) => boolean, timeout = 10000) {
+  const start = Date.now();
+  while (Date.now() - start < timeout) {
+    const hit = received.map((r) => JSON.parse(r.raw)).find(match);
+    if (hit) return hit;
+    await new Promise((r) => setTimeout(r, 200));
+  }
+  throw new Error("timeout waiting for a matching webhook");
+}
+
+// fetch with a merchant API key (HTTP Basic), for the /api/v2 endpoints
+function keyedFetch(key: { key_id: string; key_secret: string }) {
+  const authorization = `Basic ${Buffer.from(`${key.key_id}:${key.key_secret}`).toString("base64")}`;
+  return (url: string, init: RequestInit = {}) =>
+    fetch(url, { ...init, headers: { ...(init.headers as Record<string, string> | undefined), Authorization: authorization } });
+}
+
+// the merchant registry and its credentials need the dashboard's admin token
+function adminFetch(url: string, init: RequestInit = {}) {
+  return fetch(url, { ...init, headers: { ...(init.headers as Record<string, string> | undefined), "X-Admin-Token": ADMIN_TOKEN } });
+}
+
+async function waitFor<T>(check: () => Promise<T | undefined>, timeout = 10000): Promise<T> {
+  const start = Date.now();
+  while (Date.now() - start < timeout) {
+    const result = await check();
+    if (result !== undefined) return result;
+    await new Promise((r) => setTimeout(r, 200));
+  }
+  throw new Error("timeout waiting for a condition");
+}
+
 runTests();